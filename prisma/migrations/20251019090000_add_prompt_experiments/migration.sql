@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "processed_emails" ADD COLUMN     "classificationPromptVersion" TEXT,
+ADD COLUMN     "extractionPromptVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "prompt_experiments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "promptType" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "variants" JSONB NOT NULL DEFAULT '[]',
+    "accountPins" JSONB NOT NULL DEFAULT '{}',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_experiments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_experiments_name_key" ON "prompt_experiments"("name");
+
+-- CreateIndex
+CREATE INDEX "prompt_experiments_promptType_model_isActive_idx" ON "prompt_experiments"("promptType", "model", "isActive");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "prompt_versions" (
+    "id" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "promptType" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_versions_model_version_idx" ON "prompt_versions"("model", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_versions_model_version_promptType_key" ON "prompt_versions"("model", "version", "promptType");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "processed_emails" ADD COLUMN     "reviewReasons" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "extracted_data" ADD COLUMN     "amountUserCurrency" DECIMAL(15,2),
+ADD COLUMN     "userCurrency" TEXT,
+ADD COLUMN     "userExchangeRate" DECIMAL(18,8);
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'import',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_baseCurrency_quoteCurrency_date_idx" ON "exchange_rates"("baseCurrency", "quoteCurrency", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_date_baseCurrency_quoteCurrency_key" ON "exchange_rates"("date", "baseCurrency", "quoteCurrency");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "extracted_data" ADD COLUMN     "duplicateOfId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "extracted_data_duplicateOfId_idx" ON "extracted_data"("duplicateOfId");
+
+-- AddForeignKey
+ALTER TABLE "extracted_data" ADD CONSTRAINT "extracted_data_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "extracted_data"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "extracted_data" ADD COLUMN     "merchantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "merchants" (
+    "id" TEXT NOT NULL,
+    "canonicalName" TEXT NOT NULL,
+    "defaultCategory" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_aliases" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "normalizedKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "extracted_data_merchantId_idx" ON "extracted_data"("merchantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchants_canonicalName_key" ON "merchants"("canonicalName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_aliases_normalizedKey_key" ON "merchant_aliases"("normalizedKey");
+
+-- CreateIndex
+CREATE INDEX "merchant_aliases_merchantId_idx" ON "merchant_aliases"("merchantId");
+
+-- AddForeignKey
+ALTER TABLE "extracted_data" ADD CONSTRAINT "extracted_data_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_aliases" ADD CONSTRAINT "merchant_aliases_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "extracted_data" ADD COLUMN     "categoryRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "categorization_rules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "conditions" JSONB NOT NULL,
+    "category" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "categorization_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "categorization_rules_isActive_priority_idx" ON "categorization_rules"("isActive", "priority");
+
+-- CreateIndex
+CREATE INDEX "categorization_rules_userId_idx" ON "categorization_rules"("userId");
+
+-- AddForeignKey
+ALTER TABLE "extracted_data" ADD CONSTRAINT "extracted_data_categoryRuleId_fkey" FOREIGN KEY ("categoryRuleId") REFERENCES "categorization_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
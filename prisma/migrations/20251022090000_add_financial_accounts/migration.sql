@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "FinancialAccountType" AS ENUM ('CREDIT_CARD', 'DEBIT_CARD', 'CHECKING', 'SAVINGS', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "extracted_data" ADD COLUMN     "financialAccountId" TEXT;
+
+-- CreateTable
+CREATE TABLE "financial_accounts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "issuer" TEXT,
+    "issuerDomain" TEXT NOT NULL,
+    "last4" TEXT NOT NULL,
+    "type" "FinancialAccountType" NOT NULL DEFAULT 'UNKNOWN',
+    "currency" TEXT,
+    "nickname" TEXT,
+    "latestBalance" DECIMAL(15,2),
+    "balanceUpdatedAt" TIMESTAMP(3),
+    "isUserEdited" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "financial_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "extracted_data_financialAccountId_idx" ON "extracted_data"("financialAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "financial_accounts_userId_issuerDomain_last4_key" ON "financial_accounts"("userId", "issuerDomain", "last4");
+
+-- AddForeignKey
+ALTER TABLE "extracted_data" ADD CONSTRAINT "extracted_data_financialAccountId_fkey" FOREIGN KEY ("financialAccountId") REFERENCES "financial_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "financial_accounts" ADD CONSTRAINT "financial_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('PENDING', 'MATCHED', 'MISMATCH', 'INSUFFICIENT_DATA');
+
+-- CreateTable
+CREATE TABLE "card_statements" (
+    "id" TEXT NOT NULL,
+    "emailId" TEXT NOT NULL,
+    "financialAccountId" TEXT,
+    "currency" TEXT,
+    "statementBalance" DECIMAL(15,2),
+    "minimumPayment" DECIMAL(15,2),
+    "creditLimit" DECIMAL(15,2),
+    "newCharges" DECIMAL(15,2),
+    "dueDate" TIMESTAMP(3),
+    "cycleStart" TIMESTAMP(3),
+    "cycleEnd" TIMESTAMP(3),
+    "extractionScore" DECIMAL(3,2),
+    "reminderSentAt" TIMESTAMP(3),
+    "reconciliationStatus" "ReconciliationStatus" NOT NULL DEFAULT 'PENDING',
+    "reconciledTotal" DECIMAL(15,2),
+    "reconciliationDifference" DECIMAL(15,2),
+    "reconciledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "card_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "card_statements_emailId_key" ON "card_statements"("emailId");
+
+-- CreateIndex
+CREATE INDEX "card_statements_financialAccountId_cycleEnd_idx" ON "card_statements"("financialAccountId", "cycleEnd");
+
+-- CreateIndex
+CREATE INDEX "card_statements_dueDate_idx" ON "card_statements"("dueDate");
+
+-- AddForeignKey
+ALTER TABLE "card_statements" ADD CONSTRAINT "card_statements_emailId_fkey" FOREIGN KEY ("emailId") REFERENCES "processed_emails"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "card_statements" ADD CONSTRAINT "card_statements_financialAccountId_fkey" FOREIGN KEY ("financialAccountId") REFERENCES "financial_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionInterval" AS ENUM ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY');
+
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('ACTIVE', 'INACTIVE');
+
+-- AlterEnum
+ALTER TYPE "EmailClassification" ADD VALUE 'SUBSCRIPTION';
+
+-- AlterTable
+ALTER TABLE "extracted_data" ADD COLUMN     "subscriptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "subscriptions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "interval" "SubscriptionInterval" NOT NULL,
+    "status" "SubscriptionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "averageAmount" DECIMAL(15,2) NOT NULL,
+    "lastAmount" DECIMAL(15,2) NOT NULL,
+    "previousAmount" DECIMAL(15,2),
+    "priceChangedAt" TIMESTAMP(3),
+    "chargeCount" INTEGER NOT NULL,
+    "firstChargeAt" TIMESTAMP(3) NOT NULL,
+    "lastChargeAt" TIMESTAMP(3) NOT NULL,
+    "nextExpectedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "extracted_data_subscriptionId_idx" ON "extracted_data"("subscriptionId");
+
+-- CreateIndex
+CREATE INDEX "subscriptions_nextExpectedAt_idx" ON "subscriptions"("nextExpectedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscriptions_userId_merchantId_currency_key" ON "subscriptions"("userId", "merchantId", "currency");
+
+-- AddForeignKey
+ALTER TABLE "extracted_data" ADD CONSTRAINT "extracted_data_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "budgets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT,
+    "merchantId" TEXT,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "budget_periods" (
+    "id" TEXT NOT NULL,
+    "budgetId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "spent" DECIMAL(15,2) NOT NULL,
+    "transactionCount" INTEGER NOT NULL,
+    "alertThreshold" INTEGER NOT NULL DEFAULT 0,
+    "alertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "budget_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "budgets_userId_isActive_idx" ON "budgets"("userId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "budgets_merchantId_idx" ON "budgets"("merchantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_periods_budgetId_periodStart_key" ON "budget_periods"("budgetId", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_periods" ADD CONSTRAINT "budget_periods_budgetId_fkey" FOREIGN KEY ("budgetId") REFERENCES "budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
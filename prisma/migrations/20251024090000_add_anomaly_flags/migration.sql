@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "AnomalySignal" AS ENUM ('AMOUNT_OUTLIER', 'NEW_MERCHANT_UNUSUAL_HOUR', 'UNEXPECTED_CURRENCY', 'RAPID_REPEAT');
+
+-- CreateEnum
+CREATE TYPE "AnomalyFlagStatus" AS ENUM ('OPEN', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "anomaly_flags" (
+    "id" TEXT NOT NULL,
+    "extractedDataId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "signals" "AnomalySignal"[],
+    "reasons" JSONB NOT NULL,
+    "status" "AnomalyFlagStatus" NOT NULL DEFAULT 'OPEN',
+    "dismissedAt" TIMESTAMP(3),
+    "dismissedBy" TEXT,
+    "dismissReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "anomaly_flags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "anomaly_flags_extractedDataId_key" ON "anomaly_flags"("extractedDataId");
+
+-- CreateIndex
+CREATE INDEX "anomaly_flags_userId_status_idx" ON "anomaly_flags"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "anomaly_flags" ADD CONSTRAINT "anomaly_flags_extractedDataId_fkey" FOREIGN KEY ("extractedDataId") REFERENCES "extracted_data"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "anomaly_flags" ADD CONSTRAINT "anomaly_flags_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
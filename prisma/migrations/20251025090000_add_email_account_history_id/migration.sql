@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "email_accounts" ADD COLUMN "lastHistoryId" TEXT;
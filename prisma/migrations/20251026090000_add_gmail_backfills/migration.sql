@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "gmail_backfills" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'WAITING',
+    "since" TIMESTAMP(3) NOT NULL,
+    "pageToken" TEXT,
+    "estimatedTotal" INTEGER NOT NULL DEFAULT 0,
+    "messagesFound" INTEGER NOT NULL DEFAULT 0,
+    "messagesStored" INTEGER NOT NULL DEFAULT 0,
+    "quotaUsed" INTEGER NOT NULL DEFAULT 0,
+    "quotaWindowStartedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gmail_backfills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gmail_backfills_accountId_key" ON "gmail_backfills"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "gmail_backfills" ADD CONSTRAINT "gmail_backfills_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "email_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
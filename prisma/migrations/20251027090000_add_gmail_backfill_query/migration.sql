@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "gmail_backfills" ADD COLUMN "query" TEXT;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "PreFilterDecision" AS ENUM ('SKIP', 'CLASSIFY');
+
+-- AlterTable
+ALTER TABLE "processed_emails" ADD COLUMN "preFilterDecision" "PreFilterDecision",
+ADD COLUMN "preFilterShadow" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "preFilterReasons" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateIndex
+CREATE INDEX "processed_emails_preFilterDecision_createdAt_idx" ON "processed_emails"("preFilterDecision", "createdAt");
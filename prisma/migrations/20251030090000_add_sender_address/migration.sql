@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "processed_emails" ADD COLUMN "senderAddress" TEXT;
+
+-- Backfill: the address in angle brackets, or the whole header, lowercased
+UPDATE "processed_emails"
+SET "senderAddress" = lower(trim(coalesce(substring("fromAddress" from '<([^>]+)>'), "fromAddress")));
+
+-- CreateIndex
+CREATE INDEX "processed_emails_senderAddress_accountId_idx" ON "processed_emails"("senderAddress", "accountId");
@@ -0,0 +1,80 @@
+import express from 'express';
+import { AnomalyFlagStatus, AnomalySignal } from '@prisma/client';
+import { anomalyService } from '../services/anomalyService';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+const STATUSES = Object.values(AnomalyFlagStatus) as string[];
+const SIGNALS = Object.values(AnomalySignal) as string[];
+
+// List flagged transactions, newest first
+router.get('/', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const status = req.query.status as string | undefined;
+    if (status && !STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+
+    const signal = req.query.signal as string | undefined;
+    if (signal && !SIGNALS.includes(signal)) {
+      return res.status(400).json({ error: `signal must be one of ${SIGNALS.join(', ')}` });
+    }
+
+    const { flags, total } = await anomalyService.list({
+      userId: currentUser(req).id,
+      status: status as AnomalyFlagStatus | undefined,
+      signal: signal as AnomalySignal | undefined,
+      limit,
+      offset
+    });
+
+    return res.json({ success: true, flags, total, limit, offset });
+  } catch (error) {
+    logger.error('Error fetching anomaly flags:', error);
+    return res.status(500).json({ error: 'Failed to fetch anomaly flags' });
+  }
+});
+
+// Get a flag with its reasons and transaction
+router.get('/:id', async (req, res) => {
+  try {
+    const flag = await anomalyService.get(req.params.id);
+    if (!flag || flag.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Anomaly flag not found' });
+    }
+
+    return res.json({ success: true, flag });
+  } catch (error) {
+    logger.error('Error fetching anomaly flag:', error);
+    return res.status(500).json({ error: 'Failed to fetch anomaly flag' });
+  }
+});
+
+// Dismiss a flag after checking the transaction is legitimate
+router.post('/:id/dismiss', async (req, res) => {
+  try {
+    const { dismissedBy, reason } = req.body;
+
+    const existing = await anomalyService.get(req.params.id);
+    if (!existing || existing.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Anomaly flag not found' });
+    }
+
+    const flag = await anomalyService.dismiss(req.params.id, dismissedBy, reason);
+    if (!flag) {
+      return res.status(404).json({ error: 'Anomaly flag not found' });
+    }
+
+    return res.json({ success: true, flag });
+  } catch (error) {
+    logger.error('Error dismissing anomaly flag:', error);
+    return res.status(500).json({ error: 'Failed to dismiss anomaly flag' });
+  }
+});
+
+export default router;
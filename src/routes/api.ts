@@ -6,6 +6,9 @@ import { checkDatabaseHealth } from '../utils/database';
 import { checkRedisHealth } from '../utils/redis';
 import { sampleEmailGenerator } from '../utils/sampleEmails';
 import { QueueService } from '../services/queueService';
+import { authService, currentUser } from '../services/authService';
+import { tokenEncryptionService } from '../services/tokenEncryptionService';
+import { preFilterService } from '../services/preFilterService';
 
 const router = express.Router();
 
@@ -26,6 +29,49 @@ router.get('/metrics', async (req, res) => {
   }
 });
 
+// LLM response validation stats per prompt version
+router.get('/metrics/llm-validation', async (req, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 7;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const stats = await OpenAIMetrics.getValidationStats(since);
+
+    res.json({
+      period: { days, since: since.toISOString() },
+      prompts: stats.map(entry => ({
+        ...entry,
+        validationRate: entry.responses > 0 ? entry.valid / entry.responses : null,
+      })),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Error fetching LLM validation stats:', error);
+    res.status(500).json({ error: 'Failed to fetch LLM validation statistics' });
+  }
+});
+
+// Pre-classification filter verdicts: LLM calls avoided and, in shadow mode, financial emails it would have skipped
+router.get('/metrics/prefilter', async (req, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 7;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const stats = await preFilterService.getStats(currentUser(req).id, since);
+
+    res.json({
+      period: { days, since: since.toISOString() },
+      ...stats,
+      shadow: {
+        ...stats.shadow,
+        wrongSkipRate: stats.shadow.wouldSkip > 0 ? stats.shadow.wronglySkipped / stats.shadow.wouldSkip : null,
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Error fetching pre-filter stats:', error);
+    res.status(500).json({ error: 'Failed to fetch pre-filter statistics' });
+  }
+});
+
 // Performance report
 router.get('/performance/report', async (req, res) => {
   try {
@@ -74,18 +120,18 @@ router.get('/status', async (req, res) => {
   }
 });
 
-// Database statistics
+// Database statistics for the session user
 router.get('/stats/database', async (req, res) => {
   try {
-    const [userCount, accountCount, emailCount, extractedCount] = await Promise.all([
-      prisma.user.count(),
-      prisma.emailAccount.count(),
-      prisma.processedEmail.count(),
-      prisma.extractedData.count()
+    const userId = currentUser(req).id;
+    const [accountCount, emailCount, extractedCount] = await Promise.all([
+      prisma.emailAccount.count({ where: { userId } }),
+      prisma.processedEmail.count({ where: { account: { userId } } }),
+      prisma.extractedData.count({ where: { email: { account: { userId } } } })
     ]);
     
     res.json({
-      users: userCount,
+      users: 1,
       emailAccounts: accountCount,
       processedEmails: emailCount,
       extractedData: extractedCount,
@@ -101,9 +147,11 @@ router.get('/stats/database', async (req, res) => {
 router.get('/activity/recent', async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 10;
+    const userId = currentUser(req).id;
     
     const [recentEmails, recentAuditLogs] = await Promise.all([
       prisma.processedEmail.findMany({
+        where: { account: { userId } },
         take: limit,
         orderBy: { createdAt: 'desc' },
         include: {
@@ -113,6 +161,7 @@ router.get('/activity/recent', async (req, res) => {
         }
       }),
       prisma.auditLog.findMany({
+        where: { userId },
         take: limit,
         orderBy: { createdAt: 'desc' }
       })
@@ -141,10 +190,8 @@ router.get('/queue/stats', async (req, res) => {
       });
     }
 
-    // Verify account exists
-    const account = await prisma.emailAccount.findUnique({
-      where: { id: accountId }
-    });
+    // Verify account exists and belongs to the session user
+    const account = await authService.getAccount(currentUser(req).id, accountId);
 
     if (!account) {
       return res.status(404).json({ 
@@ -188,7 +235,7 @@ router.get('/queue/stats', async (req, res) => {
         where: {
           ...accountFilter,
           classification: {
-            in: ['BANKING', 'CREDIT_CARD', 'INVESTMENT', 'PAYMENT', 'BILL', 'INSURANCE', 'TAX', 'LOAN']
+            in: ['BANKING', 'CREDIT_CARD', 'INVESTMENT', 'PAYMENT', 'SUBSCRIPTION', 'BILL', 'INSURANCE', 'TAX', 'LOAN']
           }
         }
       }),
@@ -228,7 +275,8 @@ router.get('/config', (req, res) => {
       environment: process.env.NODE_ENV || 'development',
       version: process.env.npm_package_version || '1.0.0',
       features: {
-        aiClassification: !!process.env.OPENAI_API_KEY,
+        aiClassification: !!process.env.OPENAI_API_KEY || ['openai-compatible', 'stub'].includes(process.env.AI_PROVIDER || ''),
+        aiProvider: process.env.AI_PROVIDER || 'openai',
         gmailIntegration: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
         webhooks: !!process.env.WEBHOOK_BASE_URL,
         realTimeUpdates: true
@@ -324,17 +372,8 @@ router.post('/testing/generate-emails', async (req, res) => {
     try {
       const count = parseInt(req.body.count as string) || 20;
       
-      // Create a test user and email account if they don't exist
-      let testUser = await DatabaseOperations.findUserByEmail('test@example.com');
-      if (!testUser) {
-        testUser = await DatabaseOperations.createUser({
-          email: 'test@example.com',
-          displayName: 'Test User',
-          language: 'en',
-          currency: 'USD',
-          timezone: 'UTC'
-        });
-      }
+      // Generate into the session user's first account, creating a test account if they have none
+      const testUser = currentUser(req);
 
       let testAccount = await prisma.emailAccount.findFirst({
         where: { userId: testUser.id }
@@ -343,7 +382,7 @@ router.post('/testing/generate-emails', async (req, res) => {
       if (!testAccount) {
         testAccount = await DatabaseOperations.createEmailAccount({
           userId: testUser.id,
-          gmailAddress: 'test@example.com',
+          gmailAddress: testUser.email,
           accessToken: 'test_access_token',
           refreshToken: 'test_refresh_token'
         });
@@ -423,19 +462,25 @@ router.post('/testing/process-emails', async (req, res) => {
       const emailIds = req.body.emailIds as string[];
       const processAll = req.body.processAll as boolean;
       
-      let emailsToProcess: string[] = [];
+      let emailsToProcess: Array<{ id: string; accountId: string }> = [];
 
       if (processAll) {
-        // Get all pending emails
+        // Get all of the user's pending emails
         const pendingEmails = await prisma.processedEmail.findMany({
           where: { 
+            account: { userId: currentUser(req).id },
             processingStatus: 'PENDING'
           },
-          select: { id: true }
+          select: { id: true, accountId: true }
         });
-        emailsToProcess = pendingEmails.map(e => e.id);
+        emailsToProcess = pendingEmails;
       } else if (emailIds && emailIds.length > 0) {
-        emailsToProcess = emailIds;
+        // Ignore ids of other users' emails
+        const ownedEmails = await prisma.processedEmail.findMany({
+          where: { id: { in: emailIds }, account: { userId: currentUser(req).id } },
+          select: { id: true, accountId: true }
+        });
+        emailsToProcess = ownedEmails;
       } else {
         return res.status(400).json({
           success: false,
@@ -451,14 +496,14 @@ router.post('/testing/process-emails', async (req, res) => {
         });
       }
 
-      // Queue classification jobs for each email
+      // Queue classification jobs for each email; the worker runs them through the processing pipeline
       const queueService = QueueService.getInstance();
       const queuedJobs = [];
 
-      for (const emailId of emailsToProcess) {
+      for (const { id: emailId, accountId } of emailsToProcess) {
         try {
           const job = await queueService.addEmailProcessingJob({
-            emailAccountId: '', // Will be populated from email record
+            emailAccountId: accountId,
             emailId,
             processType: 'classify',
             priority: 5
@@ -499,8 +544,17 @@ router.delete('/testing/clear-data', async (req, res) => {
   }
     try {
       const accountId = req.query.accountId as string;
+      const userId = currentUser(req).id;
       
       if (accountId) {
+        if (!await authService.getAccount(userId, accountId)) {
+          return res.status(404).json({
+            success: false,
+            error: 'Account not found'
+          });
+        }
+
+
         // Clear data for specific account only
         console.log(`Clearing data for account: ${accountId}`);
         
@@ -522,31 +576,29 @@ router.delete('/testing/clear-data', async (req, res) => {
         
         logger.info(`Cleared test data for account ${accountId}`);
         
-        res.json({
+        return res.json({
           success: true,
           message: `Test data cleared for account ${accountId}`,
           accountId: accountId,
           timestamp: new Date().toISOString()
         });
       } else {
-        // Clear all data (original behavior)
-        console.log('Clearing all test data');
+        // Clear the emails of all of the user's accounts; the accounts and the user stay
+        console.log(`Clearing all test data for user: ${userId}`);
         
+        const accountIds = await authService.getAccountIds(userId);
+
         // Delete in correct order due to foreign key constraints
-        await prisma.extractedData.deleteMany({});
-        await prisma.processedEmail.deleteMany({});
-        await prisma.emailAccount.deleteMany({});
-        await prisma.user.deleteMany({});
-        await prisma.auditLog.deleteMany({});
-        await prisma.performanceMetric.deleteMany({});
-        await prisma.queueJob.deleteMany({});
+        await prisma.extractedData.deleteMany({ where: { email: { accountId: { in: accountIds } } } });
+        await prisma.processedEmail.deleteMany({ where: { accountId: { in: accountIds } } });
         
-        // Clear all OpenAI metrics
-        await OpenAIMetrics.clearAllMetrics();
+        for (const id of accountIds) {
+          await OpenAIMetrics.clearAccountMetrics(id);
+        }
 
-        logger.info('Cleared all test data from database');
+        logger.info(`Cleared test data for user ${userId}`);
 
-        res.json({
+        return res.json({
           success: true,
           message: 'All test data cleared successfully',
           timestamp: new Date().toISOString()
@@ -570,21 +622,9 @@ router.post('/testing/create-gmail-account', async (req, res) => {
   }
   
   try {
-    const { email = 'amiramazid24@gmail.com', userName = 'Test User' } = req.body;
-    
-    // Create or find test user
-    let user = await prisma.user.findUnique({
-      where: { email }
-    });
-    
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          email,
-          displayName: userName,
-        }
-      });
-    }
+    // Test accounts are attached to the session user
+    const user = currentUser(req);
+    const { email = user.email } = req.body;
     
     // Check if account already exists
     const existingAccount = await prisma.emailAccount.findUnique({
@@ -613,8 +653,8 @@ router.post('/testing/create-gmail-account', async (req, res) => {
       data: {
         userId: user.id,
         gmailAddress: email,
-        accessToken: 'test-access-token-' + Date.now(),
-        refreshToken: 'test-refresh-token-' + Date.now(),
+        accessToken: tokenEncryptionService.encrypt('test-access-token-' + Date.now()),
+        refreshToken: tokenEncryptionService.encrypt('test-refresh-token-' + Date.now()),
         tokenExpiresAt: new Date(Date.now() + 3600000), // 1 hour from now
         isConnected: true,
       }
@@ -1,6 +1,9 @@
 import express from 'express';
 import { GmailService } from '../services/gmailService';
-import { DatabaseOperations, prisma } from '../utils/database';
+import { authService, currentUser, getBearerToken, requireAuth } from '../services/authService';
+import { gmailBackfillService } from '../services/gmailBackfillService';
+import { tokenEncryptionService } from '../services/tokenEncryptionService';
+import { prisma } from '../utils/database';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -39,56 +42,129 @@ router.get('/google/callback', async (req, res) => {
     // Get user profile
     const profile = await gmailService.getUserProfile();
     
-    // Store user and email account in database
-    let user = await DatabaseOperations.findUserByEmail(profile.email);
-    if (!user) {
-      user = await DatabaseOperations.createUser({
-        email: profile.email,
-        displayName: profile.email.split('@')[0],
-      });
-    }
-    
-    // Store email account with tokens
-    await DatabaseOperations.createEmailAccount({
-      userId: user.id,
-      gmailAddress: profile.email,
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      tokenExpiresAt: tokens.expiryDate ? new Date(tokens.expiryDate) : undefined,
+    // Store user and email account in database; signing in again refreshes the tokens
+    const user = await prisma.user.upsert({
+      where: { email: profile.email },
+      create: { email: profile.email, displayName: profile.email.split('@')[0] ?? null },
+      update: {},
     });
-    
+
+    const tokenExpiresAt = tokens.expiryDate ? new Date(tokens.expiryDate) : null;
+    const accessToken = tokenEncryptionService.encrypt(tokens.accessToken);
+    const refreshToken = tokenEncryptionService.encrypt(tokens.refreshToken);
+    const account = await prisma.emailAccount.upsert({
+      where: { userId_gmailAddress: { userId: user.id, gmailAddress: profile.email } },
+      create: {
+        userId: user.id,
+        gmailAddress: profile.email,
+        accessToken,
+        refreshToken,
+        tokenExpiresAt,
+      },
+      update: {
+        accessToken,
+        refreshToken,
+        tokenExpiresAt,
+        isConnected: true,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'USER_LOGIN',
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+        metadata: { method: 'google_oauth' },
+      },
+    });
+
+    // Import older financial emails in the background; a reconnect resumes an unfinished backfill
+    await gmailBackfillService.start(account.id).catch(error => {
+      logger.error(`Failed to start backfill for ${profile.email}:`, error);
+    });
+
     logger.info('OAuth flow completed for user:', profile.email);
     
-    // Redirect to dashboard with success message
-    res.redirect('/dashboard?auth=success');
+    // The session token goes in the fragment so it never reaches server logs
+    const token = authService.issueToken(user);
+    res.redirect(`/dashboard?auth=success#token=${encodeURIComponent(token)}`);
   } catch (error) {
     logger.error('OAuth callback error:', error);
     res.redirect('/dashboard?auth=error');
   }
 });
 
-// Check authentication status
+// Development sign-in without Google, for users created by the testing endpoints.
+// Off unless ALLOW_DEV_LOGIN=true, and only for test users in the reserved
+// example.com domain, so no real or admin account can be signed into.
+router.post('/dev-login', async (req, res) => {
+  if (process.env.NODE_ENV !== 'development' || process.env.ALLOW_DEV_LOGIN !== 'true') {
+    return res.status(403).json({ error: 'Development sign-in is disabled' });
+  }
+
+  try {
+    const { email = 'test@example.com' } = req.body;
+    if (typeof email !== 'string' || !/^[^@\s]+@example\.com$/i.test(email)) {
+      return res.status(400).json({ error: 'Development sign-in only accepts @example.com test addresses' });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email }, select: { isAdmin: true } });
+    if (existing?.isAdmin) {
+      return res.status(403).json({ error: 'Development sign-in is not available for admins' });
+    }
+
+    const user = await prisma.user.upsert({
+      where: { email },
+      create: { email, displayName: email.split('@')[0] ?? null },
+      update: {},
+    });
+
+    return res.json({ success: true, token: authService.issueToken(user), user: { id: user.id, email: user.email } });
+  } catch (error) {
+    logger.error('Error during development sign-in:', error);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+// Current session user
+router.get('/me', requireAuth, (req, res) => {
+  const user = currentUser(req);
+  res.json({
+    id: user.id,
+    email: user.email,
+    displayName: user.displayName,
+    language: user.language,
+    currency: user.currency,
+    timezone: user.timezone,
+  });
+});
+
+// Check authentication status and the session user's connected accounts
 router.get('/status', async (req, res) => {
   try {
-    // For prototype, we'll just check if we have any connected accounts
-    // In production, this would check the user's session
+    const user = await authService.authenticate(getBearerToken(req.headers.authorization));
+    if (!user) {
+      return res.json({ authenticated: false, accounts: [] });
+    }
+
     const accounts = await prisma.emailAccount.findMany({
-      where: { isConnected: true },
-      include: { user: true },
+      where: { userId: user.id, isConnected: true },
     });
     
-    res.json({
-      authenticated: accounts.length > 0,
+    return res.json({
+      authenticated: true,
+      user: { id: user.id, email: user.email, displayName: user.displayName },
       accounts: accounts.map(account => ({
         id: account.id,
         email: account.gmailAddress,
-        user: account.user.displayName,
+        user: user.displayName,
         lastSync: account.lastSyncAt,
       })),
     });
   } catch (error) {
     logger.error('Error checking auth status:', error);
-    res.status(500).json({ error: 'Failed to check authentication status' });
+    return res.status(500).json({ error: 'Failed to check authentication status' });
   }
 });
 
@@ -0,0 +1,142 @@
+import express from 'express';
+import { budgetInputSchema, budgetService } from '../services/budgetService';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+/**
+ * Validate a budget payload. Returns the first validation message on failure.
+ */
+function parseBudget(body: unknown) {
+  const parsed = budgetInputSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: issue ? `${issue.path.join('.') || 'budget'}: ${issue.message}` : 'Invalid budget' };
+  }
+  return { budget: parsed.data };
+}
+
+/**
+ * Whether the budget in the :id param belongs to the session user
+ */
+async function isOwnBudget(req: express.Request): Promise<boolean> {
+  const budget = await prisma.budget.findUnique({ where: { id: req.params.id! }, select: { userId: true } });
+  return budget?.userId === currentUser(req).id;
+}
+
+// List budgets with the current month's spend
+router.get('/', async (req, res) => {
+  try {
+    const budgets = await budgetService.list({
+      userId: currentUser(req).id,
+      includeInactive: req.query.includeInactive === 'true'
+    });
+
+    return res.json({ success: true, budgets });
+  } catch (error) {
+    logger.error('Error fetching budgets:', error);
+    return res.status(500).json({ error: 'Failed to fetch budgets' });
+  }
+});
+
+// Create a budget for a category or a merchant
+router.post('/', async (req, res) => {
+  try {
+    const { budget, error } = parseBudget({ ...req.body, userId: currentUser(req).id });
+    if (!budget) {
+      return res.status(400).json({ error });
+    }
+
+    const created = await budgetService.create(budget);
+    if (!created) {
+      return res.status(404).json({ error: 'User or merchant not found' });
+    }
+
+    return res.status(201).json({ success: true, budget: created });
+  } catch (error) {
+    logger.error('Error creating budget:', error);
+    return res.status(500).json({ error: 'Failed to create budget' });
+  }
+});
+
+// Get a budget with the current month's spend
+router.get('/:id', async (req, res) => {
+  try {
+    const budget = await budgetService.get(req.params.id);
+    if (!budget || budget.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    return res.json({ success: true, budget });
+  } catch (error) {
+    logger.error('Error fetching budget:', error);
+    return res.status(500).json({ error: 'Failed to fetch budget' });
+  }
+});
+
+// Spend per month for the last `months` months (default 12), newest first
+router.get('/:id/history', async (req, res) => {
+  try {
+    const months = Math.min(parseInt(req.query.months as string) || 12, 36);
+
+    if (!await isOwnBudget(req)) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    const periods = await budgetService.getHistory(req.params.id, months);
+    if (!periods) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    return res.json({ success: true, periods });
+  } catch (error) {
+    logger.error('Error fetching budget history:', error);
+    return res.status(500).json({ error: 'Failed to fetch budget history' });
+  }
+});
+
+// Replace a budget
+router.put('/:id', async (req, res) => {
+  try {
+    const { budget, error } = parseBudget({ ...req.body, userId: currentUser(req).id });
+    if (!budget) {
+      return res.status(400).json({ error });
+    }
+
+    if (!await isOwnBudget(req)) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    const updated = await budgetService.update(req.params.id, budget);
+    if (!updated) {
+      return res.status(404).json({ error: 'Budget or merchant not found' });
+    }
+
+    return res.json({ success: true, budget: updated });
+  } catch (error) {
+    logger.error('Error updating budget:', error);
+    return res.status(500).json({ error: 'Failed to update budget' });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!await isOwnBudget(req)) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    const deleted = await budgetService.delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    logger.error('Error deleting budget:', error);
+    return res.status(500).json({ error: 'Failed to delete budget' });
+  }
+});
+
+export default router;
@@ -1,18 +1,21 @@
 import express from 'express';
 import { GmailService } from '../services/gmailService';
+import { authService, currentUser } from '../services/authService';
 import { DatabaseOperations, prisma } from '../utils/database';
 import { logger } from '../utils/logger';
 import { PerformanceMonitor } from '../utils/performance';
 
 const router = express.Router();
 
-// Get processed emails
+// Get processed emails of the session user's accounts
 router.get('/', async (req, res) => {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
     const offset = parseInt(req.query.offset as string) || 0;
+    const where = { account: { userId: currentUser(req).id } };
     
     const emails = await prisma.processedEmail.findMany({
+      where,
       take: limit,
       skip: offset,
       orderBy: { receivedAt: 'desc' },
@@ -29,7 +32,7 @@ router.get('/', async (req, res) => {
       pagination: {
         limit,
         offset,
-        total: await prisma.processedEmail.count()
+        total: await prisma.processedEmail.count({ where })
       }
     });
   } catch (error) {
@@ -43,8 +46,8 @@ router.get('/:id', async (req, res) => {
   try {
     const emailId = req.params.id;
     
-    const email = await prisma.processedEmail.findUnique({
-      where: { id: emailId },
+    const email = await prisma.processedEmail.findFirst({
+      where: { id: emailId, account: { userId: currentUser(req).id } },
       include: {
         extractedData: true,
         account: {
@@ -69,9 +72,7 @@ router.post('/sync/:accountId', async (req, res) => {
   try {
     const accountId = req.params.accountId;
     
-    const account = await prisma.emailAccount.findUnique({
-      where: { id: accountId }
-    });
+    const account = await authService.getAccount(currentUser(req).id, accountId);
     
     if (!account) {
       return res.status(404).json({ error: 'Account not found' });
@@ -145,14 +146,16 @@ router.post('/sync/:accountId', async (req, res) => {
   }
 });
 
-// Get email statistics
+// Get email statistics for the session user
 router.get('/stats/summary', async (req, res) => {
   try {
+    const account = { userId: currentUser(req).id };
     const stats = await prisma.processedEmail.aggregate({
       _count: {
         id: true
       },
       where: {
+        account,
         createdAt: {
           gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
         }
@@ -161,6 +164,7 @@ router.get('/stats/summary', async (req, res) => {
     
     const classifiedCount = await prisma.processedEmail.count({
       where: {
+        account,
         processingStatus: {
           in: ['CLASSIFIED', 'COMPLETED'] // Count all successfully classified emails
         },
@@ -172,6 +176,7 @@ router.get('/stats/summary', async (req, res) => {
     
     const extractedCount = await prisma.extractedData.count({
       where: {
+        email: { account },
         createdAt: {
           gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
         }
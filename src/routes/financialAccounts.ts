@@ -0,0 +1,116 @@
+import express from 'express';
+import { FinancialAccountType } from '@prisma/client';
+import { financialAccountService, FinancialAccountChanges } from '../services/financialAccountService';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+const ACCOUNT_TYPES = Object.values(FinancialAccountType) as string[];
+
+// List discovered cards and accounts
+router.get('/', async (req, res) => {
+  try {
+    const accounts = await financialAccountService.list(currentUser(req).id);
+
+    return res.json({
+      success: true,
+      accounts: accounts.map(({ _count, ...account }) => ({
+        ...account,
+        transactionCount: _count.transactions
+      }))
+    });
+  } catch (error) {
+    logger.error('Error fetching financial accounts:', error);
+    return res.status(500).json({ error: 'Failed to fetch financial accounts' });
+  }
+});
+
+// Spend per card or account in the user's currency, with the latest balance
+router.get('/spend', async (req, res) => {
+  try {
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const accounts = await financialAccountService.getSpendSummary({
+      userId: currentUser(req).id,
+      from,
+      to
+    });
+
+    return res.json({ success: true, accounts });
+  } catch (error) {
+    logger.error('Error fetching financial account spend:', error);
+    return res.status(500).json({ error: 'Failed to fetch financial account spend' });
+  }
+});
+
+// Get a single account
+router.get('/:id', async (req, res) => {
+  try {
+    const account = await financialAccountService.get(req.params.id);
+    if (!account || account.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Financial account not found' });
+    }
+
+    const { _count, ...rest } = account;
+    return res.json({ success: true, account: { ...rest, transactionCount: _count.transactions } });
+  } catch (error) {
+    logger.error('Error fetching financial account:', error);
+    return res.status(500).json({ error: 'Failed to fetch financial account' });
+  }
+});
+
+// Edit issuer, type, currency or nickname
+router.put('/:id', async (req, res) => {
+  try {
+    const changes: FinancialAccountChanges = {};
+
+    if (req.body.type !== undefined) {
+      if (!ACCOUNT_TYPES.includes(req.body.type)) {
+        return res.status(400).json({ error: `type must be one of ${ACCOUNT_TYPES.join(', ')}` });
+      }
+      changes.type = req.body.type;
+    }
+
+    if (req.body.currency !== undefined) {
+      if (req.body.currency !== null && (typeof req.body.currency !== 'string' || !/^[A-Za-z]{3}$/.test(req.body.currency))) {
+        return res.status(400).json({ error: 'currency must be a 3-letter code or null' });
+      }
+      changes.currency = req.body.currency;
+    }
+
+    for (const field of ['issuer', 'nickname'] as const) {
+      if (req.body[field] !== undefined) {
+        if (req.body[field] !== null && typeof req.body[field] !== 'string') {
+          return res.status(400).json({ error: `${field} must be a string or null` });
+        }
+        changes[field] = req.body[field];
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'At least one of issuer, type, currency or nickname is required' });
+    }
+
+    const existing = await financialAccountService.get(req.params.id);
+    if (!existing || existing.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Financial account not found' });
+    }
+
+    const account = await financialAccountService.update(req.params.id, changes);
+    if (!account) {
+      return res.status(404).json({ error: 'Financial account not found' });
+    }
+
+    return res.json({ success: true, account });
+  } catch (error) {
+    logger.error('Error updating financial account:', error);
+    return res.status(500).json({ error: 'Failed to update financial account' });
+  }
+});
+
+export default router;
@@ -0,0 +1,143 @@
+import express from 'express';
+import { merchantService } from '../services/merchantService';
+import { currentUser, requireAdmin } from '../services/authService';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+// List the user's merchants, optionally searching names and aliases
+router.get('/', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { merchants, total } = await merchantService.list(currentUser(req).id, {
+      search: req.query.search as string | undefined,
+      limit,
+      offset
+    });
+
+    return res.json({
+      success: true,
+      merchants: merchants.map(merchant => ({
+        id: merchant.id,
+        canonicalName: merchant.canonicalName,
+        defaultCategory: merchant.defaultCategory,
+        aliasCount: merchant._count.aliases,
+        transactionCount: merchant._count.transactions
+      })),
+      total,
+      limit,
+      offset
+    });
+  } catch (error) {
+    logger.error('Error fetching merchants:', error);
+    return res.status(500).json({ error: 'Failed to fetch merchants' });
+  }
+});
+
+// Get a merchant with its aliases
+router.get('/:id', async (req, res) => {
+  try {
+    const merchant = await merchantService.get(req.params.id, currentUser(req).id);
+    if (!merchant) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    return res.json({ success: true, merchant });
+  } catch (error) {
+    logger.error('Error fetching merchant:', error);
+    return res.status(500).json({ error: 'Failed to fetch merchant' });
+  }
+});
+
+// Rename a merchant or change its default category; merchants are shared, so admins only
+router.put('/:id', requireAdmin, async (req, res) => {
+  try {
+    const { canonicalName, defaultCategory } = req.body;
+
+    if (canonicalName !== undefined && (typeof canonicalName !== 'string' || canonicalName.trim() === '')) {
+      return res.status(400).json({ error: 'canonicalName must be a non-empty string' });
+    }
+    if (defaultCategory !== undefined && defaultCategory !== null && typeof defaultCategory !== 'string') {
+      return res.status(400).json({ error: 'defaultCategory must be a string or null' });
+    }
+
+    if (canonicalName !== undefined) {
+      const existing = await merchantService.findByName(canonicalName.trim());
+      if (existing && existing.id !== req.params.id) {
+        return res.status(409).json({ error: `Merchant ${existing.canonicalName} already exists` });
+      }
+    }
+
+    const merchant = await merchantService.update(req.params.id, {
+      canonicalName: canonicalName?.trim(),
+      defaultCategory
+    });
+    if (!merchant) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    return res.json({ success: true, merchant });
+  } catch (error) {
+    logger.error('Error updating merchant:', error);
+    return res.status(500).json({ error: 'Failed to update merchant' });
+  }
+});
+
+// Merge other merchants into this one, re-linking their transactions
+router.post('/:id/merge', requireAdmin, async (req, res) => {
+  try {
+    const { sourceIds } = req.body;
+    if (!Array.isArray(sourceIds) || sourceIds.length === 0 || !sourceIds.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'sourceIds must be a non-empty array of merchant ids' });
+    }
+
+    const result = await merchantService.merge(req.params.id, sourceIds);
+    if (!result) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error merging merchants:', error);
+    return res.status(500).json({ error: 'Failed to merge merchants' });
+  }
+});
+
+// Move some aliases (and their transactions) to a new merchant
+router.post('/:id/split', requireAdmin, async (req, res) => {
+  try {
+    const { aliasIds, canonicalName, defaultCategory } = req.body;
+    if (!Array.isArray(aliasIds) || aliasIds.length === 0 || !aliasIds.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'aliasIds must be a non-empty array of alias ids' });
+    }
+    if (typeof canonicalName !== 'string' || canonicalName.trim() === '') {
+      return res.status(400).json({ error: 'canonicalName is required' });
+    }
+
+    const existing = await merchantService.findByName(canonicalName.trim());
+    if (existing) {
+      return res.status(409).json({ error: `Merchant ${existing.canonicalName} already exists` });
+    }
+
+    const result = await merchantService.split(req.params.id, {
+      aliasIds,
+      canonicalName: canonicalName.trim(),
+      defaultCategory
+    });
+    if (!result) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error splitting merchant:', error);
+    return res.status(500).json({ error: 'Failed to split merchant' });
+  }
+});
+
+export default router;
@@ -1,7 +1,11 @@
 import express from 'express';
 import { emailMonitoringService } from '../services/emailMonitoringService';
+import { authService, currentUser } from '../services/authService';
 import { DatabaseOperations, prisma } from '../utils/database';
 import { logger } from '../utils/logger';
+import { emailPipelineService } from '../services/emailPipelineService';
+import { gmailBackfillService } from '../services/gmailBackfillService';
+import { gmailFilterService, searchFilterSchema } from '../services/gmailFilterService';
 
 const router = express.Router();
 
@@ -17,11 +21,8 @@ router.post('/start', async (req, res) => {
       });
     }
 
-    // Verify account exists and is connected
-    const account = await prisma.emailAccount.findUnique({
-      where: { id: accountId },
-      include: { user: true }
-    });
+    // Verify account exists, belongs to the session user and is connected
+    const account = await authService.getAccount(currentUser(req).id, accountId);
 
     if (!account) {
       return res.status(404).json({ 
@@ -67,6 +68,13 @@ router.post('/stop', async (req, res) => {
       });
     }
 
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
     // Stop monitoring
     const result = await emailMonitoringService.stopMonitoring(accountId);
     
@@ -74,11 +82,11 @@ router.post('/stop', async (req, res) => {
       logger.info(`Stopped monitoring account ${accountId} via API`);
     }
 
-    res.json(result);
+    return res.json(result);
     
   } catch (error) {
     logger.error('Error stopping monitoring via API:', error);
-    res.status(500).json({ 
+    return res.status(500).json({ 
       success: false, 
       message: 'Failed to stop monitoring' 
     });
@@ -97,6 +105,13 @@ router.post('/sync', async (req, res) => {
       });
     }
 
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
     // Check if account is being monitored
     const activeSessions = emailMonitoringService.getActiveMonitoringSessions();
     const session = activeSessions.find(s => s.accountId === accountId);
@@ -115,21 +130,23 @@ router.post('/sync', async (req, res) => {
       logger.info(`Manual sync triggered for account ${accountId} via API`);
     }
 
-    res.json(result);
+    return res.json(result);
     
   } catch (error) {
     logger.error('Error triggering manual sync via API:', error);
-    res.status(500).json({ 
+    return res.status(500).json({ 
       success: false, 
       message: 'Failed to trigger manual sync' 
     });
   }
 });
 
-// Get monitoring status for all accounts
+// Get monitoring status for the session user's accounts
 router.get('/status', async (req, res) => {
   try {
-    const activeSessions = emailMonitoringService.getActiveMonitoringSessions();
+    const accountIds = await authService.getAccountIds(currentUser(req).id);
+    const activeSessions = emailMonitoringService.getActiveMonitoringSessions()
+      .filter(session => accountIds.includes(session.accountId));
     
     // Get account details for each active session
     const statusPromises = activeSessions.map(async (session) => {
@@ -169,12 +186,20 @@ router.get('/status', async (req, res) => {
 router.get('/status/:accountId', async (req, res) => {
   try {
     const { accountId } = req.params;
+
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found',
+        isMonitoring: false
+      });
+    }
     
     // Check if monitoring is active for this account
     const isMonitoring = emailMonitoringService.isMonitoring(accountId);
     const monitoringSession = emailMonitoringService.getMonitoringSession(accountId);
     
-    res.json({
+    return res.json({
       success: true,
       isMonitoring,
       startedAt: monitoringSession?.startedAt || null,
@@ -184,7 +209,7 @@ router.get('/status/:accountId', async (req, res) => {
     
   } catch (error) {
     logger.error('Error checking monitoring status:', error);
-    res.status(500).json({ 
+    return res.status(500).json({ 
       success: false, 
       message: 'Failed to check monitoring status',
       isMonitoring: false
@@ -192,11 +217,200 @@ router.get('/status/:accountId', async (req, res) => {
   }
 });
 
+// Start or resume the backfill of older financial emails for an account
+router.post('/backfill/:accountId', async (req, res) => {
+  try {
+    const { accountId } = req.params;
+    const { months } = req.body;
+
+    if (months !== undefined && (!Number.isInteger(months) || months < 1 || months > 120)) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'months must be a whole number between 1 and 120' 
+      });
+    }
+
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
+    const backfill = await gmailBackfillService.start(accountId, { months });
+    return res.json({ success: true, backfill });
+    
+  } catch (error) {
+    logger.error('Error starting backfill:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to start backfill' 
+    });
+  }
+});
+
+// Get backfill progress for an account
+router.get('/backfill/:accountId', async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
+    const backfill = await gmailBackfillService.getStatus(accountId);
+    return res.json({ success: true, backfill });
+    
+  } catch (error) {
+    logger.error('Error getting backfill status:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to get backfill status' 
+    });
+  }
+});
+
+/**
+ * Validate a search filter payload. Returns the first validation message on failure.
+ */
+async function parseSearchFilter(body: unknown) {
+  const parsed = searchFilterSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: issue ? `${issue.path.join('.') || 'filter'}: ${issue.message}` : 'Invalid search filter' };
+  }
+
+  try {
+    // Checked after merging the defaults, so a deny-only filter that inherits them is fine
+    await gmailFilterService.resolve(parsed.data);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid search filter' };
+  }
+  return { filter: parsed.data };
+}
+
+// Get the Gmail search filter of an account, the system defaults and the resulting query
+router.get('/filters/:accountId', async (req, res) => {
+  try {
+    const account = await authService.getAccount(currentUser(req).id, req.params.accountId);
+    if (!account) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
+    const filter = gmailFilterService.getAccountFilter(account);
+    const [defaults, effective] = await Promise.all([
+      gmailFilterService.getDefaults(),
+      gmailFilterService.resolve(filter)
+    ]);
+
+    return res.json({ success: true, filter, defaults, effective: effective.filter, query: effective.query });
+    
+  } catch (error) {
+    logger.error('Error fetching search filter:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to fetch search filter' 
+    });
+  }
+});
+
+// Replace the Gmail search filter of an account; a null filter goes back to the defaults
+router.put('/filters/:accountId', async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    let filter = null;
+    if (req.body.filter !== null) {
+      const parsed = await parseSearchFilter(req.body.filter);
+      if (!parsed.filter) {
+        return res.status(400).json({ 
+          success: false, 
+          message: parsed.error 
+        });
+      }
+      filter = parsed.filter;
+    }
+
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
+    await gmailFilterService.setAccountFilter(accountId, filter);
+    const effective = await gmailFilterService.resolve(filter);
+    logger.info(`Updated search filter of account ${accountId}`);
+
+    return res.json({ success: true, filter, effective: effective.filter, query: effective.query });
+    
+  } catch (error) {
+    logger.error('Error updating search filter:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to update search filter' 
+    });
+  }
+});
+
+// Show the newest messages a search filter would match, without storing anything.
+// Without a filter in the body the account's current filter is previewed.
+router.post('/filters/:accountId/preview', async (req, res) => {
+  try {
+    let filter;
+    if (req.body.filter !== undefined && req.body.filter !== null) {
+      const parsed = await parseSearchFilter(req.body.filter);
+      if (!parsed.filter) {
+        return res.status(400).json({ 
+          success: false, 
+          message: parsed.error 
+        });
+      }
+      filter = parsed.filter;
+    } else if (req.body.filter === null) {
+      filter = null;
+    }
+
+    const account = await authService.getAccount(currentUser(req).id, req.params.accountId);
+    if (!account) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
+
+    const limit = Math.min(parseInt(req.body.limit) || 20, 50);
+    const preview = await gmailFilterService.preview(account, filter, limit);
+
+    return res.json({ success: true, ...preview });
+    
+  } catch (error) {
+    logger.error('Error previewing search filter:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to preview search filter' 
+    });
+  }
+});
+
 // Get emails for a specific account
 router.get('/emails/:accountId', async (req, res) => {
   try {
     const { accountId } = req.params;
     const limit = parseInt(req.query.limit as string) || 20;
+
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Account not found' 
+      });
+    }
     
     // Get emails for this account
     const emails = await prisma.processedEmail.findMany({
@@ -208,7 +422,7 @@ router.get('/emails/:accountId', async (req, res) => {
       }
     });
     
-    res.json({
+    return res.json({
       success: true,
       emails: emails.map(email => ({
         id: email.id,
@@ -248,7 +462,7 @@ router.get('/emails/:accountId', async (req, res) => {
     
   } catch (error) {
     logger.error('Error fetching emails for account:', error);
-    res.status(500).json({ 
+    return res.status(500).json({ 
       success: false, 
       message: 'Failed to fetch emails' 
     });
@@ -285,9 +499,9 @@ router.post('/process-email/:emailId', async (req, res) => {
     const { emailId } = req.params;
     
     // Get the email from database
-    const email = await prisma.processedEmail.findUnique({
-      where: { id: emailId },
-      include: { account: true }
+    const email = await prisma.processedEmail.findFirst({
+      where: { id: emailId, account: { userId: currentUser(req).id } },
+      select: { id: true }
     });
 
     if (!email) {
@@ -297,171 +511,25 @@ router.post('/process-email/:emailId', async (req, res) => {
       });
     }
 
-    // Import services dynamically to avoid circular dependencies
-    const { openaiService } = await import('../services/openaiService');
-    
-    // Update status to processing
-    await prisma.processedEmail.update({
-      where: { id: emailId },
-      data: { processingStatus: 'PROCESSING' }
-    });
-
-    try {
-      // Get full email content if not available
-      let emailBody = email.bodyText;
-      if (!emailBody) {
-        logger.info(`Email ${emailId} missing bodyText, fetching from Gmail...`);
-        // Import Gmail service and fetch full content
-        const { GmailService } = await import('../services/gmailService');
-        const gmailService = GmailService.withCredentials({
-          accessToken: email.account.accessToken,
-          refreshToken: email.account.refreshToken,
-          expiryDate: email.account.tokenExpiresAt?.getTime(),
-        });
-        
-        try {
-          const fullEmailDetails = await gmailService.getEmailMessage(email.gmailId);
-          emailBody = fullEmailDetails.body || email.bodyPreview || '';
-          
-          // Update database with full email content
-          await prisma.processedEmail.update({
-            where: { id: emailId },
-            data: { 
-              bodyText: emailBody,
-              bodyPreview: emailBody.substring(0, 500)
-            }
-          });
-          
-          logger.info(`Updated email ${emailId} with full bodyText (${emailBody.length} chars)`);
-        } catch (gmailError) {
-          logger.error(`Failed to fetch email content from Gmail for ${emailId}:`, gmailError);
-          emailBody = email.bodyPreview || '';
-        }
-      }
+    // Failures are recorded on the email by the pipeline
+    const outcome = await emailPipelineService.process(emailId);
+    const classification = outcome.classification.classificationEnum;
 
-      // Perform AI classification using full email content
-      const classification = await openaiService.classifyEmail(
-        email.subject,
-        emailBody,
-        email.fromAddress
-      );
-
-      let extractedData = null;
-      let classificationEnum = 'UNCLASSIFIED';
-
-      // Map classification to enum
-      if (classification.isFinancial) {
-        switch (classification.category.toLowerCase()) {
-          case 'banking':
-            classificationEnum = 'BANKING';
-            break;
-          case 'credit_card':
-          case 'credit card':
-            classificationEnum = 'CREDIT_CARD';
-            break;
-          case 'investment':
-            classificationEnum = 'INVESTMENT';
-            break;
-          case 'payment':
-            classificationEnum = 'PAYMENT';
-            break;
-          case 'bill':
-            classificationEnum = 'BILL';
-            break;
-          case 'insurance':
-            classificationEnum = 'INSURANCE';
-            break;
-          case 'tax':
-            classificationEnum = 'TAX';
-            break;
-          case 'loan':
-            classificationEnum = 'LOAN';
-            break;
-          default:
-            classificationEnum = 'OTHER';
-        }
-
-        // Extract financial data using full email content
-        extractedData = await openaiService.extractFinancialData(
-          email.subject,
-          emailBody,
-          classification.category
-        );
-      }
+    logger.info(`Successfully processed email ${emailId} - Classification: ${classification}`);
 
-      // Update email with classification results
-      await prisma.processedEmail.update({
-        where: { id: emailId },
-        data: {
-          classification: classificationEnum,
-          confidenceScore: classification.confidence,
-          processingStatus: 'COMPLETED',
-          language: classification.language || 'en'
-        }
-      });
-
-      // Create or update extracted data record if we have financial data
-      // CRITICAL: CREDIT_CARD emails MUST ALWAYS have extracted data record
-      if (extractedData || classificationEnum === 'CREDIT_CARD') {
-        await prisma.extractedData.upsert({
-          where: {
-            emailId: emailId
-          },
-          create: {
-            emailId: emailId,
-            transactionAmount: extractedData?.amount || null,
-            currency: extractedData?.currency || null,
-            transactionDate: extractedData?.date ? new Date(extractedData.date) : null,
-            merchantName: extractedData?.merchantName || null,
-            merchantCategory: extractedData?.category || null,
-            accountNumber: extractedData?.accountNumber || null,
-            referenceNumber: extractedData?.transactionId || null,
-            transactionType: extractedData?.transactionType === 'credit' ? 'CREDIT' : extractedData?.transactionType === 'debit' ? 'DEBIT' : 'UNKNOWN',
-            description: extractedData?.description || (extractedData?.merchantName ? `Transaction at ${extractedData.merchantName}` : null),
-            extractionScore: extractedData?.confidence || 0.0
-          },
-          update: {
-            transactionAmount: extractedData?.amount || null,
-            currency: extractedData?.currency || null,
-            transactionDate: extractedData?.date ? new Date(extractedData.date) : null,
-            merchantName: extractedData?.merchantName || null,
-            merchantCategory: extractedData?.category || null,
-            accountNumber: extractedData?.accountNumber || null,
-            referenceNumber: extractedData?.transactionId || null,
-            transactionType: extractedData?.transactionType === 'credit' ? 'CREDIT' : extractedData?.transactionType === 'debit' ? 'DEBIT' : 'UNKNOWN',
-            description: extractedData?.description || (extractedData?.merchantName ? `Transaction at ${extractedData.merchantName}` : null),
-            extractionScore: extractedData?.confidence || 0.0,
-            updatedAt: new Date()
-          }
-        });
-      }
-
-      logger.info(`Successfully processed email ${emailId} - Classification: ${classificationEnum}`);
-
-      res.json({
-        success: true,
-        message: 'Email processed successfully',
-        classification: classificationEnum,
-        confidence: classification.confidence,
-        extractedData: extractedData
-      });
-
-    } catch (processingError) {
-      // Update status to failed
-      await prisma.processedEmail.update({
-        where: { id: emailId },
-        data: {
-          processingStatus: 'FAILED',
-          errorMessage: processingError instanceof Error ? processingError.message : 'Processing failed'
-        }
-      });
-
-      throw processingError;
-    }
+    return res.json({
+      success: true,
+      message: 'Email processed successfully',
+      classification,
+      confidence: outcome.classification.classification.confidence,
+      extractedData: outcome.extraction && !outcome.extraction.statement ? outcome.extraction.extraction : null,
+      statement: outcome.extraction?.statement ?? null,
+      reviewReasons: outcome.reviewReasons
+    });
     
   } catch (error) {
     logger.error('Error processing email manually:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       message: 'Failed to process email',
       error: error instanceof Error ? error.message : 'Unknown error'
@@ -473,6 +541,13 @@ router.post('/process-email/:emailId', async (req, res) => {
 router.post('/process-pending/:accountId', async (req, res) => {
   try {
     const { accountId } = req.params;
+
+    if (!await authService.getAccount(currentUser(req).id, accountId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+    }
     
     // Get all pending emails for this account
     const pendingEmails = await prisma.processedEmail.findMany({
@@ -497,18 +572,8 @@ router.post('/process-pending/:accountId', async (req, res) => {
     // Process each email
     for (const email of pendingEmails) {
       try {
-        // Make internal API call to process individual email
-        const response = await fetch(`http://localhost:3000/api/monitoring/process-email/${email.id}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' }
-        });
-
-        if (response.ok) {
-          processedCount++;
-        } else {
-          const errorResult = await response.json();
-          errors.push(`${email.id}: ${errorResult.message}`);
-        }
+        await emailPipelineService.process(email.id);
+        processedCount++;
       } catch (error) {
         errors.push(`${email.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -539,22 +604,29 @@ router.post('/clear-error/:emailId', async (req, res) => {
   try {
     const { emailId } = req.params;
     
-    await prisma.processedEmail.update({
-      where: { id: emailId },
+    const { count } = await prisma.processedEmail.updateMany({
+      where: { id: emailId, account: { userId: currentUser(req).id } },
       data: { 
         errorMessage: null,
         processingStatus: 'COMPLETED' // Also fix the status
       }
     });
 
-    res.json({
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email not found'
+      });
+    }
+
+    return res.json({
       success: true,
       message: 'Error message cleared and status updated'
     });
 
   } catch (error) {
     logger.error('Error clearing error message:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       message: 'Failed to clear error message'
     });
@@ -566,8 +638,8 @@ router.get('/email/:emailId', async (req, res) => {
   try {
     const { emailId } = req.params;
     
-    const email = await prisma.processedEmail.findUnique({
-      where: { id: emailId },
+    const email = await prisma.processedEmail.findFirst({
+      where: { id: emailId, account: { userId: currentUser(req).id } },
       include: { extractedData: true }
     });
 
@@ -624,11 +696,11 @@ router.get('/email/:emailId', async (req, res) => {
   }
 });
 
-// Process stuck emails (emails that got stuck at CLASSIFIED status)
+// Process the session user's stuck emails (emails that got stuck at CLASSIFIED status)
 router.post('/process-stuck-emails', async (req, res) => {
   try {
     const { emailProcessor } = await import('../workers/emailProcessor');
-    const result = await emailProcessor.processStuckEmails();
+    const result = await emailProcessor.processStuckEmails(currentUser(req).id);
     
     res.json({
       success: true,
@@ -0,0 +1,341 @@
+import express from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma, OpenAIMetrics } from '../utils/database';
+import { promptService, PromptType, PromptVariant } from '../services/promptService';
+import { logger } from '../utils/logger';
+import { currentUser, requireAdmin } from '../services/authService';
+
+const router = express.Router();
+
+const PROMPT_TYPES: PromptType[] = ['classification', 'extraction'];
+
+// Longest window the experiment report covers
+const REPORT_MAX_DAYS = 90;
+
+// Prompt files that must exist for a version to be usable for each prompt type
+const REQUIRED_PROMPT_FILES: Record<PromptType, string[]> = {
+  classification: ['classification-system', 'classification-user'],
+  extraction: ['extraction-system', 'extraction-user'],
+};
+
+/**
+ * Validate a variants payload and make sure every referenced prompt version
+ * exists on disk. Returns an error message, or null when the variants are usable.
+ */
+async function validateVariants(
+  promptType: PromptType,
+  model: string,
+  variants: unknown
+): Promise<string | null> {
+  if (!Array.isArray(variants) || variants.length === 0) {
+    return 'At least one variant is required';
+  }
+
+  const seen = new Set<string>();
+  for (const variant of variants as PromptVariant[]) {
+    if (!variant || typeof variant.version !== 'string' || variant.version.length === 0) {
+      return 'Each variant needs a version';
+    }
+    if (typeof variant.weight !== 'number' || !(variant.weight > 0)) {
+      return `Variant ${variant.version} needs a positive weight`;
+    }
+    if (seen.has(variant.version)) {
+      return `Variant ${variant.version} is listed more than once`;
+    }
+    seen.add(variant.version);
+
+    const missing = await findMissingPromptFile(promptType, model, variant.version);
+    if (missing) {
+      return `Prompt ${model}/${variant.version}/${missing} does not exist`;
+    }
+  }
+
+  return null;
+}
+
+async function validatePins(
+  promptType: PromptType,
+  model: string,
+  accountPins: unknown
+): Promise<string | null> {
+  if (!accountPins || typeof accountPins !== 'object' || Array.isArray(accountPins)) {
+    return 'accountPins must be an object of accountId -> version';
+  }
+
+  for (const [accountId, version] of Object.entries(accountPins as Record<string, unknown>)) {
+    if (typeof version !== 'string' || version.length === 0) {
+      return `Pinned version for account ${accountId} must be a string`;
+    }
+    const missing = await findMissingPromptFile(promptType, model, version);
+    if (missing) {
+      return `Prompt ${model}/${version}/${missing} does not exist`;
+    }
+  }
+
+  return null;
+}
+
+async function findMissingPromptFile(promptType: PromptType, model: string, version: string): Promise<string | null> {
+  for (const file of REQUIRED_PROMPT_FILES[promptType]) {
+    try {
+      await promptService.loadPrompt(model, version, file);
+    } catch (error) {
+      return file;
+    }
+  }
+  return null;
+}
+
+// List prompt versions from the file system and the database
+router.get('/versions', async (_req, res) => {
+  try {
+    const versions = await promptService.listPromptVersions();
+    return res.json({ success: true, versions });
+  } catch (error) {
+    logger.error('Error listing prompt versions:', error);
+    return res.status(500).json({ error: 'Failed to list prompt versions' });
+  }
+});
+
+// View every prompt template of a version
+router.get('/versions/:model/:version', async (req, res) => {
+  try {
+    const { model, version } = req.params;
+    const detail = await promptService.getPromptVersion(model, version);
+
+    if (!detail) {
+      return res.status(404).json({ error: `Prompt version ${model}/${version} not found` });
+    }
+
+    return res.json({ success: true, ...detail });
+  } catch (error) {
+    logger.error('Error fetching prompt version:', error);
+    return res.status(500).json({ error: 'Failed to fetch prompt version' });
+  }
+});
+
+// Create a prompt version stored in the database; prompts are shared, so admins only
+router.post('/versions', requireAdmin, async (req, res) => {
+  try {
+    const { model, version, prompts, description } = req.body;
+
+    if (!model || !version || !prompts || typeof prompts !== 'object' || Array.isArray(prompts)) {
+      return res.status(400).json({ error: 'model, version and prompts (promptType -> content) are required' });
+    }
+
+    const entries = Object.entries(prompts as Record<string, unknown>);
+    if (entries.length === 0 || entries.some(([, content]) => typeof content !== 'string' || content.length === 0)) {
+      return res.status(400).json({ error: 'Each prompt must be a non-empty string' });
+    }
+
+    if (await promptService.getPromptVersion(model, version)) {
+      return res.status(409).json({ error: `Prompt version ${model}/${version} already exists` });
+    }
+
+    const created = await promptService.createPromptVersion({
+      model,
+      version,
+      prompts: prompts as Record<string, string>,
+      description,
+      createdBy: currentUser(req).email
+    });
+
+    return res.status(201).json({ success: true, ...created });
+  } catch (error) {
+    logger.error('Error creating prompt version:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create prompt version' });
+  }
+});
+
+// Line diff between two versions of a model
+router.get('/diff', async (req, res) => {
+  try {
+    const { model, from, to } = req.query as Record<string, string | undefined>;
+
+    if (!model || !from || !to) {
+      return res.status(400).json({ error: 'model, from and to query parameters are required' });
+    }
+
+    const diff = await promptService.diffPromptVersions(model, from, to);
+    if (!diff) {
+      return res.status(404).json({ error: 'One or both prompt versions not found' });
+    }
+
+    return res.json({ success: true, model, from, to, diff });
+  } catch (error) {
+    logger.error('Error diffing prompt versions:', error);
+    return res.status(500).json({ error: 'Failed to diff prompt versions' });
+  }
+});
+
+// List prompt experiments
+router.get('/experiments', async (_req, res) => {
+  try {
+    const experiments = await prisma.promptExperiment.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({ success: true, experiments });
+  } catch (error) {
+    logger.error('Error listing prompt experiments:', error);
+    return res.status(500).json({ error: 'Failed to list prompt experiments' });
+  }
+});
+
+// Create a prompt experiment (admins only)
+router.post('/experiments', requireAdmin, async (req, res) => {
+  try {
+    const { name, promptType, model, variants, accountPins = {} } = req.body;
+
+    if (!name || !PROMPT_TYPES.includes(promptType) || !model) {
+      return res.status(400).json({
+        error: 'name, model and promptType (classification | extraction) are required'
+      });
+    }
+
+    const validationError = await validateVariants(promptType, model, variants)
+      || await validatePins(promptType, model, accountPins);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Only one experiment may drive a given prompt type and model at a time
+    const conflicting = await prisma.promptExperiment.findFirst({
+      where: { promptType, model, isActive: true }
+    });
+    if (conflicting) {
+      return res.status(409).json({
+        error: `Experiment "${conflicting.name}" is already active for ${model} ${promptType}`
+      });
+    }
+
+    const experiment = await prisma.promptExperiment.create({
+      data: {
+        name,
+        promptType,
+        model,
+        variants: variants as Prisma.InputJsonValue,
+        accountPins: accountPins as Prisma.InputJsonValue,
+      }
+    });
+
+    promptService.invalidateExperimentCache();
+    logger.info(`Started prompt experiment ${experiment.name} for ${model} ${promptType}`);
+
+    return res.status(201).json({ success: true, experiment });
+  } catch (error) {
+    logger.error('Error creating prompt experiment:', error);
+    return res.status(500).json({ error: 'Failed to create prompt experiment' });
+  }
+});
+
+// Update variants, account pins or stop an experiment (admins only)
+router.put('/experiments/:id', requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { variants, accountPins, isActive } = req.body;
+
+    const existing = await prisma.promptExperiment.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Experiment not found' });
+    }
+
+    const promptType = existing.promptType as PromptType;
+    const data: Prisma.PromptExperimentUpdateInput = {};
+
+    if (variants !== undefined) {
+      const validationError = await validateVariants(promptType, existing.model, variants);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      data.variants = variants as Prisma.InputJsonValue;
+    }
+
+    if (accountPins !== undefined) {
+      const validationError = await validatePins(promptType, existing.model, accountPins);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      data.accountPins = accountPins as Prisma.InputJsonValue;
+    }
+
+    if (typeof isActive === 'boolean' && isActive !== existing.isActive) {
+      data.isActive = isActive;
+      data.endedAt = isActive ? null : new Date();
+    }
+
+    const experiment = await prisma.promptExperiment.update({ where: { id }, data });
+
+    promptService.invalidateExperimentCache();
+    logger.info(`Updated prompt experiment ${experiment.name}`);
+
+    return res.json({ success: true, experiment });
+  } catch (error) {
+    logger.error('Error updating prompt experiment:', error);
+    return res.status(500).json({ error: 'Failed to update prompt experiment' });
+  }
+});
+
+// Compare prompt versions on confidence and validation metrics; covers every
+// user's emails, so admins only
+router.get('/experiments/report', requireAdmin, async (req, res) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 7, REPORT_MAX_DAYS);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [classificationStats, extractionStats, validationStats] = await Promise.all([
+      prisma.processedEmail.groupBy({
+        by: ['classificationPromptVersion'],
+        where: { createdAt: { gte: since }, classificationPromptVersion: { not: null } },
+        _count: { _all: true },
+        _avg: { confidenceScore: true }
+      }),
+      // Extraction scores live on ExtractedData while the version lives on the email
+      prisma.$queryRaw<Array<{ version: string; extractions: bigint; avgConfidence: Prisma.Decimal | null }>>`
+        SELECT e."extractionPromptVersion" AS version,
+               COUNT(*) AS extractions,
+               AVG(d."extractionScore") AS "avgConfidence"
+        FROM "extracted_data" d
+        JOIN "processed_emails" e ON e."id" = d."emailId"
+        WHERE d."createdAt" >= ${since} AND e."extractionPromptVersion" IS NOT NULL
+        GROUP BY e."extractionPromptVersion"
+      `,
+      OpenAIMetrics.getValidationStats(since)
+    ]);
+
+    const validationFor = (operation: PromptType, version: string) => {
+      const entries = validationStats.filter(s => s.operation === operation && s.promptVersion === version);
+      const responses = entries.reduce((sum, s) => sum + s.responses, 0);
+      const valid = entries.reduce((sum, s) => sum + s.valid, 0);
+      const parseFailures = entries.reduce((sum, s) => sum + s.parseFailures, 0);
+      return {
+        responses,
+        validationRate: responses > 0 ? valid / responses : null,
+        parseFailureRate: responses > 0 ? parseFailures / responses : null,
+      };
+    };
+
+    return res.json({
+      success: true,
+      period: { days, since: since.toISOString() },
+      classification: classificationStats.map(stat => ({
+        version: stat.classificationPromptVersion,
+        emails: stat._count._all,
+        avgConfidence: stat._avg.confidenceScore !== null ? Number(stat._avg.confidenceScore) : null,
+        ...validationFor('classification', stat.classificationPromptVersion!)
+      })),
+      extraction: extractionStats.map(stat => ({
+        version: stat.version,
+        extractions: Number(stat.extractions),
+        avgConfidence: stat.avgConfidence !== null ? Number(stat.avgConfidence) : null,
+        ...validationFor('extraction', stat.version)
+      })),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Error building prompt experiment report:', error);
+    return res.status(500).json({ error: 'Failed to build prompt experiment report' });
+  }
+});
+
+export default router;
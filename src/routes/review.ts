@@ -0,0 +1,159 @@
+import express from 'express';
+import { EmailClassification, TransactionType } from '@prisma/client';
+import { reviewService, ReviewCorrection } from '../services/reviewService';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+const CLASSIFICATIONS = Object.values(EmailClassification) as string[];
+const TRANSACTION_TYPES = Object.values(TransactionType) as string[];
+
+/**
+ * Pick the correctable fields out of a request body. Returns an error message
+ * when a value has the wrong type.
+ */
+function parseCorrection(body: any): { correction: ReviewCorrection; error?: string } {
+  const correction: ReviewCorrection = {};
+
+  if (body.classification !== undefined) {
+    if (!CLASSIFICATIONS.includes(body.classification)) {
+      return { correction, error: `classification must be one of ${CLASSIFICATIONS.join(', ')}` };
+    }
+    correction.classification = body.classification;
+  }
+
+  if (body.transactionType !== undefined) {
+    if (!TRANSACTION_TYPES.includes(body.transactionType)) {
+      return { correction, error: `transactionType must be one of ${TRANSACTION_TYPES.join(', ')}` };
+    }
+    correction.transactionType = body.transactionType;
+  }
+
+  if (body.amount !== undefined) {
+    if (body.amount !== null && (typeof body.amount !== 'number' || !isFinite(body.amount))) {
+      return { correction, error: 'amount must be a number or null' };
+    }
+    correction.amount = body.amount;
+  }
+
+  if (body.date !== undefined) {
+    if (body.date !== null && isNaN(new Date(body.date).getTime())) {
+      return { correction, error: 'date must be a valid date or null' };
+    }
+    correction.date = body.date;
+  }
+
+  for (const field of ['currency', 'merchantName', 'merchantCategory', 'accountNumber', 'description'] as const) {
+    if (body[field] !== undefined) {
+      if (body[field] !== null && typeof body[field] !== 'string') {
+        return { correction, error: `${field} must be a string or null` };
+      }
+      correction[field] = body[field];
+    }
+  }
+
+  return { correction };
+}
+
+// List emails waiting for review
+router.get('/queue', async (req, res) => {
+  try {
+    const accountId = req.query.accountId as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { items, total } = await reviewService.getQueue({ userId: currentUser(req).id, accountId, limit, offset });
+
+    return res.json({
+      success: true,
+      items: items.map(email => ({
+        id: email.id,
+        accountId: email.accountId,
+        subject: email.subject,
+        sender: email.fromAddress,
+        receivedAt: email.receivedAt,
+        classification: email.classification,
+        confidenceScore: email.confidenceScore,
+        reviewReasons: email.reviewReasons,
+        extractedData: email.extractedData
+      })),
+      total,
+      limit,
+      offset
+    });
+  } catch (error) {
+    logger.error('Error fetching review queue:', error);
+    return res.status(500).json({ error: 'Failed to fetch review queue' });
+  }
+});
+
+// Get a single review item with the full email body
+router.get('/:emailId', async (req, res) => {
+  try {
+    const item = await reviewService.getItem(req.params.emailId, currentUser(req).id);
+    if (!item) {
+      return res.status(404).json({ error: 'Email is not in the review queue' });
+    }
+
+    return res.json({ success: true, item });
+  } catch (error) {
+    logger.error('Error fetching review item:', error);
+    return res.status(500).json({ error: 'Failed to fetch review item' });
+  }
+});
+
+// Accept the AI output
+router.post('/:emailId/approve', async (req, res) => {
+  try {
+    const approved = await reviewService.approve(req.params.emailId, currentUser(req).id);
+    if (!approved) {
+      return res.status(404).json({ error: 'Email is not in the review queue' });
+    }
+
+    return res.json({ success: true, decision: 'approved' });
+  } catch (error) {
+    logger.error('Error approving review item:', error);
+    return res.status(500).json({ error: 'Failed to approve review item' });
+  }
+});
+
+// Correct fields of the AI output
+router.post('/:emailId/correct', async (req, res) => {
+  try {
+    const { correction, error } = parseCorrection(req.body.corrections || {});
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    if (Object.keys(correction).length === 0) {
+      return res.status(400).json({ error: 'At least one correction is required' });
+    }
+
+    const diff = await reviewService.correct(req.params.emailId, currentUser(req).id, correction);
+    if (!diff) {
+      return res.status(404).json({ error: 'Email is not in the review queue' });
+    }
+
+    return res.json({ success: true, decision: 'corrected', diff });
+  } catch (error) {
+    logger.error('Error correcting review item:', error);
+    return res.status(500).json({ error: 'Failed to correct review item' });
+  }
+});
+
+// Mark the email as not a usable financial record
+router.post('/:emailId/reject', async (req, res) => {
+  try {
+    const rejected = await reviewService.reject(req.params.emailId, currentUser(req).id, req.body.reason);
+    if (!rejected) {
+      return res.status(404).json({ error: 'Email is not in the review queue' });
+    }
+
+    return res.json({ success: true, decision: 'rejected' });
+  } catch (error) {
+    logger.error('Error rejecting review item:', error);
+    return res.status(500).json({ error: 'Failed to reject review item' });
+  }
+});
+
+export default router;
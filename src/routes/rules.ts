@@ -0,0 +1,158 @@
+import express from 'express';
+import { categorizationRuleService, ruleInputSchema } from '../services/categorizationRuleService';
+import { QueueService } from '../services/queueService';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+/**
+ * Validate a rule payload for the session user, who always owns it.
+ * Returns the first validation message on failure.
+ */
+function parseRule(req: express.Request, body: unknown) {
+  const parsed = ruleInputSchema.safeParse({ ...(body as object), userId: currentUser(req).id });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: issue ? `${issue.path.join('.') || 'rule'}: ${issue.message}` : 'Invalid rule' };
+  }
+  return { rule: parsed.data };
+}
+
+/**
+ * Whether the rule in the route exists and belongs to the session user.
+ * Global rules can only be changed outside the API.
+ */
+async function isOwnRule(req: express.Request): Promise<boolean> {
+  const rule = await prisma.categorizationRule.findUnique({ where: { id: req.params.id! }, select: { userId: true } });
+  return rule !== null && rule.userId === currentUser(req).id;
+}
+
+// List rules in evaluation order
+router.get('/', async (req, res) => {
+  try {
+    const rules = await categorizationRuleService.list(currentUser(req).id);
+    return res.json({ success: true, rules });
+  } catch (error) {
+    logger.error('Error fetching categorization rules:', error);
+    return res.status(500).json({ error: 'Failed to fetch categorization rules' });
+  }
+});
+
+// Create a rule; existing transactions change on the next re-apply
+router.post('/', async (req, res) => {
+  try {
+    const { rule, error } = parseRule(req, req.body);
+    if (!rule) {
+      return res.status(400).json({ error });
+    }
+
+    const created = await categorizationRuleService.create(rule);
+    return res.status(201).json({ success: true, rule: created });
+  } catch (error) {
+    logger.error('Error creating categorization rule:', error);
+    return res.status(500).json({ error: 'Failed to create categorization rule' });
+  }
+});
+
+// Preview which stored transactions a rule would recategorize
+router.post('/dry-run', async (req, res) => {
+  try {
+    const { rule, error } = parseRule(req, req.body.rule);
+    if (!rule) {
+      return res.status(400).json({ error });
+    }
+
+    const limit = Math.min(parseInt(req.body.limit) || 100, 500);
+    const result = await categorizationRuleService.dryRun(rule, currentUser(req).id, req.body.ruleId, limit);
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error running categorization rule dry run:', error);
+    return res.status(500).json({ error: 'Failed to run dry run' });
+  }
+});
+
+// Queue a job per email account that re-applies all rules to stored transactions
+router.post('/reapply', async (req, res) => {
+  try {
+    const { accountId } = req.body;
+
+    const accounts = await prisma.emailAccount.findMany({
+      where: {
+        isActive: true,
+        userId: currentUser(req).id,
+        ...(accountId && { id: accountId })
+      },
+      select: { id: true }
+    });
+
+    if (accounts.length === 0) {
+      return res.status(404).json({ error: 'No matching email accounts' });
+    }
+
+    const queueService = QueueService.getInstance();
+    const jobs = [];
+    for (const account of accounts) {
+      const job = await queueService.addEmailProcessingJob({
+        emailAccountId: account.id,
+        processType: 'recategorize',
+        priority: 10
+      });
+      if (job) {
+        jobs.push({ id: job.id, accountId: account.id });
+      }
+    }
+
+    return res.status(202).json({ success: true, jobs });
+  } catch (error) {
+    logger.error('Error queueing categorization re-apply:', error);
+    return res.status(500).json({ error: 'Failed to queue re-apply' });
+  }
+});
+
+// Replace a rule
+router.put('/:id', async (req, res) => {
+  try {
+    const { rule, error } = parseRule(req, req.body);
+    if (!rule) {
+      return res.status(400).json({ error });
+    }
+
+    if (!await isOwnRule(req)) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    const updated = await categorizationRuleService.update(req.params.id, rule);
+    if (!updated) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    return res.json({ success: true, rule: updated });
+  } catch (error) {
+    logger.error('Error updating categorization rule:', error);
+    return res.status(500).json({ error: 'Failed to update categorization rule' });
+  }
+});
+
+// Delete a rule; transactions it categorized fall back to other rules or the AI category
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!await isOwnRule(req)) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    const result = await categorizationRuleService.delete(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error deleting categorization rule:', error);
+    return res.status(500).json({ error: 'Failed to delete categorization rule' });
+  }
+});
+
+export default router;
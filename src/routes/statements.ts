@@ -0,0 +1,81 @@
+import express from 'express';
+import { ReconciliationStatus } from '@prisma/client';
+import { statementService } from '../services/statementService';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+const RECONCILIATION_STATUSES = Object.values(ReconciliationStatus) as string[];
+
+// List card statements; dueWithinDays lists upcoming payments soonest first
+router.get('/', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const status = req.query.status as string | undefined;
+    if (status && !RECONCILIATION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${RECONCILIATION_STATUSES.join(', ')}` });
+    }
+
+    let dueWithinDays: number | undefined;
+    if (req.query.dueWithinDays !== undefined) {
+      dueWithinDays = parseInt(req.query.dueWithinDays as string);
+      if (isNaN(dueWithinDays) || dueWithinDays < 0) {
+        return res.status(400).json({ error: 'dueWithinDays must be a non-negative number' });
+      }
+    }
+
+    const { statements, total } = await statementService.list({
+      userId: currentUser(req).id,
+      financialAccountId: req.query.financialAccountId as string | undefined,
+      status: status as ReconciliationStatus | undefined,
+      dueWithinDays,
+      limit,
+      offset
+    });
+
+    return res.json({ success: true, statements, total, limit, offset });
+  } catch (error) {
+    logger.error('Error fetching card statements:', error);
+    return res.status(500).json({ error: 'Failed to fetch card statements' });
+  }
+});
+
+// Get a statement with the transactions captured for its cycle
+router.get('/:id', async (req, res) => {
+  try {
+    const statement = await statementService.get(req.params.id);
+    if (!statement || statement.email.account.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Statement not found' });
+    }
+
+    return res.json({ success: true, statement });
+  } catch (error) {
+    logger.error('Error fetching card statement:', error);
+    return res.status(500).json({ error: 'Failed to fetch card statement' });
+  }
+});
+
+// Reconcile again, e.g. after late alerts or review corrections
+router.post('/:id/reconcile', async (req, res) => {
+  try {
+    const statement = await statementService.get(req.params.id);
+    if (!statement || statement.email.account.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Statement not found' });
+    }
+
+    const reconciliation = await statementService.reconcile(req.params.id);
+    if (!reconciliation) {
+      return res.status(404).json({ error: 'Statement not found' });
+    }
+
+    return res.json({ success: true, reconciliation });
+  } catch (error) {
+    logger.error('Error reconciling card statement:', error);
+    return res.status(500).json({ error: 'Failed to reconcile card statement' });
+  }
+});
+
+export default router;
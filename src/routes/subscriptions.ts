@@ -0,0 +1,68 @@
+import express from 'express';
+import { SubscriptionInterval, SubscriptionStatus } from '@prisma/client';
+import { subscriptionService } from '../services/subscriptionService';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+const STATUSES = Object.values(SubscriptionStatus) as string[];
+const INTERVALS = Object.values(SubscriptionInterval) as string[];
+
+// List detected subscriptions with their next expected charge
+router.get('/', async (req, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+
+    const interval = req.query.interval as string | undefined;
+    if (interval && !INTERVALS.includes(interval)) {
+      return res.status(400).json({ error: `interval must be one of ${INTERVALS.join(', ')}` });
+    }
+
+    const subscriptions = await subscriptionService.list({
+      userId: currentUser(req).id,
+      merchantId: req.query.merchantId as string | undefined,
+      status: status as SubscriptionStatus | undefined,
+      interval: interval as SubscriptionInterval | undefined
+    });
+
+    return res.json({ success: true, subscriptions });
+  } catch (error) {
+    logger.error('Error fetching subscriptions:', error);
+    return res.status(500).json({ error: 'Failed to fetch subscriptions' });
+  }
+});
+
+// Subscriptions whose price changed in the last `days` days (default 90)
+router.get('/price-changes', async (req, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 90;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const subscriptions = await subscriptionService.getPriceChanges(since, currentUser(req).id);
+    return res.json({ success: true, since, subscriptions });
+  } catch (error) {
+    logger.error('Error fetching subscription price changes:', error);
+    return res.status(500).json({ error: 'Failed to fetch subscription price changes' });
+  }
+});
+
+// Get a subscription with its charges
+router.get('/:id', async (req, res) => {
+  try {
+    const subscription = await subscriptionService.get(req.params.id);
+    if (!subscription || subscription.userId !== currentUser(req).id) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    return res.json({ success: true, subscription });
+  } catch (error) {
+    logger.error('Error fetching subscription:', error);
+    return res.status(500).json({ error: 'Failed to fetch subscription' });
+  }
+});
+
+export default router;
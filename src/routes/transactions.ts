@@ -0,0 +1,161 @@
+import express from 'express';
+import { TransactionType } from '@prisma/client';
+import {
+  transactionService,
+  TransactionFilters,
+  TransactionSortField,
+  AggregationGroup,
+  TRANSACTION_SORT_FIELDS,
+  AGGREGATION_GROUPS
+} from '../services/transactionService';
+import { logger } from '../utils/logger';
+import { currentUser } from '../services/authService';
+
+const router = express.Router();
+
+const TRANSACTION_TYPES = Object.values(TransactionType) as string[];
+
+/**
+ * Read ledger filters from the query string. Returns an error message when a
+ * value cannot be parsed.
+ */
+function parseFilters(req: express.Request): { filters: TransactionFilters; error?: string } {
+  const query = req.query;
+  const filters: TransactionFilters = { userId: currentUser(req).id };
+  const text = (name: string) => typeof query[name] === 'string' && query[name] !== '' ? query[name] as string : undefined;
+
+  filters.accountId = text('accountId');
+  filters.currency = text('currency');
+  filters.merchant = text('merchant');
+  filters.merchantId = text('merchantId');
+  filters.financialAccountId = text('financialAccountId');
+  filters.category = text('category');
+  filters.includeDuplicates = query.includeDuplicates === 'true';
+
+  const cardLast4 = text('cardLast4');
+  if (cardLast4 !== undefined) {
+    if (!/^\d{4}$/.test(cardLast4)) {
+      return { filters, error: 'cardLast4 must be 4 digits' };
+    }
+    filters.cardLast4 = cardLast4;
+  }
+
+  for (const name of ['from', 'to'] as const) {
+    const value = text(name);
+    if (value !== undefined) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return { filters, error: `${name} must be a valid date` };
+      }
+      // A bare date as upper bound includes the whole day
+      if (name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+      }
+      filters[name] = date;
+    }
+  }
+
+  for (const name of ['minAmount', 'maxAmount'] as const) {
+    const value = text(name);
+    if (value !== undefined) {
+      const amount = parseFloat(value);
+      if (!isFinite(amount)) {
+        return { filters, error: `${name} must be a number` };
+      }
+      filters[name] = amount;
+    }
+  }
+
+  const types = text('type');
+  if (types !== undefined) {
+    const list = types.split(',').map(type => type.trim().toUpperCase());
+    const invalid = list.find(type => !TRANSACTION_TYPES.includes(type));
+    if (invalid) {
+      return { filters, error: `type must be one of ${TRANSACTION_TYPES.join(', ')}` };
+    }
+    filters.transactionTypes = list as TransactionType[];
+  }
+
+  return { filters };
+}
+
+// List transactions with filters, sorting and cursor pagination
+router.get('/', async (req, res) => {
+  try {
+    const { filters, error } = parseFilters(req);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const sortBy = (req.query.sortBy as string | undefined) || 'date';
+    if (!TRANSACTION_SORT_FIELDS.includes(sortBy as TransactionSortField)) {
+      return res.status(400).json({ error: `sortBy must be one of ${TRANSACTION_SORT_FIELDS.join(', ')}` });
+    }
+
+    const order = (req.query.order as string | undefined) || 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'order must be asc or desc' });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const page = await transactionService.list({
+      filters,
+      sortBy: sortBy as TransactionSortField,
+      order,
+      limit,
+      cursor: req.query.cursor as string | undefined
+    });
+
+    return res.json({
+      success: true,
+      transactions: page.transactions,
+      pagination: {
+        limit,
+        nextCursor: page.nextCursor
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching transactions:', error);
+    return res.status(500).json({ error: 'Failed to fetch transactions' });
+  }
+});
+
+// Spend totals in the user's currency per day, week, month, merchant or category
+router.get('/aggregate', async (req, res) => {
+  try {
+    const groupBy = req.query.groupBy as string | undefined;
+    if (!AGGREGATION_GROUPS.includes(groupBy as AggregationGroup)) {
+      return res.status(400).json({ error: `groupBy must be one of ${AGGREGATION_GROUPS.join(', ')}` });
+    }
+
+    const { filters, error } = parseFilters(req);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const result = await transactionService.aggregate(groupBy as AggregationGroup, filters);
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error aggregating transactions:', error);
+    return res.status(500).json({ error: 'Failed to aggregate transactions' });
+  }
+});
+
+// Get a single transaction
+router.get('/:id', async (req, res) => {
+  try {
+    const transaction = await transactionService.get(req.params.id, currentUser(req).id);
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    return res.json({ success: true, transaction });
+  } catch (error) {
+    logger.error('Error fetching transaction:', error);
+    return res.status(500).json({ error: 'Failed to fetch transaction' });
+  }
+});
+
+export default router;
@@ -1,8 +1,8 @@
 import express from 'express';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
-import { GmailService } from '../services/gmailService';
-import { DatabaseOperations } from '../utils/database';
+import { gmailSyncService } from '../services/gmailSyncService';
+import { prisma } from '../utils/database';
 
 const router = express.Router();
 
@@ -42,10 +42,10 @@ router.post('/gmail', async (req, res) => {
     });
     
     // Find the email account
-    const account = await DatabaseOperations.prisma.emailAccount.findFirst({
+    const account = await prisma.emailAccount.findFirst({
       where: { 
         gmailAddress: notification.emailAddress,
-        isActive: true 
+        isConnected: true 
       }
     });
     
@@ -54,88 +54,17 @@ router.post('/gmail', async (req, res) => {
       return res.status(404).json({ error: 'Account not found' });
     }
     
-    // Create Gmail service with stored credentials
-    const gmailService = GmailService.withCredentials({
-      accessToken: account.accessToken,
-      refreshToken: account.refreshToken,
-      expiryDate: account.tokenExpiresAt?.getTime(),
-    });
-    
-    // Get history since last known historyId
-    if (account.lastHistoryId) {
-      try {
-        const history = await gmailService.getHistory(account.lastHistoryId);
-        
-        logger.info(`Processing ${history.messages.length} new messages`);
-        
-        // Process new messages
-        for (const message of history.messages) {
-          try {
-            // Check if this is a financial email by fetching details
-            const emailDetails = await gmailService.getEmailMessage(message.id);
-            
-            // Simple financial email detection (could be enhanced with AI)
-            const isFinancial = /payment|transaction|invoice|receipt|statement|bill|bank|paypal|stripe/i
-              .test(emailDetails.subject + ' ' + emailDetails.bodyPreview);
-            
-            if (isFinancial) {
-              // Check if already processed
-              const existing = await DatabaseOperations.prisma.processedEmail.findFirst({
-                where: { gmailId: emailDetails.id }
-              });
-              
-              if (!existing) {
-                await DatabaseOperations.createProcessedEmail({
-                  accountId: account.id,
-                  gmailId: emailDetails.id,
-                  messageId: emailDetails.messageId,
-                  threadId: emailDetails.threadId,
-                  subject: emailDetails.subject,
-                  fromAddress: emailDetails.from,
-                  toAddresses: emailDetails.to,
-                  receivedAt: emailDetails.date,
-                  contentHash: gmailService.generateContentHash(emailDetails),
-                  bodyPreview: emailDetails.bodyPreview,
-                  hasAttachments: emailDetails.hasAttachments,
-                  gmailLabels: emailDetails.labels,
-                });
-                
-                logger.info('Processed new financial email:', emailDetails.subject);
-              }
-            }
-          } catch (messageError) {
-            logger.error(`Error processing message ${message.id}:`, messageError);
-          }
-        }
-        
-        // Update last history ID
-        await DatabaseOperations.prisma.emailAccount.update({
-          where: { id: account.id },
-          data: { 
-            lastHistoryId: history.historyId,
-            lastSyncAt: new Date()
-          }
-        });
-        
-      } catch (historyError) {
-        logger.error('Error processing Gmail history:', historyError);
-      }
-    } else {
-      // First time - just update the history ID
-      await DatabaseOperations.prisma.emailAccount.update({
-        where: { id: account.id },
-        data: { 
-          lastHistoryId: notification.historyId,
-          lastSyncAt: new Date()
-        }
-      });
-    }
+    // Sync from the stored history position rather than the notified one, so
+    // notifications that were lost or arrive out of order miss nothing.
+    // Failing here makes Pub/Sub redeliver the notification.
+    const result = await gmailSyncService.syncAccount(account.id);
+    logger.info(`Stored ${result.stored} of ${result.found} new messages for ${account.gmailAddress} (${result.mode} sync)`);
     
-    res.status(200).json({ message: 'Webhook processed successfully' });
+    return res.status(200).json({ message: 'Webhook processed successfully' });
     
   } catch (error) {
     logger.error('Webhook processing error:', error);
-    res.status(500).json({ error: 'Failed to process webhook' });
+    return res.status(500).json({ error: 'Failed to process webhook' });
   }
 });
 
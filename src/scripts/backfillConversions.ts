@@ -0,0 +1,34 @@
+/**
+ * Fills the USD and user-currency amounts of existing extracted data.
+ *
+ * Usage:
+ *   pnpm rates:backfill [--all] [--batch-size=200]
+ *
+ * Without --all only rows that were never converted are processed.
+ */
+import dotenv from 'dotenv';
+import { exchangeRateService } from '../services/exchangeRateService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const batchArg = args.find(arg => arg.startsWith('--batch-size='));
+
+  const result = await exchangeRateService.backfill({
+    all: args.includes('--all'),
+    batchSize: batchArg ? parseInt(batchArg.split('=')[1]!) : 200
+  });
+
+  console.log(`Converted ${result.converted} transactions, ${result.missingRate} still missing a rate`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Exchange rate backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,34 @@
+/**
+ * Links stored transactions that describe the same real transaction.
+ *
+ * Usage:
+ *   pnpm dedupe:transactions [--reset] [--batch-size=200]
+ *
+ * With --reset existing duplicate links are cleared and detected again.
+ */
+import dotenv from 'dotenv';
+import { deduplicationService } from '../services/deduplicationService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const batchArg = args.find(arg => arg.startsWith('--batch-size='));
+
+  const result = await deduplicationService.detectAll({
+    reset: args.includes('--reset'),
+    batchSize: batchArg ? parseInt(batchArg.split('=')[1]!) : 200
+  });
+
+  console.log(`Checked ${result.checked} transactions, ${result.duplicates} linked as duplicates`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Duplicate detection failed:', error);
+    process.exit(1);
+  });
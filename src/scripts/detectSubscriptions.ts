@@ -0,0 +1,30 @@
+/**
+ * Rebuilds subscriptions from stored transactions, e.g. after a backfill.
+ *
+ * Usage:
+ *   pnpm subscriptions:detect [--batch-size=500]
+ */
+import dotenv from 'dotenv';
+import { subscriptionService } from '../services/subscriptionService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const batchArg = process.argv.slice(2).find(arg => arg.startsWith('--batch-size='));
+
+  const result = await subscriptionService.detectAll({
+    batchSize: batchArg ? parseInt(batchArg.split('=')[1]!) : 500
+  });
+
+  console.log(`Checked ${result.groups} merchant groups, found ${result.subscriptions} subscriptions`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Subscription detection failed:', error);
+    process.exit(1);
+  });
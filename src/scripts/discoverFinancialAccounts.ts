@@ -0,0 +1,34 @@
+/**
+ * Discovers cards and bank accounts from stored transactions and links them.
+ *
+ * Usage:
+ *   pnpm accounts:discover [--all] [--batch-size=200]
+ *
+ * Without --all only transactions without an account are processed.
+ */
+import dotenv from 'dotenv';
+import { financialAccountService } from '../services/financialAccountService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const batchArg = args.find(arg => arg.startsWith('--batch-size='));
+
+  const result = await financialAccountService.discoverAll({
+    all: args.includes('--all'),
+    batchSize: batchArg ? parseInt(batchArg.split('=')[1]!) : 200
+  });
+
+  console.log(`Linked ${result.linked} transactions to financial accounts`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Financial account discovery failed:', error);
+    process.exit(1);
+  });
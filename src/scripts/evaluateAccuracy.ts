@@ -0,0 +1,103 @@
+/**
+ * Classification and extraction accuracy report over a labeled corpus.
+ *
+ * Usage:
+ *   pnpm eval:accuracy [--source=samples|validated] [--count=26]
+ *                      [--prompt-version=v2] [--output=report.json]
+ *
+ * `samples` uses SampleEmailGenerator output with its known values,
+ * `validated` uses stored emails whose extracted data was validated.
+ */
+import fs from 'fs';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([\w-]+)(?:=(.*))?$/);
+    if (match) {
+      args[match[1]!] = match[2] ?? 'true';
+    }
+  }
+  return args;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const source = args['source'] || 'samples';
+  const count = parseInt(args['count'] || '26');
+
+  if (args['prompt-version']) {
+    process.env.AI_PROMPT_VERSION = args['prompt-version'];
+  }
+
+  // Import after env overrides so services pick them up
+  const { accuracyEvaluationService, EVALUATED_FIELDS } = await import('../services/accuracyEvaluationService');
+  const { prisma } = await import('../utils/database');
+
+  if (source !== 'samples' && source !== 'validated') {
+    throw new Error(`Unknown source "${source}", expected samples or validated`);
+  }
+
+  const corpus = source === 'samples'
+    ? accuracyEvaluationService.loadSampleCorpus(count)
+    : await accuracyEvaluationService.loadValidatedCorpus(count);
+
+  if (corpus.length === 0) {
+    console.log(`No labeled emails found for source "${source}"`);
+    return;
+  }
+
+  const report = await accuracyEvaluationService.evaluate(corpus, source);
+
+  console.log('');
+  console.log(`Accuracy report: ${report.emails} emails from ${report.source}, prompt ${report.promptVersion}`);
+  console.log(`Classification accuracy: ${formatRate(report.classificationAccuracy)}`);
+  console.log(`Financial detection:      precision ${formatRate(report.financialDetection.precision)}  recall ${formatRate(report.financialDetection.recall)}`);
+
+  console.log('');
+  console.log('Field            precision  recall     tp   fp   fn');
+  for (const field of EVALUATED_FIELDS) {
+    const score = report.fields[field];
+    console.log(
+      `${field.padEnd(16)} ${formatRate(score.precision)}     ${formatRate(score.recall)}  ` +
+      `${String(score.truePositives).padStart(4)} ${String(score.falsePositives).padStart(4)} ${String(score.falseNegatives).padStart(4)}`
+    );
+  }
+
+  console.log('');
+  console.log('Confusion matrix (rows: expected, columns: predicted)');
+  const predictedLabels = Array.from(new Set(
+    Object.values(report.confusionMatrix).flatMap(row => Object.keys(row))
+  )).sort();
+  console.log(`${''.padEnd(14)}${predictedLabels.map(label => label.slice(0, 12).padStart(13)).join('')}`);
+  for (const expected of Object.keys(report.confusionMatrix).sort()) {
+    const row = report.confusionMatrix[expected]!;
+    console.log(`${expected.slice(0, 13).padEnd(14)}${predictedLabels.map(label => String(row[label] || 0).padStart(13)).join('')}`);
+  }
+
+  if (report.errors.length > 0) {
+    console.log('');
+    console.log(`${report.errors.length} emails failed to evaluate`);
+  }
+
+  if (args['output']) {
+    fs.writeFileSync(args['output'], JSON.stringify(report, null, 2));
+    console.log(`\nFull report with mismatches written to ${args['output']}`);
+  }
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Accuracy evaluation failed:', error);
+    process.exit(1);
+  });
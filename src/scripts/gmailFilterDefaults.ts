@@ -0,0 +1,44 @@
+/**
+ * Shows or replaces the system default Gmail search filter that accounts
+ * without their own filter use, and that account filters add terms to.
+ * Stored in SystemConfig under gmail.search_filter.
+ *
+ * Usage:
+ *   pnpm gmail:filters                      # print the defaults and their query
+ *   pnpm gmail:filters --set=filters.json   # store {"allow": {...}, "deny": {...}}
+ */
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { defaultSearchFilterSchema, gmailFilterService } from '../services/gmailFilterService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const setArg = process.argv.slice(2).find(arg => arg.startsWith('--set='));
+
+  if (setArg) {
+    const parsed = defaultSearchFilterSchema.safeParse(JSON.parse(fs.readFileSync(setArg.slice('--set='.length), 'utf8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid search filter: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+
+    // Fails before storing when nothing is allowed
+    gmailFilterService.buildQuery(parsed.data);
+    await gmailFilterService.setDefaults(parsed.data);
+    console.log('Stored the default search filter');
+  }
+
+  const defaults = await gmailFilterService.getDefaults();
+  console.log(JSON.stringify(defaults, null, 2));
+  console.log(`Query: ${gmailFilterService.buildQuery(defaults)}`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Updating the search filter defaults failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+/**
+ * Loads daily exchange rates from a CSV or JSON file into the database.
+ *
+ * Usage:
+ *   pnpm rates:import <file> [--source=bcrd]
+ *
+ * See config/exchange-rates.example.csv for the CSV layout.
+ */
+import dotenv from 'dotenv';
+import { exchangeRateService } from '../services/exchangeRateService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const file = args.find(arg => !arg.startsWith('--'));
+  const sourceArg = args.find(arg => arg.startsWith('--source='));
+
+  if (!file) {
+    throw new Error('Usage: pnpm rates:import <file> [--source=name]');
+  }
+
+  const rates = await exchangeRateService.parseRateFile(file);
+  const imported = await exchangeRateService.importRates(rates, sourceArg ? sourceArg.split('=')[1]! : 'import');
+  console.log(`Imported ${imported} exchange rates from ${file}`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Exchange rate import failed:', error);
+    process.exit(1);
+  });
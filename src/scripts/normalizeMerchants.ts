@@ -0,0 +1,34 @@
+/**
+ * Links stored transactions to canonical merchants.
+ *
+ * Usage:
+ *   pnpm merchants:normalize [--all] [--batch-size=200]
+ *
+ * Without --all only transactions without a merchant are processed.
+ */
+import dotenv from 'dotenv';
+import { merchantService } from '../services/merchantService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const batchArg = args.find(arg => arg.startsWith('--batch-size='));
+
+  const result = await merchantService.normalizeAll({
+    all: args.includes('--all'),
+    batchSize: batchArg ? parseInt(batchArg.split('=')[1]!) : 200
+  });
+
+  console.log(`Linked ${result.linked} transactions, ${result.created} new merchants created`);
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Merchant normalization failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,38 @@
+/**
+ * Re-encrypts the OAuth tokens of all email accounts with the active key of
+ * TOKEN_ENCRYPTION_KEYS. Plaintext tokens stored before encryption are
+ * encrypted too. Safe to run while the server is up.
+ *
+ * To rotate, put the new key first in TOKEN_ENCRYPTION_KEYS and keep the old
+ * one after it, restart the server, run this command, then drop the old key.
+ *
+ * Usage:
+ *   pnpm tokens:rotate [--batch-size=100]
+ */
+import dotenv from 'dotenv';
+import { tokenEncryptionService } from '../services/tokenEncryptionService';
+import { prisma } from '../utils/database';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const batchArg = process.argv.slice(2).find(arg => arg.startsWith('--batch-size='));
+
+  const result = await tokenEncryptionService.rotateAll({
+    batchSize: batchArg ? parseInt(batchArg.split('=')[1]!) : 100
+  });
+
+  console.log(`Re-encrypted ${result.rotated} of ${result.scanned} accounts`);
+  if (result.skipped > 0) {
+    console.log(`${result.skipped} accounts got new tokens during the run and already use the active key`);
+  }
+
+  await prisma.$disconnect();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Token key rotation failed:', error);
+    process.exit(1);
+  });
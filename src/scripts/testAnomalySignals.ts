@@ -0,0 +1,24 @@
+/**
+ * Checks every anomaly signal against seeded synthetic transaction histories.
+ *
+ * Usage:
+ *   pnpm test:anomalies [--seeds=5]
+ */
+import { anomalyService } from '../services/anomalyService';
+
+const seedsArg = process.argv.find(arg => arg.startsWith('--seeds='));
+const seeds = seedsArg ? parseInt(seedsArg.split('=')[1]!) : 5;
+
+const results = anomalyService.selfTest(seeds);
+let failed = 0;
+
+for (const result of results) {
+  const status = result.failures.length === 0 ? 'PASS' : 'FAIL';
+  console.log(`${status} ${result.scenario}: ${result.passed}/${seeds} histories`);
+  for (const failure of result.failures) {
+    console.log(`  - ${failure}`);
+  }
+  failed += result.failures.length;
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,19 @@
+/**
+ * Checks that deleting categorization rules restores the AI category.
+ *
+ * Usage:
+ *   pnpm test:rules
+ */
+import { categorizationRuleService } from '../services/categorizationRuleService';
+
+let failed = 0;
+
+for (const result of categorizationRuleService.selfTest()) {
+  console.log(`${result.failures.length === 0 ? 'PASS' : 'FAIL'} ${result.scenario}`);
+  for (const failure of result.failures) {
+    console.log(`  - ${failure}`);
+  }
+  failed += result.failures.length;
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,24 @@
+/**
+ * Checks every bank template parser against generated sample emails.
+ *
+ * Usage:
+ *   pnpm test:parsers [--samples=5]
+ */
+import { templateParserRegistry } from '../services/templateParsers';
+
+const samplesArg = process.argv.find(arg => arg.startsWith('--samples='));
+const samples = samplesArg ? parseInt(samplesArg.split('=')[1]!) : 5;
+
+const results = templateParserRegistry.selfTest(samples);
+let failed = 0;
+
+for (const result of results) {
+  const status = result.failures.length === 0 ? 'PASS' : 'FAIL';
+  console.log(`${status} ${result.parser}: ${result.passed}/${samples} samples parsed correctly`);
+  for (const failure of result.failures) {
+    console.log(`  - ${failure}`);
+  }
+  failed += result.failures.length;
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -13,6 +13,16 @@ import emailRoutes from './routes/emails';
 import webhookRoutes from './routes/webhooks';
 import apiRoutes from './routes/api';
 import monitoringRoutes from './routes/monitoring';
+import promptRoutes from './routes/prompts';
+import reviewRoutes from './routes/review';
+import transactionRoutes from './routes/transactions';
+import merchantRoutes from './routes/merchants';
+import ruleRoutes from './routes/rules';
+import financialAccountRoutes from './routes/financialAccounts';
+import statementRoutes from './routes/statements';
+import subscriptionRoutes from './routes/subscriptions';
+import budgetRoutes from './routes/budgets';
+import anomalyRoutes from './routes/anomalies';
 
 // Import services
 import { logger } from './utils/logger';
@@ -21,6 +31,9 @@ import { initializeRedis } from './utils/redis';
 import { WebSocketService, setWebSocketServiceInstance } from './services/websocketService';
 import { QueueService } from './services/queueService';
 import { PerformanceMonitor } from './utils/performance';
+import { promptService } from './services/promptService';
+import { statementService } from './services/statementService';
+import { requireAuth } from './services/authService';
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../config/prototype.env') });
@@ -137,8 +150,21 @@ app.get('/health', async (req, res) => {
 // ===========================================
 
 app.use('/auth', authRoutes);
+
+// Every API route acts on behalf of the session user
+app.use('/api', requireAuth);
 app.use('/api/emails', emailRoutes);
 app.use('/api/monitoring', monitoringRoutes);
+app.use('/api/prompts', promptRoutes);
+app.use('/api/review', reviewRoutes);
+app.use('/api/transactions', transactionRoutes);
+app.use('/api/merchants', merchantRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/financial-accounts', financialAccountRoutes);
+app.use('/api/statements', statementRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/budgets', budgetRoutes);
+app.use('/api/anomalies', anomalyRoutes);
 app.use('/api', apiRoutes);
 app.use('/webhooks', webhookRoutes);
 
@@ -200,6 +226,9 @@ const gracefulShutdown = async (signal: string) => {
       logger.info('HTTP server closed');
     });
 
+    promptService.stopWatching();
+    statementService.stopReminders();
+
     // Close database connections
     try {
       const { prisma } = await import('./utils/database');
@@ -300,6 +329,14 @@ async function startServer() {
     const { emailProcessor } = await import('./workers/emailProcessor');
     logger.info('✅ Email processor initialized');
 
+    // Reload prompt templates when they change on disk
+    if (process.env.PROMPT_HOT_RELOAD !== 'false') {
+      promptService.startWatching();
+    }
+
+    // Card payment due date reminders over WebSocket
+    statementService.startReminders();
+
     // Start HTTP server
     server.listen(PORT, () => {
       logger.info(`🎉 Server running on http://localhost:${PORT}`);
@@ -0,0 +1,272 @@
+import { openaiService, FinancialDataExtraction } from './openaiService';
+import { promptService } from './promptService';
+import { prisma } from '../utils/database';
+import { sampleEmailGenerator, SampleEmailLabels } from '../utils/sampleEmails';
+import { logger } from '../utils/logger';
+
+export const EVALUATED_FIELDS = [
+  'amount',
+  'currency',
+  'merchantName',
+  'date',
+  'accountNumber',
+  'transactionType',
+] as const;
+
+export type EvaluatedField = typeof EVALUATED_FIELDS[number];
+
+export interface LabeledEmail {
+  id: string;
+  subject: string;
+  body: string;
+  sender: string;
+  labels: SampleEmailLabels;
+}
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationMismatch {
+  emailId: string;
+  field: EvaluatedField | 'classification';
+  expected: string | number;
+  actual: string | number | null;
+}
+
+export interface AccuracyReport {
+  source: string;
+  promptVersion: string;
+  emails: number;
+  classificationAccuracy: number | null;
+  financialDetection: { precision: number | null; recall: number | null };
+  confusionMatrix: Record<string, Record<string, number>>;
+  fields: Record<EvaluatedField, FieldScore>;
+  mismatches: EvaluationMismatch[];
+  errors: Array<{ emailId: string; error: string }>;
+  durationMs: number;
+}
+
+// Same mapping the pipeline uses to store classifications
+const CATEGORY_TO_CLASSIFICATION: Record<string, string> = {
+  'banking': 'BANKING',
+  'credit_card': 'CREDIT_CARD',
+  'credit card': 'CREDIT_CARD',
+  'investment': 'INVESTMENT',
+  'payment': 'PAYMENT',
+  'subscription': 'SUBSCRIPTION',
+  'bill': 'BILL',
+  'tax': 'TAX',
+  'insurance': 'INSURANCE',
+  'loan': 'LOAN',
+  'other_financial': 'OTHER',
+  'non_financial': 'UNCLASSIFIED'
+};
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  'RD$': 'DOP',
+  'DOP$': 'DOP',
+  'RD': 'DOP',
+  '$': 'USD',
+  'US$': 'USD',
+};
+
+/**
+ * Runs the classification and extraction pipeline over a labeled corpus and
+ * scores the output field by field.
+ *
+ * A field is only scored when the label defines it. A correct value is a true
+ * positive; a wrong value counts as both a false positive and a false
+ * negative; a missing value is a false negative.
+ */
+export class AccuracyEvaluationService {
+  /**
+   * Labeled corpus from the sample email generator
+   */
+  loadSampleCorpus(count: number): LabeledEmail[] {
+    return sampleEmailGenerator.generateSampleEmails(count)
+      .filter(email => email.labels)
+      .map(email => ({
+        id: email.id,
+        subject: email.subject,
+        body: email.body,
+        sender: email.from,
+        labels: email.labels!,
+      }));
+  }
+
+  /**
+   * Labeled corpus from emails whose extracted data was validated by a person
+   */
+  async loadValidatedCorpus(limit: number): Promise<LabeledEmail[]> {
+    const validated = await prisma.extractedData.findMany({
+      where: { isValidated: true },
+      include: { email: true },
+      orderBy: { validatedAt: 'desc' },
+      take: limit
+    });
+
+    return validated
+      .filter(data => data.email.bodyText || data.email.bodyPreview)
+      .map(data => ({
+        id: data.email.id,
+        subject: data.email.subject,
+        body: data.email.bodyText || data.email.bodyPreview || '',
+        sender: data.email.fromAddress,
+        labels: {
+          isFinancial: data.email.classification !== 'UNCLASSIFIED',
+          classification: data.email.classification,
+          amount: data.transactionAmount !== null ? Number(data.transactionAmount) : undefined,
+          currency: data.currency ?? undefined,
+          merchantName: data.merchantName ?? undefined,
+          date: data.transactionDate ? data.transactionDate.toISOString().split('T')[0] : undefined,
+          accountNumber: data.accountNumber ?? undefined,
+          transactionType: data.transactionType !== 'UNKNOWN' ? data.transactionType.toLowerCase() : undefined,
+        },
+      }));
+  }
+
+  async evaluate(corpus: LabeledEmail[], source: string): Promise<AccuracyReport> {
+    const startTime = Date.now();
+    const fields = Object.fromEntries(
+      EVALUATED_FIELDS.map(field => [field, { truePositives: 0, falsePositives: 0, falseNegatives: 0 }])
+    ) as Record<EvaluatedField, { truePositives: number; falsePositives: number; falseNegatives: number }>;
+    const confusionMatrix: Record<string, Record<string, number>> = {};
+    const mismatches: EvaluationMismatch[] = [];
+    const errors: Array<{ emailId: string; error: string }> = [];
+    const financial = { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+    let correctClassifications = 0;
+    let classified = 0;
+
+    for (const [index, email] of corpus.entries()) {
+      logger.info(`Evaluating ${index + 1}/${corpus.length}: ${email.subject}`);
+
+      try {
+        const classification = await openaiService.classifyEmail(email.subject, email.body, email.sender);
+        const predicted = classification.category === 'error'
+          ? 'ERROR'
+          : CATEGORY_TO_CLASSIFICATION[classification.category.toLowerCase()] || 'UNCLASSIFIED';
+        const expected = email.labels.classification;
+
+        const row = confusionMatrix[expected] || (confusionMatrix[expected] = {});
+        row[predicted] = (row[predicted] || 0) + 1;
+        classified++;
+
+        if (predicted === expected) {
+          correctClassifications++;
+        } else {
+          mismatches.push({ emailId: email.id, field: 'classification', expected, actual: predicted });
+        }
+
+        if (classification.isFinancial && email.labels.isFinancial) financial.truePositives++;
+        if (classification.isFinancial && !email.labels.isFinancial) financial.falsePositives++;
+        if (!classification.isFinancial && email.labels.isFinancial) financial.falseNegatives++;
+
+        // Extraction only runs for emails the pipeline considers financial, so
+        // classification misses show up as extraction recall loss
+        const extraction = classification.isFinancial
+          ? await openaiService.extractFinancialData(email.subject, email.body, classification.category, undefined, email.id, email.sender)
+          : null;
+
+        for (const field of EVALUATED_FIELDS) {
+          const expectedValue = email.labels[field];
+          if (expectedValue === undefined) continue;
+
+          const actualValue = extraction ? this.normalizeField(field, extraction) : null;
+          const score = fields[field];
+
+          if (actualValue === null) {
+            score.falseNegatives++;
+            mismatches.push({ emailId: email.id, field, expected: expectedValue, actual: null });
+          } else if (this.fieldMatches(field, expectedValue, actualValue)) {
+            score.truePositives++;
+          } else {
+            score.falsePositives++;
+            score.falseNegatives++;
+            mismatches.push({ emailId: email.id, field, expected: expectedValue, actual: actualValue });
+          }
+        }
+      } catch (error) {
+        logger.error(`Evaluation failed for ${email.id}:`, error);
+        errors.push({ emailId: email.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return {
+      source,
+      promptVersion: promptService.getDefaultVersion(),
+      emails: corpus.length,
+      classificationAccuracy: classified > 0 ? correctClassifications / classified : null,
+      financialDetection: this.precisionRecall(financial),
+      confusionMatrix,
+      fields: Object.fromEntries(
+        EVALUATED_FIELDS.map(field => [field, { ...fields[field], ...this.precisionRecall(fields[field]) }])
+      ) as Record<EvaluatedField, FieldScore>,
+      mismatches,
+      errors,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  private precisionRecall(score: { truePositives: number; falsePositives: number; falseNegatives: number }): {
+    precision: number | null;
+    recall: number | null;
+  } {
+    const predicted = score.truePositives + score.falsePositives;
+    const actual = score.truePositives + score.falseNegatives;
+    return {
+      precision: predicted > 0 ? score.truePositives / predicted : null,
+      recall: actual > 0 ? score.truePositives / actual : null,
+    };
+  }
+
+  private normalizeField(field: EvaluatedField, extraction: FinancialDataExtraction): string | number | null {
+    switch (field) {
+      case 'amount':
+        return extraction.amount ?? null;
+      case 'date': {
+        if (!extraction.date) return null;
+        const isoMatch = extraction.date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+        if (isoMatch) return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+        // Labels use the local calendar date, so compare without a UTC shift
+        const parsed = new Date(extraction.date);
+        if (isNaN(parsed.getTime())) return extraction.date;
+        const month = String(parsed.getMonth() + 1).padStart(2, '0');
+        const day = String(parsed.getDate()).padStart(2, '0');
+        return `${parsed.getFullYear()}-${month}-${day}`;
+      }
+      default:
+        return extraction[field] ?? null;
+    }
+  }
+
+  private fieldMatches(field: EvaluatedField, expected: string | number, actual: string | number): boolean {
+    switch (field) {
+      case 'amount':
+        return Math.abs(Number(expected) - Number(actual)) < 0.01;
+      case 'currency': {
+        const normalize = (value: string) => {
+          const upper = value.trim().toUpperCase();
+          return CURRENCY_ALIASES[upper] || upper;
+        };
+        return normalize(String(expected)) === normalize(String(actual));
+      }
+      case 'merchantName': {
+        const normalize = (value: string) => value.toLowerCase().normalize('NFD').replace(/[^a-z0-9]/g, '');
+        const a = normalize(String(expected));
+        const b = normalize(String(actual));
+        return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+      }
+      case 'accountNumber':
+        return String(expected).replace(/\D/g, '').slice(-4) === String(actual).replace(/\D/g, '').slice(-4);
+      default:
+        return String(expected).trim().toLowerCase() === String(actual).trim().toLowerCase();
+    }
+  }
+}
+
+export const accuracyEvaluationService = new AccuracyEvaluationService();
@@ -0,0 +1,502 @@
+import { AnomalyFlag, AnomalyFlagStatus, AnomalySignal, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { CHARGE_TYPES } from './transactionService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export interface AnomalyFilters {
+  userId?: string | undefined;
+  status?: AnomalyFlagStatus | undefined;
+  signal?: AnomalySignal | undefined;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * The parts of a transaction the signals look at. Amounts are in the user's
+ * currency so merchants and categories can be compared across currencies.
+ */
+export interface AnomalyTransaction {
+  id: string;
+  at: Date;
+  amount: number | null;
+  currency: string | null;
+  merchantKey: string | null;
+  category: string | null;
+  cardKey: string | null;
+}
+
+export interface AnomalyContext {
+  userCurrency: string;
+  timezone: string;
+  cardCurrency: string | null;
+}
+
+export interface AnomalyReason {
+  signal: AnomalySignal;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export interface AnomalySettings {
+  // Peer transactions needed before amounts or currencies are judged
+  minHistory: number;
+  // Robust z-score (median and MAD) above which an amount is an outlier
+  amountThreshold: number;
+  rapidCount: number;
+  rapidWindowMinutes: number;
+}
+
+export interface AnomalySelfTestResult {
+  scenario: string;
+  passed: number;
+  failures: string[];
+}
+
+const DEFAULT_SETTINGS: AnomalySettings = {
+  minHistory: 5,
+  amountThreshold: 3.5,
+  rapidCount: 3,
+  rapidWindowMinutes: 10,
+};
+
+const HISTORY_DAYS = 180;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// An outlier must also be at least this multiple of the median, so merchants
+// with near-constant prices are not flagged for small increases
+const OUTLIER_MIN_RATIO = 2;
+
+// With enough history, an hour is unusual when this little of the user's
+// spend happens within an hour of it; otherwise night hours are unusual
+const HOUR_PROFILE_MIN = 20;
+const UNUSUAL_HOUR_SHARE = 0.05;
+const NIGHT_HOURS = [0, 1, 2, 3, 4, 5];
+
+const flagInclude = {
+  transaction: {
+    select: {
+      id: true,
+      emailId: true,
+      transactionAmount: true,
+      currency: true,
+      amountUserCurrency: true,
+      userCurrency: true,
+      transactionDate: true,
+      merchantName: true,
+      merchantCategory: true,
+      accountNumber: true,
+      email: { select: { subject: true, receivedAt: true } }
+    }
+  }
+} satisfies Prisma.AnomalyFlagInclude;
+
+const scoredSelect = {
+  id: true,
+  amountUserCurrency: true,
+  currency: true,
+  merchantId: true,
+  merchantName: true,
+  merchantCategory: true,
+  financialAccountId: true,
+  accountNumber: true,
+  email: { select: { receivedAt: true } }
+} satisfies Prisma.ExtractedDataSelect;
+
+type ScoredRow = Prisma.ExtractedDataGetPayload<{ select: typeof scoredSelect }>;
+
+/**
+ * Flags unusual transactions after extraction: amounts far above the
+ * merchant or category norm, first charges at a merchant at an unusual hour,
+ * currencies never seen before and bursts of charges on one card. Signals
+ * are computed from the user's own history, so a new user gets no flags
+ * until there is something to compare against.
+ */
+export class AnomalyService {
+  private static instance: AnomalyService;
+
+  static getInstance(): AnomalyService {
+    if (!AnomalyService.instance) {
+      AnomalyService.instance = new AnomalyService();
+    }
+    return AnomalyService.instance;
+  }
+
+  private get settings(): AnomalySettings {
+    return {
+      minHistory: parseInt(process.env.ANOMALY_MIN_HISTORY || String(DEFAULT_SETTINGS.minHistory)),
+      amountThreshold: parseFloat(process.env.ANOMALY_AMOUNT_THRESHOLD || String(DEFAULT_SETTINGS.amountThreshold)),
+      rapidCount: parseInt(process.env.ANOMALY_RAPID_COUNT || String(DEFAULT_SETTINGS.rapidCount)),
+      rapidWindowMinutes: parseInt(process.env.ANOMALY_RAPID_WINDOW_MINUTES || String(DEFAULT_SETTINGS.rapidWindowMinutes)),
+    };
+  }
+
+  /**
+   * Score an email's transaction against the user's recent history and store
+   * the result. Dismissed flags are left alone. Returns the flag, or null
+   * when nothing is unusual.
+   */
+  async scoreExtractedData(emailId: string): Promise<AnomalyFlag | null> {
+    const row = await prisma.extractedData.findUnique({
+      where: { emailId },
+      select: {
+        ...scoredSelect,
+        transactionType: true,
+        duplicateOfId: true,
+        financialAccount: { select: { currency: true } },
+        anomalyFlag: true,
+        email: { select: { receivedAt: true, account: { select: { user: { select: { id: true, currency: true, timezone: true } } } } } }
+      }
+    });
+    if (!row) return null;
+
+    const user = row.email.account.user;
+    const existing = row.anomalyFlag;
+    if (existing?.status === 'DISMISSED') return existing;
+
+    // Duplicates are scored through their original
+    if (row.duplicateOfId || !CHARGE_TYPES.includes(row.transactionType)) {
+      if (existing) await prisma.anomalyFlag.delete({ where: { id: existing.id } });
+      return null;
+    }
+
+    const settings = this.settings;
+    const at = row.email.receivedAt;
+    const history = await prisma.extractedData.findMany({
+      where: {
+        id: { not: row.id },
+        duplicateOfId: null,
+        transactionType: { in: CHARGE_TYPES },
+        email: {
+          account: { userId: user.id },
+          receivedAt: {
+            gte: new Date(at.getTime() - HISTORY_DAYS * MS_PER_DAY),
+            lte: new Date(at.getTime() + settings.rapidWindowMinutes * 60 * 1000)
+          }
+        }
+      },
+      select: scoredSelect
+    });
+
+    const reasons = this.detect(toAnomalyTransaction(row), history.map(toAnomalyTransaction), {
+      userCurrency: user.currency,
+      timezone: user.timezone,
+      cardCurrency: row.financialAccount?.currency ?? null
+    }, settings);
+
+    if (reasons.length === 0) {
+      if (existing) await prisma.anomalyFlag.delete({ where: { id: existing.id } });
+      return null;
+    }
+
+    const signals = reasons.map(reason => reason.signal);
+    const flag = await prisma.anomalyFlag.upsert({
+      where: { extractedDataId: row.id },
+      create: { extractedDataId: row.id, userId: user.id, signals, reasons: reasons as unknown as Prisma.InputJsonValue },
+      update: { signals, reasons: reasons as unknown as Prisma.InputJsonValue }
+    });
+
+    const added = signals.filter(signal => !existing?.signals.includes(signal));
+    if (added.length > 0) {
+      this.notify(flag, reasons.filter(reason => added.includes(reason.signal)));
+    }
+
+    return flag;
+  }
+
+  /**
+   * Signals raised by a transaction given the user's other transactions.
+   * Pure, so it can be checked against synthetic histories.
+   */
+  detect(
+    transaction: AnomalyTransaction,
+    history: AnomalyTransaction[],
+    context: AnomalyContext,
+    settings: AnomalySettings = DEFAULT_SETTINGS
+  ): AnomalyReason[] {
+    const reasons: AnomalyReason[] = [];
+    const earlier = history.filter(other => other.at <= transaction.at);
+
+    // Amount far above what the user usually pays here
+    if (transaction.amount !== null) {
+      const atMerchant = amountsOf(earlier.filter(other => transaction.merchantKey && other.merchantKey === transaction.merchantKey));
+      const inCategory = amountsOf(earlier.filter(other => transaction.category && other.category === transaction.category));
+      const scope = atMerchant.length >= settings.minHistory ? 'merchant' : 'category';
+      const peers = scope === 'merchant' ? atMerchant : inCategory;
+
+      if (peers.length >= settings.minHistory) {
+        const typical = median(peers);
+        const deviation = median(peers.map(amount => Math.abs(amount - typical)));
+        const score = deviation > 0 ? 0.6745 * (transaction.amount - typical) / deviation : Infinity;
+
+        if (score > settings.amountThreshold && transaction.amount >= typical * OUTLIER_MIN_RATIO) {
+          const ratio = round(transaction.amount / typical);
+          reasons.push({
+            signal: 'AMOUNT_OUTLIER',
+            message: `${transaction.amount.toFixed(2)} ${context.userCurrency} is ${ratio}x the usual ${typical.toFixed(2)} for this ${scope}`,
+            details: { scope, amount: transaction.amount, median: typical, ratio, peers: peers.length }
+          });
+        }
+      }
+    }
+
+    // First charge at a merchant, at an hour the user rarely spends
+    if (transaction.merchantKey && !earlier.some(other => other.merchantKey === transaction.merchantKey)) {
+      const hour = localHour(transaction.at, context.timezone);
+      const hours = earlier.map(other => localHour(other.at, context.timezone));
+      const unusual = hours.length >= HOUR_PROFILE_MIN
+        ? hours.filter(other => hourDistance(other, hour) <= 1).length / hours.length < UNUSUAL_HOUR_SHARE
+        : NIGHT_HOURS.includes(hour);
+
+      if (unusual) {
+        reasons.push({
+          signal: 'NEW_MERCHANT_UNUSUAL_HOUR',
+          message: `First charge at this merchant at ${String(hour).padStart(2, '0')}:00 local time`,
+          details: { hour, timezone: context.timezone, historySize: hours.length }
+        });
+      }
+    }
+
+    // A currency the user has not paid in and the card is not billed in
+    const currency = transaction.currency?.toUpperCase();
+    if (currency && currency !== context.userCurrency && currency !== context.cardCurrency
+      && earlier.length >= settings.minHistory
+      && !earlier.some(other => other.currency?.toUpperCase() === currency)) {
+      reasons.push({
+        signal: 'UNEXPECTED_CURRENCY',
+        message: `First charge in ${currency}`,
+        details: { currency, userCurrency: context.userCurrency, cardCurrency: context.cardCurrency }
+      });
+    }
+
+    // Several charges on the same card within minutes of each other
+    if (transaction.cardKey) {
+      const windowMs = settings.rapidWindowMinutes * 60 * 1000;
+      const nearby = history.filter(other =>
+        other.cardKey === transaction.cardKey && Math.abs(other.at.getTime() - transaction.at.getTime()) <= windowMs
+      );
+
+      if (nearby.length + 1 >= settings.rapidCount) {
+        reasons.push({
+          signal: 'RAPID_REPEAT',
+          message: `${nearby.length + 1} charges on the same card within ${settings.rapidWindowMinutes} minutes`,
+          details: { count: nearby.length + 1, windowMinutes: settings.rapidWindowMinutes, transactionIds: nearby.map(other => other.id) }
+        });
+      }
+    }
+
+    return reasons;
+  }
+
+  async list(filters: AnomalyFilters) {
+    const where: Prisma.AnomalyFlagWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.signal && { signals: { has: filters.signal } })
+    };
+
+    const [flags, total] = await Promise.all([
+      prisma.anomalyFlag.findMany({
+        where,
+        include: flagInclude,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset
+      }),
+      prisma.anomalyFlag.count({ where })
+    ]);
+
+    return { flags, total };
+  }
+
+  async get(id: string) {
+    return prisma.anomalyFlag.findUnique({ where: { id }, include: flagInclude });
+  }
+
+  /**
+   * Mark a flag as reviewed; later re-scoring leaves it dismissed. Returns
+   * null when the flag does not exist.
+   */
+  async dismiss(id: string, dismissedBy: string | undefined, reason: string | undefined) {
+    const existing = await prisma.anomalyFlag.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    return prisma.anomalyFlag.update({
+      where: { id },
+      data: {
+        status: 'DISMISSED',
+        dismissedAt: new Date(),
+        dismissedBy: dismissedBy ?? null,
+        dismissReason: reason ?? null
+      },
+      include: flagInclude
+    });
+  }
+
+  /**
+   * Run every signal against seeded synthetic histories, one normal and one
+   * anomalous case each, and check the signals raised.
+   */
+  selfTest(seeds: number = 5): AnomalySelfTestResult[] {
+    const results = new Map<string, AnomalySelfTestResult>();
+
+    for (let seed = 1; seed <= seeds; seed++) {
+      for (const scenario of buildScenarios(seed)) {
+        const result = results.get(scenario.name) || { scenario: scenario.name, passed: 0, failures: [] };
+        results.set(scenario.name, result);
+
+        const signals = this.detect(scenario.transaction, scenario.history, scenario.context).map(reason => reason.signal);
+        const missing = scenario.expected.filter(signal => !signals.includes(signal));
+        const unexpected = signals.filter(signal => !scenario.expected.includes(signal));
+
+        if (missing.length === 0 && unexpected.length === 0) {
+          result.passed++;
+        } else {
+          result.failures.push(`seed ${seed}: expected [${scenario.expected.join(', ')}] got [${signals.join(', ')}]`);
+        }
+      }
+    }
+
+    return Array.from(results.values());
+  }
+
+  private notify(flag: AnomalyFlag, reasons: AnomalyReason[]): void {
+    logger.warn(`Anomaly flag ${flag.id} on transaction ${flag.extractedDataId}: ${reasons.map(reason => reason.signal).join(', ')}`);
+
+    const wsService = getWebSocketServiceInstance();
+    if (wsService) {
+      wsService.broadcastSystemNotification({
+        type: 'alert',
+        title: 'Unusual transaction',
+        message: reasons.map(reason => reason.message).join('; '),
+        userId: flag.userId,
+        data: {
+          flagId: flag.id,
+          extractedDataId: flag.extractedDataId,
+          signals: flag.signals
+        }
+      });
+    }
+  }
+}
+
+interface Scenario {
+  name: string;
+  transaction: AnomalyTransaction;
+  history: AnomalyTransaction[];
+  context: AnomalyContext;
+  expected: AnomalySignal[];
+}
+
+/**
+ * Synthetic histories: 90 days of daytime grocery, coffee and fuel charges
+ * on one card, in USD, with amounts varying around each merchant's price.
+ */
+function buildScenarios(seed: number): Scenario[] {
+  const random = seededRandom(seed);
+  const context: AnomalyContext = { userCurrency: 'USD', timezone: 'UTC', cardCurrency: 'USD' };
+  const now = new Date(Date.UTC(2025, 5, 30, 14, 0));
+  const merchants = [
+    { key: 'grocer', category: 'groceries', price: 80, perWeek: 2 },
+    { key: 'coffee', category: 'dining', price: 5, perWeek: 4 },
+    { key: 'fuel', category: 'gas', price: 45, perWeek: 1 },
+  ];
+
+  const history: AnomalyTransaction[] = [];
+  for (const merchant of merchants) {
+    const count = Math.round(merchant.perWeek * 90 / 7);
+    for (let i = 0; i < count; i++) {
+      const day = Math.floor(random() * 89) + 1;
+      const at = new Date(now.getTime() - day * MS_PER_DAY);
+      at.setUTCHours(9 + Math.floor(random() * 11), Math.floor(random() * 60));
+      history.push({
+        id: `${merchant.key}-${i}`,
+        at,
+        amount: round(merchant.price * (0.8 + random() * 0.4)),
+        currency: 'USD',
+        merchantKey: merchant.key,
+        category: merchant.category,
+        cardKey: 'card-1'
+      });
+    }
+  }
+
+  const charge = (overrides: Partial<AnomalyTransaction>): AnomalyTransaction => ({
+    id: 'candidate',
+    at: now,
+    amount: 82,
+    currency: 'USD',
+    merchantKey: 'grocer',
+    category: 'groceries',
+    cardKey: 'card-1',
+    ...overrides
+  });
+  const at = (hour: number) => new Date(Date.UTC(2025, 5, 30, hour, 15));
+  const burst = [1, 2, 3].map(minutes => charge({ id: `burst-${minutes}`, at: new Date(now.getTime() - minutes * 60 * 1000), amount: 20, merchantKey: 'shop', category: 'shopping' }));
+
+  return [
+    { name: 'usual charge', transaction: charge({}), history, context, expected: [] },
+    { name: 'amount far above merchant norm', transaction: charge({ amount: 640 }), history, context, expected: ['AMOUNT_OUTLIER'] },
+    { name: 'amount far above category norm', transaction: charge({ amount: 500, merchantKey: 'market', at: at(11) }), history, context, expected: ['AMOUNT_OUTLIER'] },
+    { name: 'new merchant in the daytime', transaction: charge({ merchantKey: 'bakery', category: 'dining', amount: 6, at: at(12) }), history, context, expected: [] },
+    { name: 'new merchant at night', transaction: charge({ merchantKey: 'electronics', category: 'shopping', amount: 60, at: at(3) }), history, context, expected: ['NEW_MERCHANT_UNUSUAL_HOUR'] },
+    { name: 'known merchant at night', transaction: charge({ at: at(3) }), history, context, expected: [] },
+    { name: 'unexpected currency', transaction: charge({ currency: 'EUR' }), history, context, expected: ['UNEXPECTED_CURRENCY'] },
+    { name: 'card billed in the currency', transaction: charge({ currency: 'EUR' }), history, context: { ...context, cardCurrency: 'EUR' }, expected: [] },
+    { name: 'rapid repeat on one card', transaction: charge({}), history: [...history, ...burst], context, expected: ['RAPID_REPEAT'] },
+    { name: 'burst spread over cards', transaction: charge({}), history: [...history, ...burst.map(other => ({ ...other, cardKey: `card-${other.id}` }))], context, expected: [] },
+  ];
+}
+
+function toAnomalyTransaction(row: ScoredRow): AnomalyTransaction {
+  return {
+    id: row.id,
+    at: row.email.receivedAt,
+    amount: row.amountUserCurrency !== null ? Number(row.amountUserCurrency) : null,
+    currency: row.currency,
+    merchantKey: row.merchantId ?? row.merchantName?.trim().toLowerCase() ?? null,
+    category: row.merchantCategory?.toLowerCase() ?? null,
+    cardKey: row.financialAccountId ?? row.accountNumber?.slice(-4) ?? null
+  };
+}
+
+function amountsOf(transactions: AnomalyTransaction[]): number[] {
+  return transactions.flatMap(other => other.amount !== null ? [other.amount] : []);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
+
+function localHour(date: Date, timezone: string): number {
+  try {
+    return parseInt(new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(date));
+  } catch {
+    return date.getUTCHours();
+  }
+}
+
+function hourDistance(a: number, b: number): number {
+  const distance = Math.abs(a - b);
+  return Math.min(distance, 24 - distance);
+}
+
+// mulberry32, so synthetic histories are the same on every run
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const anomalyService = AnomalyService.getInstance();
@@ -0,0 +1,134 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { User } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAuth
+      user?: User;
+    }
+  }
+}
+
+interface SessionClaims {
+  sub: string;
+  email: string;
+}
+
+/**
+ * JWT sessions issued after the Google OAuth callback. Tokens carry the user
+ * id as subject and are checked against the users table on every request,
+ * so deactivating a user ends their sessions.
+ */
+export class AuthService {
+  private static instance: AuthService;
+
+  static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  private get secret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+    return secret;
+  }
+
+  issueToken(user: Pick<User, 'id' | 'email'>): string {
+    return jwt.sign({ email: user.email }, this.secret, {
+      subject: user.id,
+      expiresIn: (process.env.JWT_EXPIRES_IN || '24h') as NonNullable<jwt.SignOptions['expiresIn']>
+    });
+  }
+
+  /**
+   * The active user a token belongs to, or null when the token is missing,
+   * invalid or expired
+   */
+  async authenticate(token: string | undefined): Promise<User | null> {
+    if (!token) return null;
+
+    let claims: SessionClaims;
+    try {
+      claims = jwt.verify(token, this.secret) as SessionClaims;
+    } catch (error) {
+      logger.debug(`Rejected session token: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: claims.sub } });
+    return user?.isActive ? user : null;
+  }
+
+  /**
+   * An email account of the user, or null when it does not exist or belongs
+   * to someone else
+   */
+  async getAccount(userId: string, accountId: string) {
+    return prisma.emailAccount.findFirst({ where: { id: accountId, userId } });
+  }
+
+  /**
+   * Ids of the email accounts a user owns, for scoping queries
+   */
+  async getAccountIds(userId: string): Promise<string[]> {
+    const accounts = await prisma.emailAccount.findMany({ where: { userId }, select: { id: true } });
+    return accounts.map(account => account.id);
+  }
+}
+
+export const authService = AuthService.getInstance();
+
+/**
+ * Token from an `Authorization: Bearer` header
+ */
+export function getBearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Resolve the current user from the session token; responds 401 without one
+ */
+export async function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
+  try {
+    const user = await authService.authenticate(getBearerToken(req.headers.authorization));
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    req.user = user;
+    return next();
+  } catch (error) {
+    logger.error('Error authenticating request:', error);
+    return res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+}
+
+/**
+ * Only let admins through; responds 403 to other users. Mount after
+ * requireAuth. Admins are marked with users.isAdmin in the database.
+ */
+export function requireAdmin<P>(req: express.Request<P>, res: express.Response, next: express.NextFunction) {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  return next();
+}
+
+/**
+ * The user resolved by requireAuth
+ */
+export function currentUser(req: express.Request): User {
+  if (!req.user) {
+    throw new Error('currentUser used on a route without requireAuth');
+  }
+  return req.user;
+}
@@ -0,0 +1,347 @@
+import { BudgetPeriod, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { CHARGE_TYPES, transactionService } from './transactionService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export const budgetInputSchema = z.object({
+  userId: z.string().min(1),
+  name: z.string().min(1),
+  category: z.string().min(1).nullish().transform((value) => value ?? null),
+  merchantId: z.string().min(1).nullish().transform((value) => value ?? null),
+  amount: z.number().positive(),
+  isActive: z.boolean().default(true),
+}).refine((budget) => (budget.category === null) !== (budget.merchantId === null), {
+  message: 'Set either category or merchantId',
+  path: ['category'],
+});
+
+export type BudgetInput = z.infer<typeof budgetInputSchema>;
+
+export interface BudgetPeriodView {
+  period: string; // YYYY-MM
+  periodStart: Date;
+  amount: number;
+  currency: string;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  transactionCount: number;
+  alertThreshold: number;
+}
+
+export interface BudgetView {
+  id: string;
+  userId: string;
+  name: string;
+  category: string | null;
+  merchant: { id: string; canonicalName: string } | null;
+  amount: number;
+  isActive: boolean;
+  current: BudgetPeriodView;
+}
+
+// Percent of the budget at which a budget_alert is sent, once per month each
+const ALERT_THRESHOLDS = [50, 80, 100];
+
+const budgetInclude = {
+  merchant: { select: { id: true, canonicalName: true } },
+  user: { select: { currency: true } }
+} satisfies Prisma.BudgetInclude;
+
+type BudgetRow = Prisma.BudgetGetPayload<{ include: typeof budgetInclude }>;
+
+type PeriodState = Pick<BudgetPeriod, 'periodStart' | 'currency' | 'transactionCount' | 'alertThreshold'> & {
+  amount: number;
+  spent: number;
+};
+
+/**
+ * Monthly budgets per category or merchant in the user's currency. Spend is
+ * the sum of converted, non-duplicate spend transactions dated in the month;
+ * rows without a converted amount are not counted until the rate backfill
+ * fills them in. Each month's state is kept as a budget period, so history
+ * survives later changes to the budget amount.
+ */
+export class BudgetService {
+  private static instance: BudgetService;
+
+  static getInstance(): BudgetService {
+    if (!BudgetService.instance) {
+      BudgetService.instance = new BudgetService();
+    }
+    return BudgetService.instance;
+  }
+
+  /**
+   * Budgets with the current month's spend, recomputed on read so rule
+   * re-applies and rate backfills are reflected. Nothing is stored.
+   */
+  async list(filters: { userId?: string | undefined; includeInactive?: boolean } = {}): Promise<BudgetView[]> {
+    const budgets = await prisma.budget.findMany({
+      where: {
+        ...(filters.userId && { userId: filters.userId }),
+        ...(!filters.includeInactive && { isActive: true })
+      },
+      include: budgetInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const views: BudgetView[] = [];
+    for (const budget of budgets) {
+      const period = await this.computePeriod(budget, monthStart(new Date()));
+      views.push(this.toView(budget, period));
+    }
+    return views;
+  }
+
+  async get(id: string): Promise<BudgetView | null> {
+    const budget = await prisma.budget.findUnique({ where: { id }, include: budgetInclude });
+    if (!budget) return null;
+
+    const period = await this.computePeriod(budget, monthStart(new Date()));
+    return this.toView(budget, period);
+  }
+
+  /**
+   * Returns null when the user or merchant does not exist
+   */
+  async create(input: BudgetInput): Promise<BudgetView | null> {
+    const [user, merchant] = await Promise.all([
+      prisma.user.findUnique({ where: { id: input.userId }, select: { id: true } }),
+      input.merchantId ? prisma.merchant.findUnique({ where: { id: input.merchantId }, select: { id: true } }) : null
+    ]);
+    if (!user || (input.merchantId && !merchant)) return null;
+
+    const budget = await prisma.budget.create({ data: input });
+    logger.info(`Created budget ${budget.id} (${budget.name}) for user ${budget.userId}`);
+
+    return this.get(budget.id);
+  }
+
+  /**
+   * Returns null when the budget or merchant does not exist. A new amount
+   * applies to the current month; earlier months keep the amount they had.
+   */
+  async update(id: string, input: BudgetInput): Promise<BudgetView | null> {
+    const existing = await prisma.budget.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    if (input.merchantId) {
+      const merchant = await prisma.merchant.findUnique({ where: { id: input.merchantId }, select: { id: true } });
+      if (!merchant) return null;
+    }
+
+    await prisma.budget.update({ where: { id }, data: input });
+
+    // Spend is recounted from scratch when the category or merchant changes
+    if (existing.category !== input.category || existing.merchantId !== input.merchantId) {
+      await prisma.budgetPeriod.deleteMany({ where: { budgetId: id } });
+    }
+
+    return this.get(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await prisma.budget.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  /**
+   * State of the last `months` months, newest first. Months before the budget
+   * was created are counted against its current amount. Returns null when the
+   * budget does not exist.
+   */
+  async getHistory(id: string, months: number): Promise<BudgetPeriodView[] | null> {
+    const budget = await prisma.budget.findUnique({ where: { id }, include: budgetInclude });
+    if (!budget) return null;
+
+    const current = monthStart(new Date());
+    const periods: BudgetPeriodView[] = [];
+    for (let i = 0; i < months; i++) {
+      const start = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i, 1));
+      periods.push(toPeriodView(await this.computePeriod(budget, start)));
+    }
+    return periods;
+  }
+
+  /**
+   * Recompute the budgets matching an email's transaction and send any
+   * alert thresholds it crossed
+   */
+  async evaluateForExtractedData(emailId: string): Promise<void> {
+    const row = await prisma.extractedData.findUnique({
+      where: { emailId },
+      select: {
+        merchantId: true,
+        merchantCategory: true,
+        transactionDate: true,
+        email: { select: { account: { select: { userId: true } } } }
+      }
+    });
+    if (!row?.transactionDate) return;
+
+    const matches: Prisma.BudgetWhereInput[] = [];
+    if (row.merchantCategory) matches.push({ category: { equals: row.merchantCategory, mode: 'insensitive' } });
+    if (row.merchantId) matches.push({ merchantId: row.merchantId });
+    if (matches.length === 0) return;
+
+    const budgets = await prisma.budget.findMany({
+      where: { userId: row.email.account.userId, isActive: true, OR: matches },
+      include: budgetInclude
+    });
+
+    const start = monthStart(row.transactionDate);
+    for (const budget of budgets) {
+      await this.refreshPeriod(budget, start);
+    }
+  }
+
+  /**
+   * Recompute every active budget of a user for the month of `date`, e.g.
+   * after a transaction was corrected or removed
+   */
+  async refreshForUser(userId: string, date: Date): Promise<void> {
+    const budgets = await prisma.budget.findMany({
+      where: { userId, isActive: true },
+      include: budgetInclude
+    });
+
+    const start = monthStart(date);
+    for (const budget of budgets) {
+      await this.refreshPeriod(budget, start);
+    }
+  }
+
+  /**
+   * Spend of one month against the amount it had, without storing it
+   */
+  private async computePeriod(budget: BudgetRow, periodStart: Date): Promise<PeriodState> {
+    const { spent, count } = await this.sumSpend(budget, periodStart);
+
+    const existing = await prisma.budgetPeriod.findUnique({
+      where: { budgetId_periodStart: { budgetId: budget.id, periodStart } }
+    });
+    const amount = isCurrentMonth(periodStart) || !existing ? Number(budget.amount) : Number(existing.amount);
+
+    return {
+      periodStart,
+      amount,
+      currency: budget.user.currency,
+      spent,
+      transactionCount: count,
+      alertThreshold: existing?.alertThreshold ?? 0
+    };
+  }
+
+  /**
+   * Recount the spend of one month and store it. Alerts are only sent for the
+   * current month, so backfilling old emails does not replay them.
+   */
+  private async refreshPeriod(budget: BudgetRow, periodStart: Date): Promise<void> {
+    const period = await this.computePeriod(budget, periodStart);
+
+    const reached = ALERT_THRESHOLDS.filter(threshold => period.spent >= period.amount * threshold / 100).pop() ?? 0;
+    const shouldAlert = isCurrentMonth(periodStart) && budget.isActive && reached > period.alertThreshold;
+
+    const data = {
+      amount: period.amount,
+      currency: period.currency,
+      spent: period.spent,
+      transactionCount: period.transactionCount,
+      ...(shouldAlert && { alertThreshold: reached, alertedAt: new Date() })
+    };
+    await prisma.budgetPeriod.upsert({
+      where: { budgetId_periodStart: { budgetId: budget.id, periodStart } },
+      create: { budgetId: budget.id, periodStart, ...data },
+      update: data
+    });
+
+    if (shouldAlert) {
+      this.sendAlert(budget, { ...period, alertThreshold: reached }, reached);
+    }
+  }
+
+  private async sumSpend(budget: BudgetRow, periodStart: Date): Promise<{ spent: number; count: number }> {
+    const where = transactionService.buildWhere({
+      userId: budget.userId,
+      from: periodStart,
+      to: new Date(monthEnd(periodStart).getTime() - 1),
+      category: budget.category ?? undefined,
+      merchantId: budget.merchantId ?? undefined,
+      transactionTypes: CHARGE_TYPES
+    });
+
+    const result = await prisma.extractedData.aggregate({
+      where: { AND: [where, { userCurrency: budget.user.currency }, { amountUserCurrency: { not: null } }] },
+      _sum: { amountUserCurrency: true },
+      _count: true
+    });
+
+    return { spent: round(Number(result._sum.amountUserCurrency || 0)), count: result._count };
+  }
+
+  private sendAlert(budget: BudgetRow, period: PeriodState, threshold: number): void {
+    const view = toPeriodView(period);
+    logger.info(`Budget ${budget.id} reached ${threshold}% for ${view.period}: ${view.spent} of ${view.amount} ${view.currency}`);
+
+    const wsService = getWebSocketServiceInstance();
+    if (wsService) {
+      wsService.sendToUser(budget.userId, 'budget_alert', {
+        budgetId: budget.id,
+        name: budget.name,
+        category: budget.category,
+        merchant: budget.merchant,
+        threshold,
+        ...view
+      });
+    }
+  }
+
+  private toView(budget: BudgetRow, period: PeriodState): BudgetView {
+    return {
+      id: budget.id,
+      userId: budget.userId,
+      name: budget.name,
+      category: budget.category,
+      merchant: budget.merchant,
+      amount: Number(budget.amount),
+      isActive: budget.isActive,
+      current: toPeriodView(period)
+    };
+  }
+}
+
+function toPeriodView(period: PeriodState): BudgetPeriodView {
+  const { amount, spent } = period;
+  return {
+    period: period.periodStart.toISOString().slice(0, 7),
+    periodStart: period.periodStart,
+    amount,
+    currency: period.currency,
+    spent,
+    remaining: round(amount - spent),
+    percentUsed: amount > 0 ? round(spent / amount * 100) : 0,
+    transactionCount: period.transactionCount,
+    alertThreshold: period.alertThreshold
+  };
+}
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function isCurrentMonth(start: Date): boolean {
+  return start.getTime() === monthStart(new Date()).getTime();
+}
+
+function monthEnd(start: Date): Date {
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const budgetService = BudgetService.getInstance();
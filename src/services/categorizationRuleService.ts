@@ -0,0 +1,471 @@
+import { CategorizationRule, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export const RULE_FIELDS = ['merchant', 'description', 'cardLast4', 'amount', 'currency', 'transactionType', 'category'] as const;
+export const RULE_OPERATORS = ['contains', 'equals', 'startsWith', 'endsWith', 'gt', 'gte', 'lt', 'lte'] as const;
+
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
+const ruleConditionSchema = z.object({
+  field: z.enum(RULE_FIELDS),
+  operator: z.enum(RULE_OPERATORS),
+  value: z.union([z.string().min(1), z.number().finite()]),
+}).superRefine((condition, ctx) => {
+  const numeric = NUMERIC_OPERATORS.includes(condition.operator);
+  if (condition.field === 'amount') {
+    if (typeof condition.value !== 'number' || !(numeric || condition.operator === 'equals')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'amount conditions need a numeric value and gt, gte, lt, lte or equals' });
+    }
+  } else if (numeric) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.operator} only applies to amount` });
+  }
+});
+
+export const ruleInputSchema = z.object({
+  name: z.string().min(1),
+  userId: z.string().min(1).nullish().transform((value) => value ?? null),
+  priority: z.number().int().default(100),
+  conditions: z.array(ruleConditionSchema).min(1),
+  category: z.string().min(1),
+  isActive: z.boolean().default(true),
+});
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleInput = z.infer<typeof ruleInputSchema>;
+
+type EvaluatedRule = Pick<CategorizationRule, 'id' | 'userId' | 'name' | 'priority' | 'category' | 'createdAt'> & {
+  conditions: RuleCondition[];
+};
+
+export interface RuleSelfTestResult {
+  scenario: string;
+  failures: string[];
+}
+
+export interface RuleChange {
+  transactionId: string;
+  merchantName: string | null;
+  amount: number | null;
+  currency: string | null;
+  transactionDate: Date | null;
+  from: string | null;
+  to: string | null;
+}
+
+const ruleTransactionSelect = {
+  id: true,
+  merchantName: true,
+  merchantCategory: true,
+  categoryRuleId: true,
+  description: true,
+  accountNumber: true,
+  transactionAmount: true,
+  transactionDate: true,
+  currency: true,
+  transactionType: true,
+  metadata: true,
+  merchant: { select: { canonicalName: true } },
+  email: { select: { account: { select: { userId: true } } } }
+} satisfies Prisma.ExtractedDataSelect;
+
+type RuleTransaction = Prisma.ExtractedDataGetPayload<{ select: typeof ruleTransactionSelect }>;
+
+const BATCH_SIZE = 500;
+
+/**
+ * User-defined categorization rules. They run after extraction and override
+ * the AI category; the AI category is kept in metadata.aiCategory so it can
+ * be restored when no rule matches any more.
+ */
+export class CategorizationRuleService {
+  private static instance: CategorizationRuleService;
+
+  static getInstance(): CategorizationRuleService {
+    if (!CategorizationRuleService.instance) {
+      CategorizationRuleService.instance = new CategorizationRuleService();
+    }
+    return CategorizationRuleService.instance;
+  }
+
+  async list(userId?: string) {
+    return prisma.categorizationRule.findMany({
+      where: userId ? { OR: [{ userId }, { userId: null }] } : {},
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  async create(input: RuleInput) {
+    return prisma.categorizationRule.create({
+      data: { ...input, conditions: input.conditions as Prisma.InputJsonValue }
+    });
+  }
+
+  /**
+   * Returns null when the rule does not exist. Categories already set by the
+   * rule only change on the next re-apply.
+   */
+  async update(id: string, input: RuleInput) {
+    const existing = await prisma.categorizationRule.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    return prisma.categorizationRule.update({
+      where: { id },
+      data: { ...input, conditions: input.conditions as Prisma.InputJsonValue }
+    });
+  }
+
+  /**
+   * Delete a rule and re-evaluate the transactions it categorized. They are
+   * re-evaluated without the rule before it is deleted: deleting clears
+   * their categoryRuleId, after which the AI category in metadata would no
+   * longer be restored.
+   */
+  async delete(id: string): Promise<{ recategorized: number } | null> {
+    const existing = await prisma.categorizationRule.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    const affected = await prisma.extractedData.findMany({
+      where: { categoryRuleId: id },
+      select: ruleTransactionSelect
+    });
+
+    const rulesByUser = new Map<string, EvaluatedRule[]>();
+    for (const row of affected) {
+      const userId = row.email.account.userId;
+      let rules = rulesByUser.get(userId);
+      if (!rules) {
+        rules = (await this.loadRules(userId)).filter(rule => rule.id !== id);
+        rulesByUser.set(userId, rules);
+      }
+      await this.store(row, this.evaluate(rules, row));
+    }
+
+    await prisma.categorizationRule.delete({ where: { id } });
+
+    return { recategorized: affected.length };
+  }
+
+  /**
+   * Evaluate the user's rules against an email's extracted data and store
+   * the resulting category
+   */
+  async applyToExtractedData(emailId: string): Promise<{ ruleId: string | null; category: string | null } | null> {
+    const row = await prisma.extractedData.findUnique({ where: { emailId }, select: ruleTransactionSelect });
+    if (!row) return null;
+
+    const rules = await this.loadRules(row.email.account.userId);
+    const rule = this.evaluate(rules, row);
+    await this.store(row, rule);
+
+    return { ruleId: rule?.id ?? null, category: rule ? rule.category : aiCategory(row) };
+  }
+
+  /**
+   * Historic transactions whose category would change if the rule were saved.
+   * Pass the rule id when previewing an edit of an existing rule. Only the
+   * user's own transactions are checked.
+   */
+  async dryRun(input: RuleInput, userId: string, ruleId?: string, limit: number = 100): Promise<{ checked: number; changed: number; changes: RuleChange[] }> {
+    const candidateId = ruleId || 'dry-run';
+    const existing = (await this.loadRules(userId)).filter(rule => rule.id !== candidateId);
+    const candidate: EvaluatedRule = {
+      id: candidateId,
+      userId: input.userId,
+      name: input.name,
+      priority: input.priority,
+      category: input.category,
+      createdAt: new Date(),
+      conditions: input.conditions
+    };
+    const rules = input.isActive ? sortRules([...existing, candidate]) : existing;
+
+    const changes: RuleChange[] = [];
+    let checked = 0;
+    let changed = 0;
+
+    await this.forEachTransaction({ email: { account: { userId } } }, async (row) => {
+      checked++;
+      const rule = this.evaluate(rules, row);
+      const to = rule ? rule.category : aiCategory(row);
+
+      // Only changes caused by this rule, not drift from other rules
+      const involvesCandidate = rule?.id === candidateId || row.categoryRuleId === candidateId;
+      if (involvesCandidate && to !== row.merchantCategory) {
+        changed++;
+        if (changes.length < limit) {
+          changes.push({
+            transactionId: row.id,
+            merchantName: row.merchant?.canonicalName || row.merchantName,
+            amount: row.transactionAmount !== null ? Number(row.transactionAmount) : null,
+            currency: row.currency,
+            transactionDate: row.transactionDate,
+            from: row.merchantCategory,
+            to
+          });
+        }
+      }
+    });
+
+    return { checked, changed, changes };
+  }
+
+  /**
+   * Re-evaluate all rules over stored transactions of an account
+   */
+  async reapply(accountId: string, onProgress?: (checked: number) => Promise<void>): Promise<{ checked: number; changed: number }> {
+    const account = await prisma.emailAccount.findUnique({ where: { id: accountId }, select: { userId: true } });
+    if (!account) {
+      throw new Error(`Email account ${accountId} not found`);
+    }
+
+    const rules = await this.loadRules(account.userId);
+    let checked = 0;
+    let changed = 0;
+
+    await this.forEachTransaction({ email: { accountId } }, async (row) => {
+      checked++;
+      if (await this.store(row, this.evaluate(rules, row))) {
+        changed++;
+      }
+      if (onProgress && checked % BATCH_SIZE === 0) {
+        await onProgress(checked);
+      }
+    });
+
+    logger.info(`Re-applied categorization rules for account ${accountId}: ${changed}/${checked} transactions changed`);
+    return { checked, changed };
+  }
+
+  /**
+   * First matching rule in priority order, or null
+   */
+  evaluate(rules: EvaluatedRule[], row: RuleTransaction): EvaluatedRule | null {
+    return rules.find(rule => rule.conditions.every(condition => matchesCondition(condition, row))) || null;
+  }
+
+  /**
+   * Active rules in priority order: global rules plus the user's own, or
+   * every user's when no user is given
+   */
+  private async loadRules(userId?: string): Promise<EvaluatedRule[]> {
+    const rules = await prisma.categorizationRule.findMany({
+      where: {
+        isActive: true,
+        ...(userId && { OR: [{ userId: null }, { userId }] })
+      }
+    });
+
+    return sortRules(rules.flatMap(rule => {
+      const conditions = z.array(ruleConditionSchema).safeParse(rule.conditions);
+      if (!conditions.success) {
+        logger.warn(`Skipping categorization rule ${rule.id} with invalid conditions`);
+        return [];
+      }
+      return [{ ...rule, conditions: conditions.data }];
+    }));
+  }
+
+  /**
+   * Write the category from a rule (or the restored AI category). Returns
+   * whether anything changed.
+   */
+  private async store(row: RuleTransaction, rule: EvaluatedRule | null): Promise<boolean> {
+    const next = categorize(row, rule);
+    if (!next) return false;
+
+    await prisma.extractedData.update({
+      where: { id: row.id },
+      data: { ...next, metadata: next.metadata as Prisma.InputJsonValue }
+    });
+
+    return true;
+  }
+
+  /**
+   * Run rules over in-memory transactions: creating, applying and deleting
+   * rules must bring back the AI category the transaction started with
+   */
+  selfTest(): RuleSelfTestResult[] {
+    const rule = (id: string, priority: number, category: string, merchant: string): EvaluatedRule => ({
+      id,
+      userId: 'user',
+      name: id,
+      priority,
+      category,
+      createdAt: new Date(0),
+      conditions: [{ field: 'merchant', operator: 'contains', value: merchant }]
+    });
+    const transaction = (): RuleTransaction => ({
+      id: 'transaction',
+      merchantName: 'UBER TRIP',
+      merchantCategory: 'food',
+      categoryRuleId: null,
+      description: null,
+      accountNumber: null,
+      transactionAmount: new Prisma.Decimal(12.5),
+      transactionDate: new Date(0),
+      currency: 'USD',
+      transactionType: 'DEBIT',
+      metadata: {},
+      merchant: null,
+      email: { account: { userId: 'user' } }
+    });
+    // Same steps as applyToExtractedData and delete, without the database
+    const apply = (row: RuleTransaction, rules: EvaluatedRule[]) => Object.assign(row, categorize(row, this.evaluate(rules, row)));
+    const remove = (row: RuleTransaction, rules: EvaluatedRule[], id: string) => {
+      const rest = rules.filter(r => r.id !== id);
+      if (row.categoryRuleId === id) apply(row, rest);
+      return rest;
+    };
+
+    const uber = rule('uber', 1, 'transport', 'uber');
+    const trips = rule('trips', 2, 'travel', 'trip');
+    const scenarios: Array<{ name: string; expected: Array<string | null>; run: () => Array<string | null> }> = [
+      {
+        name: 'create, apply and delete a rule',
+        // Rule category, category after the delete and a re-apply, rule id
+        expected: ['transport', 'food', null],
+        run: () => {
+          const row = transaction();
+          let rules = [uber];
+          apply(row, rules);
+          const applied = row.merchantCategory;
+          rules = remove(row, rules, 'uber');
+          apply(row, rules);
+          return [applied, row.merchantCategory, row.categoryRuleId];
+        }
+      },
+      {
+        name: 'delete the first of two matching rules',
+        // Next rule's category, category after deleting both, rule id
+        expected: ['travel', 'food', null],
+        run: () => {
+          const row = transaction();
+          let rules = [uber, trips];
+          apply(row, rules);
+          rules = remove(row, rules, 'uber');
+          const fallback = row.merchantCategory;
+          rules = remove(row, rules, 'trips');
+          apply(row, rules);
+          return [fallback, row.merchantCategory, row.categoryRuleId];
+        }
+      }
+    ];
+    return scenarios.map(scenario => {
+      const failures = scenario.run().flatMap((value, i) =>
+        value === scenario.expected[i] ? [] : [`step ${i + 1}: expected ${scenario.expected[i]}, got ${value}`]);
+      return { scenario: scenario.name, failures };
+    });
+  }
+
+  private async forEachTransaction(
+    where: Prisma.ExtractedDataWhereInput,
+    handler: (row: RuleTransaction) => Promise<void>
+  ): Promise<void> {
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.extractedData.findMany({
+        where,
+        select: ruleTransactionSelect,
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        await handler(row);
+      }
+
+      cursor = batch[batch.length - 1]!.id;
+    }
+  }
+}
+
+/**
+ * Category, rule and metadata to store for a transaction given the rule that
+ * matched it, or null when nothing changes. The AI category is kept in
+ * metadata while a rule overrides it.
+ */
+function categorize(row: RuleTransaction, rule: EvaluatedRule | null): Pick<RuleTransaction, 'merchantCategory' | 'categoryRuleId' | 'metadata'> | null {
+  const category = rule ? rule.category : aiCategory(row);
+  const ruleId = rule?.id ?? null;
+
+  if (category === row.merchantCategory && ruleId === row.categoryRuleId) {
+    return null;
+  }
+
+  const metadata = { ...((row.metadata as Prisma.JsonObject | null) || {}) };
+  if (rule && !row.categoryRuleId) {
+    metadata.aiCategory = row.merchantCategory;
+  }
+
+  return { merchantCategory: category, categoryRuleId: ruleId, metadata };
+}
+
+/**
+ * Category the AI (or merchant default) assigned, before any rule
+ */
+function aiCategory(row: RuleTransaction): string | null {
+  if (!row.categoryRuleId) {
+    return row.merchantCategory;
+  }
+  const stored = (row.metadata as Prisma.JsonObject | null)?.aiCategory;
+  return typeof stored === 'string' ? stored : null;
+}
+
+function sortRules(rules: EvaluatedRule[]): EvaluatedRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+function matchesCondition(condition: RuleCondition, row: RuleTransaction): boolean {
+  if (condition.field === 'amount') {
+    if (row.transactionAmount === null || typeof condition.value !== 'number') return false;
+    const amount = Number(row.transactionAmount);
+    switch (condition.operator) {
+      case 'gt': return amount > condition.value;
+      case 'gte': return amount >= condition.value;
+      case 'lt': return amount < condition.value;
+      case 'lte': return amount <= condition.value;
+      default: return amount === condition.value;
+    }
+  }
+
+  const values = fieldValues(condition.field, row);
+  const expected = String(condition.value).toLowerCase();
+
+  return values.some(value => {
+    const actual = value.toLowerCase();
+    switch (condition.operator) {
+      case 'contains': return actual.includes(expected);
+      case 'startsWith': return actual.startsWith(expected);
+      case 'endsWith': return actual.endsWith(expected);
+      default: return actual === expected;
+    }
+  });
+}
+
+/**
+ * Values a text condition is checked against; merchant matches either the
+ * raw extracted name or the canonical merchant
+ */
+function fieldValues(field: Exclude<RuleCondition['field'], 'amount'>, row: RuleTransaction): string[] {
+  const values: Array<string | null | undefined> = (() => {
+    switch (field) {
+      case 'merchant': return [row.merchantName, row.merchant?.canonicalName];
+      case 'description': return [row.description];
+      case 'cardLast4': return [row.accountNumber?.replace(/\D/g, '').slice(-4)];
+      case 'currency': return [row.currency];
+      case 'transactionType': return [row.transactionType];
+      case 'category': return [aiCategory(row)];
+    }
+  })();
+
+  return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+export const categorizationRuleService = CategorizationRuleService.getInstance();
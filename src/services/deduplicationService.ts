@@ -0,0 +1,263 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export type DuplicateMatchField =
+  | 'amount'
+  | 'currency'
+  | 'time_window'
+  | 'card_last4'
+  | 'merchant'
+  // Signals that the same alert was sent or forwarded again
+  | 'reference'
+  | 'exact_time'
+  | 'content'
+  | 'forwarded';
+
+export interface DuplicateMatch {
+  canonicalId: string;
+  duplicateId: string;
+  matchedOn: DuplicateMatchField[];
+}
+
+const dedupInclude = {
+  email: { select: { receivedAt: true, subject: true, contentHash: true, account: { select: { userId: true } } } }
+} satisfies Prisma.ExtractedDataInclude;
+
+type DedupRow = Prisma.ExtractedDataGetPayload<{ include: typeof dedupInclude }>;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Card and merchant alone only link rows this close in time; two real purchases
+// at one shop on one card are usually further apart than a re-sent alert
+const CARD_MERCHANT_WINDOW_MS = 60 * MS_PER_MINUTE;
+
+const FORWARDED_SUBJECT = /^\s*(?:fwd?|rv|reenviado)\s*:/i;
+
+/**
+ * Links ExtractedData rows that describe the same real transaction, e.g. a
+ * bank alert and the user's forward of it. The earliest received row is
+ * canonical; the others point at it through duplicateOfId and are left out
+ * of the ledger and its totals.
+ */
+export class DeduplicationService {
+  private static instance: DeduplicationService;
+
+  static getInstance(): DeduplicationService {
+    if (!DeduplicationService.instance) {
+      DeduplicationService.instance = new DeduplicationService();
+    }
+    return DeduplicationService.instance;
+  }
+
+  // Alerts for the same charge can arrive days apart (statement vs. real-time alert)
+  private get windowHours(): number {
+    return parseInt(process.env.DEDUP_WINDOW_HOURS || '48');
+  }
+
+  /**
+   * Compare an email's extracted data with the same user's other transactions
+   * and link it to its canonical row. Returns null when it is unique.
+   */
+  async detect(emailId: string): Promise<DuplicateMatch | null> {
+    const row = await prisma.extractedData.findUnique({ where: { emailId }, include: dedupInclude });
+    if (!row || row.transactionAmount === null || !row.currency) {
+      return null;
+    }
+
+    const when = transactionTime(row);
+    const windowMs = this.windowHours * MS_PER_HOUR;
+    const earliest = new Date(when.getTime() - windowMs);
+    const latest = new Date(when.getTime() + windowMs);
+
+    const candidates = await prisma.extractedData.findMany({
+      where: {
+        id: { not: row.id },
+        duplicateOfId: null,
+        currency: row.currency,
+        transactionAmount: row.transactionAmount,
+        email: { account: { userId: row.email.account.userId } },
+        OR: [
+          { transactionDate: { gte: earliest, lte: latest } },
+          { transactionDate: null, email: { receivedAt: { gte: earliest, lte: latest } } }
+        ]
+      },
+      include: dedupInclude
+    });
+
+    const best = candidates
+      .map(candidate => ({ candidate, matchedOn: this.match(row, candidate) }))
+      .filter((result): result is { candidate: DedupRow; matchedOn: DuplicateMatchField[] } => result.matchedOn !== null)
+      .sort((a, b) =>
+        b.matchedOn.length - a.matchedOn.length ||
+        Math.abs(transactionTime(a.candidate).getTime() - when.getTime()) -
+        Math.abs(transactionTime(b.candidate).getTime() - when.getTime())
+      )[0];
+
+    if (!best) {
+      if (row.duplicateOfId) {
+        await prisma.extractedData.update({ where: { id: row.id }, data: { duplicateOfId: null } });
+      }
+      return null;
+    }
+
+    // The original alert arrives before any forward or re-send of it
+    const rowIsOriginal = row.email.receivedAt < best.candidate.email.receivedAt;
+    const canonical = rowIsOriginal ? row : best.candidate;
+    const duplicate = rowIsOriginal ? best.candidate : row;
+
+    await prisma.$transaction([
+      prisma.extractedData.update({
+        where: { id: canonical.id },
+        data: { duplicateOfId: null }
+      }),
+      prisma.extractedData.updateMany({
+        where: { duplicateOfId: duplicate.id },
+        data: { duplicateOfId: canonical.id }
+      }),
+      prisma.extractedData.update({
+        where: { id: duplicate.id },
+        data: {
+          duplicateOfId: canonical.id,
+          metadata: {
+            ...((duplicate.metadata as Prisma.JsonObject | null) || {}),
+            duplicate: { matchedOn: best.matchedOn, detectedAt: new Date().toISOString() }
+          }
+        }
+      })
+    ]);
+
+    logger.info(`Transaction ${duplicate.id} is a duplicate of ${canonical.id} (${best.matchedOn.join(', ')})`);
+    return { canonicalId: canonical.id, duplicateId: duplicate.id, matchedOn: best.matchedOn };
+  }
+
+  /**
+   * Promote the earliest duplicate before a canonical row goes away, so the
+   * transaction is still counted once
+   */
+  async releaseDuplicates(extractedDataId: string): Promise<void> {
+    const duplicates = await prisma.extractedData.findMany({
+      where: { duplicateOfId: extractedDataId },
+      orderBy: { email: { receivedAt: 'asc' } },
+      select: { id: true }
+    });
+
+    const [promoted, ...rest] = duplicates;
+    if (!promoted) return;
+
+    await prisma.$transaction([
+      prisma.extractedData.update({ where: { id: promoted.id }, data: { duplicateOfId: null } }),
+      prisma.extractedData.updateMany({
+        where: { id: { in: rest.map(duplicate => duplicate.id) } },
+        data: { duplicateOfId: promoted.id }
+      })
+    ]);
+  }
+
+  /**
+   * Run detection over stored transactions in the order they were received.
+   * With `reset` existing links are cleared first.
+   */
+  async detectAll(options: { reset?: boolean; batchSize?: number } = {}): Promise<{ checked: number; duplicates: number }> {
+    if (options.reset) {
+      await prisma.extractedData.updateMany({ where: { duplicateOfId: { not: null } }, data: { duplicateOfId: null } });
+    }
+
+    const batchSize = options.batchSize || 200;
+    let checked = 0;
+    let duplicates = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.extractedData.findMany({
+        where: { transactionAmount: { not: null }, currency: { not: null } },
+        select: { id: true, emailId: true },
+        orderBy: [{ email: { receivedAt: 'asc' } }, { id: 'asc' }],
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        if (await this.detect(row.emailId)) {
+          duplicates++;
+        }
+        checked++;
+      }
+
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    return { checked, duplicates };
+  }
+
+  /**
+   * Fields two same-amount rows agree on, or null when they conflict or do
+   * not look like the same alert. Card, merchant and reference only count
+   * when both rows have them; extraction often misses one. Matching card and
+   * merchant within the hour is enough; otherwise a re-send signal is needed,
+   * since two real purchases at one shop share amount and merchant (two coffees).
+   */
+  private match(a: DedupRow, b: DedupRow): DuplicateMatchField[] | null {
+    const matchedOn: DuplicateMatchField[] = ['amount', 'currency', 'time_window'];
+
+    // Different reference numbers are different transactions
+    const referenceA = a.referenceNumber?.trim();
+    const referenceB = b.referenceNumber?.trim();
+    if (referenceA && referenceB) {
+      if (referenceA !== referenceB) return null;
+      matchedOn.push('reference');
+    }
+
+    const cardA = cardLast4(a.accountNumber);
+    const cardB = cardLast4(b.accountNumber);
+    if (cardA && cardB) {
+      if (cardA !== cardB) return null;
+      matchedOn.push('card_last4');
+    }
+
+    const merchantA = normalizeMerchant(a.merchantName);
+    const merchantB = normalizeMerchant(b.merchantName);
+    if (a.merchantId && a.merchantId === b.merchantId) {
+      matchedOn.push('merchant');
+    } else if (merchantA && merchantB) {
+      if (!merchantA.includes(merchantB) && !merchantB.includes(merchantA)) return null;
+      matchedOn.push('merchant');
+    }
+
+    if (!matchedOn.includes('card_last4') && !matchedOn.includes('merchant')) return null;
+
+    if (sameMinute(a.transactionDate, b.transactionDate)) matchedOn.push('exact_time');
+    if (a.email.contentHash === b.email.contentHash) matchedOn.push('content');
+    if (FORWARDED_SUBJECT.test(a.email.subject) || FORWARDED_SUBJECT.test(b.email.subject)) matchedOn.push('forwarded');
+
+    const cardAndMerchant = matchedOn.includes('card_last4') && matchedOn.includes('merchant')
+      && Math.abs(transactionTime(a).getTime() - transactionTime(b).getTime()) <= CARD_MERCHANT_WINDOW_MS;
+    const resent = matchedOn.some(field => field === 'reference' || field === 'exact_time' || field === 'content' || field === 'forwarded');
+    return cardAndMerchant || resent ? matchedOn : null;
+  }
+}
+
+function transactionTime(row: DedupRow): Date {
+  return row.transactionDate || row.email.receivedAt;
+}
+
+// Dates without a time of day (midnight) say nothing about the minute
+function sameMinute(a: Date | null, b: Date | null): boolean {
+  if (!a || !b || a.getTime() % (24 * MS_PER_HOUR) === 0) return false;
+  return Math.floor(a.getTime() / MS_PER_MINUTE) === Math.floor(b.getTime() / MS_PER_MINUTE);
+}
+
+function cardLast4(accountNumber: string | null): string | null {
+  const digits = accountNumber?.replace(/\D/g, '') || '';
+  return digits.length >= 4 ? digits.slice(-4) : null;
+}
+
+function normalizeMerchant(name: string | null): string | null {
+  const normalized = name?.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '') || '';
+  return normalized.length >= 3 ? normalized : null;
+}
+
+export const deduplicationService = DeduplicationService.getInstance();
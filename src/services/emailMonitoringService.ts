@@ -1,7 +1,8 @@
-import { GmailService, EmailMessage } from './gmailService';
-import { DatabaseOperations, prisma } from '../utils/database';
-import { QueueService } from './queueService';
+import { GmailService } from './gmailService';
+import { gmailSyncService } from './gmailSyncService';
+import { prisma } from '../utils/database';
 import { getWebSocketServiceInstance } from './websocketService';
+import { tokenEncryptionService } from './tokenEncryptionService';
 import { logger } from '../utils/logger';
 
 export interface MonitoringSession {
@@ -16,11 +17,8 @@ export class EmailMonitoringService {
   private static instance: EmailMonitoringService;
   private activeSessions: Map<string, MonitoringSession> = new Map();
   private checkInterval: number = 30000; // 30 seconds
-  private queueService: QueueService;
 
-  private constructor() {
-    this.queueService = QueueService.getInstance();
-  }
+  private constructor() {}
 
   public static getInstance(): EmailMonitoringService {
     if (!EmailMonitoringService.instance) {
@@ -59,7 +57,7 @@ export class EmailMonitoringService {
       });
 
       // Validate credentials (skip for test tokens in development)
-      const isTestToken = account.accessToken.startsWith('test-access-token-');
+      const isTestToken = tokenEncryptionService.decrypt(account.accessToken).startsWith('test-access-token-');
       if (!isTestToken) {
         const isValid = await gmailService.validateCredentials();
         if (!isValid) {
@@ -205,58 +203,21 @@ export class EmailMonitoringService {
     try {
       logger.debug(`Checking for new emails in ${session.gmailAddress}`);
 
-      // Get account from database to check last history ID
-      const account = await prisma.emailAccount.findUnique({
-        where: { id: session.accountId }
-      });
+      const result = await gmailSyncService.syncAccount(session.accountId, gmailService);
 
-      if (!account) {
-        logger.error(`Account ${session.accountId} not found during monitoring`);
-        return;
-      }
+      if (result.stored > 0) {
+        logger.info(`Found ${result.stored} new messages for ${session.gmailAddress} (${result.mode} sync)`);
 
-      // If we have a history ID, check for changes since then
-      if (account.lastHistoryId) {
-        try {
-          const history = await gmailService.getHistory(account.lastHistoryId);
-          
-          if (history.messages.length > 0) {
-            logger.info(`Found ${history.messages.length} new messages for ${session.gmailAddress}`);
-            
-            // Broadcast that we found new emails
-            const wsService = getWebSocketServiceInstance();
-            if (wsService) {
-              wsService.broadcastEmailUpdate({
-                type: 'received',
-                emailId: '',
-                accountId: session.accountId,
-                message: `Found ${history.messages.length} new emails`,
-                data: { count: history.messages.length }
-              });
-            }
-
-            // Process each new message
-            for (const message of history.messages) {
-              await this.processNewEmail(message.id, session, gmailService);
-            }
-
-            // Update last history ID
-            await prisma.emailAccount.update({
-              where: { id: session.accountId },
-              data: { 
-                lastHistoryId: history.historyId,
-                lastSyncAt: new Date()
-              }
-            });
-          }
-        } catch (historyError) {
-          logger.error('Error getting Gmail history:', historyError);
-          // Fall back to listing recent emails
-          await this.fallbackEmailCheck(session, gmailService);
+        const wsService = getWebSocketServiceInstance();
+        if (wsService) {
+          wsService.broadcastEmailUpdate({
+            type: 'received',
+            emailId: '',
+            accountId: session.accountId,
+            message: `Found ${result.stored} new emails`,
+            data: { count: result.stored, mode: result.mode }
+          });
         }
-      } else {
-        // First time - just get recent financial emails
-        await this.fallbackEmailCheck(session, gmailService);
       }
 
       session.lastChecked = new Date();
@@ -266,96 +227,6 @@ export class EmailMonitoringService {
     }
   }
 
-  // Fallback method to check for recent emails when history is unavailable
-  private async fallbackEmailCheck(session: MonitoringSession, gmailService: GmailService): Promise<void> {
-    try {
-      const { messages } = await gmailService.listRecentEmails(15, undefined, 1); // Get 15 emails from last 1 day
-      
-      logger.info(`Fallback check: found ${messages.length} recent emails for ${session.gmailAddress}`);
-      
-      for (const message of messages) {
-        // Check if we already have this email
-        const existing = await prisma.processedEmail.findFirst({
-          where: { gmailId: message.id }
-        });
-        
-        if (!existing) {
-          await this.processNewEmail(message.id, session, gmailService);
-        }
-      }
-    } catch (error) {
-      logger.error('Error in fallback email check:', error);
-    }
-  }
-
-  // Process a newly discovered email
-  private async processNewEmail(messageId: string, session: MonitoringSession, gmailService: GmailService): Promise<void> {
-    try {
-      // Get full email details
-      const emailDetails = await gmailService.getEmailMessage(messageId);
-      
-      // Check if already processed
-      const existing = await prisma.processedEmail.findFirst({
-        where: { gmailId: emailDetails.id }
-      });
-      
-      if (existing) {
-        logger.debug(`Email ${messageId} already processed`);
-        return;
-      }
-
-      // Create processed email record
-      const processedEmail = await DatabaseOperations.createProcessedEmail({
-        emailAccountId: session.accountId,
-        gmailId: emailDetails.id,
-        messageId: emailDetails.messageId,
-        threadId: emailDetails.threadId,
-        subject: emailDetails.subject,
-        sender: emailDetails.from,
-        recipient: emailDetails.to.join(', '),
-        bodyText: emailDetails.body,
-        bodyHtml: '', // We'll enhance this later if needed
-        receivedAt: emailDetails.date,
-        contentHash: gmailService.generateContentHash(emailDetails),
-        bodyPreview: emailDetails.bodyPreview,
-        hasAttachments: emailDetails.hasAttachments,
-        labelIds: emailDetails.labels,
-        processingStatus: 'PENDING'
-      });
-
-      logger.info(`Created processed email record for: ${emailDetails.subject}`);
-
-      // Broadcast new email discovery
-      const wsService = getWebSocketServiceInstance();
-      if (wsService) {
-        wsService.broadcastEmailUpdate({
-          type: 'received',
-          emailId: processedEmail.id,
-          accountId: session.accountId,
-          message: `New email: ${emailDetails.subject}`,
-          data: {
-            subject: emailDetails.subject,
-            sender: emailDetails.from,
-            receivedAt: emailDetails.date
-          }
-        });
-      }
-
-      // Queue for AI processing
-      await this.queueService.addEmailProcessingJob({
-        emailAccountId: session.accountId,
-        emailId: processedEmail.id,
-        processType: 'classify',
-        priority: 1 // High priority for real-time monitoring
-      });
-
-      logger.info(`Queued email ${processedEmail.id} for AI processing`);
-
-    } catch (error) {
-      logger.error(`Error processing new email ${messageId}:`, error);
-    }
-  }
-
   // Get status of all active monitoring sessions
   getActiveMonitoringSessions(): MonitoringSession[] {
     return Array.from(this.activeSessions.values());
@@ -0,0 +1,471 @@
+import { CardStatement, EmailAccount, EmailClassification, ProcessedEmail, TransactionType } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { PerformanceMonitor } from '../utils/performance';
+import { GmailService } from './gmailService';
+import {
+  CardStatementExtraction,
+  EmailClassificationResult,
+  FinancialDataExtraction,
+  openaiService
+} from './openaiService';
+import { reviewService, ReviewReason } from './reviewService';
+import { statementService } from './statementService';
+import { merchantService } from './merchantService';
+import { financialAccountService } from './financialAccountService';
+import { categorizationRuleService } from './categorizationRuleService';
+import { exchangeRateService } from './exchangeRateService';
+import { deduplicationService } from './deduplicationService';
+import { subscriptionService } from './subscriptionService';
+import { budgetService } from './budgetService';
+import { anomalyService } from './anomalyService';
+import { preFilterService } from './preFilterService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export type PipelineStage = 'fetch_body' | 'prefilter' | 'classify' | 'extract' | 'post_process' | 'persist' | 'notify';
+
+export interface PipelineOptions {
+  // Reports progress in percent, e.g. to a queue job
+  onProgress?: ((percent: number) => Promise<unknown>) | undefined;
+}
+
+export interface ClassificationOutcome {
+  classification: EmailClassificationResult;
+  classificationEnum: EmailClassification;
+  shouldExtract: boolean;
+  // Set when the email is final after classification
+  reviewReasons: ReviewReason[];
+}
+
+export interface ExtractionOutcome {
+  extraction: FinancialDataExtraction | CardStatementExtraction;
+  // Set for credit card statements, which are kept out of the transaction ledger
+  statement: CardStatement | null;
+  reviewReasons: ReviewReason[];
+}
+
+export interface PipelineOutcome {
+  classification: ClassificationOutcome;
+  extraction: ExtractionOutcome | null;
+  reviewReasons: ReviewReason[];
+}
+
+const CLASSIFICATION_TIMEOUT_MS = 30000;
+
+const CATEGORY_MAP: Record<string, EmailClassification> = {
+  banking: 'BANKING',
+  credit_card: 'CREDIT_CARD',
+  investment: 'INVESTMENT',
+  payment: 'PAYMENT',
+  subscription: 'SUBSCRIPTION',
+  bill: 'BILL',
+  insurance: 'INSURANCE',
+  tax: 'TAX',
+  loan: 'LOAN',
+  other_financial: 'OTHER',
+  non_financial: 'UNCLASSIFIED'
+};
+
+const TRANSACTION_TYPE_MAP: Record<string, TransactionType> = {
+  debit: 'DEBIT',
+  credit: 'CREDIT',
+  payment: 'PAYMENT',
+  transfer: 'TRANSFER',
+  fee: 'FEE',
+  interest: 'INTEREST',
+  dividend: 'DIVIDEND'
+};
+
+type EmailWithAccount = ProcessedEmail & { account: EmailAccount };
+
+/**
+ * The processing pipeline every entry point runs an email through:
+ * fetch body → classify → extract → post-process → persist → notify.
+ * The queue worker runs classification and extraction as separate jobs;
+ * manual processing runs both in one call. Every stage is timed as an
+ * `email.processing.<stage>` metric. Emails the pre-filter skips in enforce
+ * mode are stored as non-financial without an LLM call.
+ *
+ * A failing stage marks the email FAILED, broadcasts the failure and
+ * rethrows. Post-processing steps only log their errors, so a missing
+ * exchange rate or merchant never fails an otherwise extracted email.
+ */
+export class EmailPipelineService {
+  private static instance: EmailPipelineService;
+
+  static getInstance(): EmailPipelineService {
+    if (!EmailPipelineService.instance) {
+      EmailPipelineService.instance = new EmailPipelineService();
+    }
+    return EmailPipelineService.instance;
+  }
+
+  /**
+   * Classify and, for financial emails, extract in one go
+   */
+  async process(emailId: string, options: PipelineOptions = {}): Promise<PipelineOutcome> {
+    const classification = await this.classify(emailId, options);
+    if (!classification.shouldExtract) {
+      return { classification, extraction: null, reviewReasons: classification.reviewReasons };
+    }
+
+    const extraction = await this.extract(emailId, options);
+    return { classification, extraction, reviewReasons: extraction.reviewReasons };
+  }
+
+  /**
+   * Fetch body, classify, persist the classification and notify. Financial
+   * emails are left CLASSIFIED for extraction; the rest get their final status.
+   */
+  async classify(emailId: string, options: PipelineOptions = {}): Promise<ClassificationOutcome> {
+    const email = await this.loadEmail(emailId);
+
+    try {
+      await prisma.processedEmail.update({
+        where: { id: emailId },
+        data: { processingStatus: 'PROCESSING' }
+      });
+      this.broadcast(email, 'classified', 'Classifying email...');
+      await options.onProgress?.(10);
+
+      const body = await this.stage('fetch_body', emailId, () => this.fetchBody(email));
+      await options.onProgress?.(30);
+
+      // A failing pre-filter never blocks classification
+      const preFilter = await this.stage('prefilter', emailId, () => preFilterService.evaluate(email, body).catch(error => {
+        logger.warn(`Pre-filter failed for email ${emailId}; classifying with the LLM:`, error);
+        return null;
+      }));
+      const skipped = preFilter?.decision === 'SKIP' && !preFilter.shadow;
+      if (skipped) {
+        logger.info(`Pre-filter skipped LLM classification of ${emailId}: ${preFilter.reasons.join(', ')}`);
+      }
+
+      const classification = skipped
+        ? preFilterService.toClassification(preFilter, email.language)
+        : await this.stage('classify', emailId, () => this.classifyContent(email, body));
+      const classificationEnum = this.mapCategory(classification);
+
+      // CRITICAL: CREDIT_CARD emails MUST ALWAYS have extraction attempted
+      const shouldExtract = classification.isFinancial || classificationEnum === 'CREDIT_CARD';
+
+      // Emails that skip extraction are final here, so check them for review now
+      const reviewReasons = shouldExtract ? [] : reviewService.getReviewReasons({
+        classification: classificationEnum,
+        classificationConfidence: classification.confidence
+      });
+      await options.onProgress?.(70);
+
+      await this.stage('persist', emailId, () => prisma.processedEmail.update({
+        where: { id: emailId },
+        data: {
+          processingStatus: shouldExtract ? 'CLASSIFIED' : reviewService.resolveStatus(emailId, reviewReasons),
+          classification: classificationEnum,
+          confidenceScore: classification.confidence,
+          language: classification.language || 'en',
+          classificationPromptVersion: classification.promptVersion ?? null,
+          reviewReasons,
+          preFilterDecision: preFilter?.decision ?? null,
+          preFilterShadow: preFilter?.shadow ?? false,
+          preFilterReasons: preFilter?.reasons ?? []
+        }
+      }));
+      await options.onProgress?.(90);
+
+      await this.stage('notify', emailId, async () => this.broadcast(
+        email,
+        'classified',
+        `Classification completed: ${classification.category} (${Math.round(classification.confidence * 100)}% confidence)`,
+        { classification, isFinancial: classification.isFinancial }
+      ));
+      await options.onProgress?.(100);
+
+      return { classification, classificationEnum, shouldExtract, reviewReasons };
+    } catch (error) {
+      await this.fail(email, 'Classification', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extract a classified financial email, run the post-processing steps on
+   * the stored transaction, persist the final status and notify
+   */
+  async extract(emailId: string, options: PipelineOptions = {}): Promise<ExtractionOutcome> {
+    const email = await this.loadEmail(emailId);
+
+    try {
+      this.broadcast(email, 'extracted', 'Extracting financial data...');
+      await options.onProgress?.(10);
+
+      const body = await this.stage('fetch_body', emailId, () => this.fetchBody(email));
+      await options.onProgress?.(30);
+
+      // Statements summarize a billing cycle and are kept out of the transaction ledger
+      const isStatement = email.classification === 'CREDIT_CARD' && statementService.isStatement(email.subject, body);
+
+      let extraction: FinancialDataExtraction | CardStatementExtraction;
+      let statement: CardStatement | null = null;
+      if (isStatement) {
+        const result = await this.stage('extract', emailId, () => statementService.processStatementEmail(emailId), { statement: true });
+        extraction = result.extraction;
+        statement = result.statement;
+      } else {
+        const transaction = await this.stage('extract', emailId, () => this.extractTransaction(email, body));
+        extraction = transaction;
+        await options.onProgress?.(60);
+
+        await this.stage('post_process', emailId, () => this.postProcess(emailId));
+      }
+      await options.onProgress?.(80);
+
+      // Low confidence or incomplete credit card data goes to the review queue
+      const reviewReasons = reviewService.getReviewReasons({
+        classification: email.classification,
+        classificationConfidence: email.confidenceScore !== null ? Number(email.confidenceScore) : null,
+        isStatement,
+        extraction: isStatement ? { confidence: extraction.confidence } : extraction as FinancialDataExtraction
+      });
+
+      await this.stage('persist', emailId, () => prisma.processedEmail.update({
+        where: { id: emailId },
+        data: {
+          processingStatus: reviewService.resolveStatus(emailId, reviewReasons),
+          extractionPromptVersion: extraction.promptVersion ?? null,
+          reviewReasons
+        }
+      }));
+      await options.onProgress?.(90);
+
+      await this.stage('notify', emailId, async () => {
+        if (statement) {
+          const balance = statement.statementBalance !== null ? `${statement.currency || ''}${statement.statementBalance}` : 'No balance detected';
+          const due = statement.dueDate ? `, due ${statement.dueDate.toISOString().slice(0, 10)}` : '';
+          this.broadcast(email, 'completed', `Statement extracted: ${balance}${due}`, { statement });
+        } else {
+          const transaction = extraction as FinancialDataExtraction;
+          const amount = transaction.amount ? `${transaction.currency}${transaction.amount}` : 'No amount detected';
+          this.broadcast(email, 'completed', `Data extraction completed: ${transaction.merchantName || 'Unknown'} - ${amount}`, { extraction });
+        }
+      });
+      await options.onProgress?.(100);
+
+      return { extraction, statement, reviewReasons };
+    } catch (error) {
+      await this.fail(email, 'Data extraction', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map an AI category to the classification enum. Unknown categories of
+   * financial emails count as OTHER.
+   */
+  mapCategory(classification: Pick<EmailClassificationResult, 'category' | 'isFinancial'>): EmailClassification {
+    const key = classification.category.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    return CATEGORY_MAP[key] ?? (classification.isFinancial ? 'OTHER' : 'UNCLASSIFIED');
+  }
+
+  private async loadEmail(emailId: string): Promise<EmailWithAccount> {
+    const email = await prisma.processedEmail.findUnique({
+      where: { id: emailId },
+      include: { account: true }
+    });
+    if (!email) {
+      throw new Error(`Email ${emailId} not found`);
+    }
+    return email;
+  }
+
+  /**
+   * The stored body, fetched from Gmail and stored when only a preview was synced
+   */
+  private async fetchBody(email: EmailWithAccount): Promise<string> {
+    if (email.bodyText) return email.bodyText;
+
+    logger.info(`Email ${email.id} missing bodyText, fetching from Gmail...`);
+    try {
+      const gmailService = GmailService.withCredentials({
+        accessToken: email.account.accessToken,
+        refreshToken: email.account.refreshToken,
+        ...(email.account.tokenExpiresAt && { expiryDate: email.account.tokenExpiresAt.getTime() })
+      });
+      const message = await gmailService.getEmailMessage(email.gmailId);
+      const body = message.body || email.bodyPreview || '';
+
+      await prisma.processedEmail.update({
+        where: { id: email.id },
+        data: { bodyText: body, bodyPreview: body.substring(0, 500) }
+      });
+      email.bodyText = body;
+
+      logger.info(`Updated email ${email.id} with full bodyText (${body.length} chars)`);
+      return body;
+    } catch (error) {
+      logger.error(`Failed to fetch email content from Gmail for ${email.id}:`, error);
+      return email.bodyPreview || '';
+    }
+  }
+
+  /**
+   * Classify with a timeout; a failed call falls back to UNCLASSIFIED with
+   * low confidence so the email still gets a final status
+   */
+  private async classifyContent(email: EmailWithAccount, body: string): Promise<EmailClassificationResult> {
+    try {
+      return await Promise.race([
+        openaiService.classifyEmail(email.subject, body, email.fromAddress, email.accountId, email.id),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('Classification timeout')), CLASSIFICATION_TIMEOUT_MS)
+        )
+      ]);
+    } catch (error) {
+      logger.error(`Classification failed for email ${email.id}:`, error);
+      return {
+        isFinancial: false,
+        confidence: 0.1,
+        category: 'UNCLASSIFIED',
+        language: 'en',
+        reasoning: `Classification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Extract and store the transaction. CREDIT_CARD emails always get a
+   * record, empty when extraction fails, so they show up for review.
+   */
+  private async extractTransaction(email: EmailWithAccount, body: string): Promise<FinancialDataExtraction> {
+    let extraction: FinancialDataExtraction;
+    try {
+      extraction = await openaiService.extractFinancialData(
+        email.subject,
+        body,
+        email.classification.toLowerCase(),
+        email.accountId,
+        email.id,
+        email.fromAddress
+      );
+    } catch (error) {
+      if (email.classification !== 'CREDIT_CARD') throw error;
+
+      logger.error(`AI extraction failed for email ${email.id}:`, error);
+      extraction = { confidence: 0 };
+    }
+
+    const fields = {
+      transactionAmount: extraction.amount ?? null,
+      currency: extraction.currency ?? null,
+      transactionDate: extraction.date ? new Date(extraction.date) : null,
+      merchantName: extraction.merchantName ?? null,
+      merchantCategory: extraction.category ?? null,
+      accountNumber: extraction.accountNumber ?? null,
+      referenceNumber: extraction.transactionId ?? null,
+      transactionType: (extraction.transactionType && TRANSACTION_TYPE_MAP[extraction.transactionType]) || 'UNKNOWN',
+      description: extraction.description ?? null,
+      extractionScore: extraction.confidence
+    };
+
+    await prisma.extractedData.upsert({
+      where: { emailId: email.id },
+      create: { emailId: email.id, ...fields },
+      update: fields
+    });
+
+    return extraction;
+  }
+
+  /**
+   * Enrich the stored transaction. Each step reads what the previous ones
+   * wrote, so the order matters.
+   */
+  private async postProcess(emailId: string): Promise<void> {
+    // Link the free-text merchant name to the canonical merchant directory
+    await merchantService.normalizeExtractedData(emailId).catch(error =>
+      logger.error(`Merchant normalization failed for email ${emailId}:`, error)
+    );
+
+    // Link the transaction to the card or account it was made with
+    await financialAccountService.discoverFromExtractedData(emailId).catch(error =>
+      logger.error(`Financial account discovery failed for email ${emailId}:`, error)
+    );
+
+    // User rules override the AI category
+    await categorizationRuleService.applyToExtractedData(emailId).catch(error =>
+      logger.error(`Categorization rules failed for email ${emailId}:`, error)
+    );
+
+    // Missing rates leave the converted amounts empty for the backfill to fill later
+    await exchangeRateService.convertExtractedData(emailId).catch(error =>
+      logger.error(`Currency conversion failed for email ${emailId}:`, error)
+    );
+
+    // Forwarded or re-sent alerts are linked to the original transaction
+    await deduplicationService.detect(emailId).catch(error =>
+      logger.error(`Duplicate detection failed for email ${emailId}:`, error)
+    );
+
+    // Regular charges at the same merchant are tracked as subscriptions
+    await subscriptionService.detectForExtractedData(emailId).catch(error =>
+      logger.error(`Subscription detection failed for email ${emailId}:`, error)
+    );
+
+    // Spend against matching budgets, with alerts at 50/80/100%
+    await budgetService.evaluateForExtractedData(emailId).catch(error =>
+      logger.error(`Budget evaluation failed for email ${emailId}:`, error)
+    );
+
+    // Unusual amounts, merchants, currencies or bursts raise an alert
+    await anomalyService.scoreExtractedData(emailId).catch(error =>
+      logger.error(`Anomaly scoring failed for email ${emailId}:`, error)
+    );
+  }
+
+  /**
+   * Run a stage and record its duration, whether it succeeded or not
+   */
+  private async stage<T>(stage: PipelineStage, emailId: string, run: () => Promise<T>, metadata?: Record<string, unknown>): Promise<T> {
+    const start = Date.now();
+    try {
+      const result = await run();
+      await PerformanceMonitor.recordEmailProcessingMetric(stage, Date.now() - start, emailId, true, metadata);
+      return result;
+    } catch (error) {
+      await PerformanceMonitor.recordEmailProcessingMetric(stage, Date.now() - start, emailId, false, {
+        ...metadata,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private async fail(email: EmailWithAccount, step: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`${step} error for email ${email.id}:`, error);
+
+    try {
+      await prisma.processedEmail.update({
+        where: { id: email.id },
+        data: { processingStatus: 'FAILED', errorMessage: message }
+      });
+    } catch (updateError) {
+      logger.error(`Failed to update email ${email.id} status to FAILED:`, updateError);
+    }
+
+    this.broadcast(email, 'failed', `${step} failed: ${message}`);
+  }
+
+  private broadcast(
+    email: EmailWithAccount,
+    type: 'classified' | 'extracted' | 'completed' | 'failed',
+    message: string,
+    data?: Record<string, unknown>
+  ): void {
+    const wsService = getWebSocketServiceInstance();
+    if (wsService) {
+      wsService.broadcastEmailUpdate({ type, emailId: email.id, accountId: email.accountId, message, data });
+    }
+  }
+}
+
+export const emailPipelineService = EmailPipelineService.getInstance();
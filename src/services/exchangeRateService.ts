@@ -0,0 +1,311 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export interface ExchangeRateInput {
+  date: string; // YYYY-MM-DD
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+export interface ConversionResult {
+  amountUSD: number | null;
+  exchangeRate: number | null;
+  userCurrency: string;
+  amountUserCurrency: number | null;
+  userExchangeRate: number | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 10000;
+
+/**
+ * Daily exchange rates stored locally so conversion works offline. Rates are
+ * imported from CSV or JSON files and looked up by transaction date.
+ */
+export class ExchangeRateService {
+  private static instance: ExchangeRateService;
+  // Found rates only; a missing rate may be imported at any time
+  private rateCache: Map<string, { rate: number; loadedAt: number }> = new Map();
+
+  static getInstance(): ExchangeRateService {
+    if (!ExchangeRateService.instance) {
+      ExchangeRateService.instance = new ExchangeRateService();
+    }
+    return ExchangeRateService.instance;
+  }
+
+  // How far back a rate may be used when the exact date is missing (weekends, holidays)
+  private get maxRateAgeDays(): number {
+    return parseInt(process.env.EXCHANGE_RATE_MAX_AGE_DAYS || '7');
+  }
+
+  /**
+   * Parse a rate file. CSV needs a `date,base,quote,rate` header; JSON is an
+   * array of `{ date, base, quote, rate }` or `{ date, base, rates: { XXX: rate } }`.
+   */
+  async parseRateFile(filePath: string): Promise<ExchangeRateInput[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const rates = path.extname(filePath).toLowerCase() === '.json'
+      ? this.parseJson(content)
+      : this.parseCsv(content);
+
+    for (const [index, rate] of rates.entries()) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.date) || !/^[A-Z]{3}$/.test(rate.baseCurrency)
+        || !/^[A-Z]{3}$/.test(rate.quoteCurrency) || !(rate.rate > 0)) {
+        throw new Error(`Invalid exchange rate at entry ${index + 1}: ${JSON.stringify(rate)}`);
+      }
+    }
+
+    return rates;
+  }
+
+  async importRates(rates: ExchangeRateInput[], source: string = 'import'): Promise<number> {
+    for (const rate of rates) {
+      const date = new Date(`${rate.date}T00:00:00Z`);
+      await prisma.exchangeRate.upsert({
+        where: {
+          date_baseCurrency_quoteCurrency: {
+            date,
+            baseCurrency: rate.baseCurrency,
+            quoteCurrency: rate.quoteCurrency
+          }
+        },
+        create: { date, baseCurrency: rate.baseCurrency, quoteCurrency: rate.quoteCurrency, rate: rate.rate, source },
+        update: { rate: rate.rate, source }
+      });
+    }
+
+    this.rateCache.clear();
+    logger.info(`Imported ${rates.length} exchange rates from ${source}`);
+    return rates.length;
+  }
+
+  /**
+   * Rate to convert one unit of `from` into `to` on a date. Uses the direct
+   * pair, its inverse, or a cross rate through USD. Returns null when no rate
+   * is recent enough.
+   */
+  async getRate(from: string, to: string, date: Date): Promise<number | null> {
+    const fromCurrency = from.toUpperCase();
+    const toCurrency = to.toUpperCase();
+    if (fromCurrency === toCurrency) {
+      return 1;
+    }
+
+    const cacheKey = `${fromCurrency}/${toCurrency}/${date.toISOString().split('T')[0]}`;
+    const cached = this.rateCache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.rate;
+    }
+
+    let rate = await this.findPairRate(fromCurrency, toCurrency, date);
+    if (rate === null && fromCurrency !== 'USD' && toCurrency !== 'USD') {
+      const [fromUSD, toQuote] = await Promise.all([
+        this.findPairRate(fromCurrency, 'USD', date),
+        this.findPairRate('USD', toCurrency, date)
+      ]);
+      rate = fromUSD !== null && toQuote !== null ? fromUSD * toQuote : null;
+    }
+
+    if (rate !== null) {
+      this.cacheRate(cacheKey, rate);
+    }
+    return rate;
+  }
+
+  private cacheRate(key: string, rate: number): void {
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    this.rateCache.delete(key);
+    if (this.rateCache.size >= CACHE_MAX_ENTRIES) {
+      const oldest = this.rateCache.keys().next().value;
+      if (oldest !== undefined) this.rateCache.delete(oldest);
+    }
+    this.rateCache.set(key, { rate, loadedAt: Date.now() });
+  }
+
+  /**
+   * Conversion of an amount into USD and the user's currency
+   */
+  async convert(amount: number, currency: string, userCurrency: string, date: Date): Promise<ConversionResult> {
+    const [usdRate, userRate] = await Promise.all([
+      this.getRate(currency, 'USD', date),
+      this.getRate(currency, userCurrency, date)
+    ]);
+
+    return {
+      amountUSD: usdRate !== null ? round(amount * usdRate, 2) : null,
+      exchangeRate: usdRate,
+      userCurrency: userCurrency.toUpperCase(),
+      amountUserCurrency: userRate !== null ? round(amount * userRate, 2) : null,
+      userExchangeRate: userRate,
+    };
+  }
+
+  /**
+   * Fill the conversion columns of an email's extracted data from the rate on
+   * the transaction date (or the received date when none was extracted)
+   */
+  async convertExtractedData(emailId: string): Promise<ConversionResult | null> {
+    const data = await prisma.extractedData.findUnique({
+      where: { emailId },
+      include: { email: { select: { receivedAt: true, account: { select: { user: { select: { currency: true } } } } } } }
+    });
+
+    if (!data || data.transactionAmount === null || !data.currency) {
+      return null;
+    }
+
+    const date = data.transactionDate || data.email.receivedAt;
+    const result = await this.convert(
+      Number(data.transactionAmount),
+      data.currency,
+      data.email.account.user.currency,
+      date
+    );
+
+    if (result.exchangeRate === null || result.userExchangeRate === null) {
+      logger.warn(`Missing exchange rate for ${data.currency} on ${date.toISOString().split('T')[0]} (email ${emailId})`);
+    }
+
+    await prisma.extractedData.update({
+      where: { emailId },
+      data: {
+        amountUSD: result.amountUSD,
+        exchangeRate: result.exchangeRate,
+        userCurrency: result.userCurrency,
+        amountUserCurrency: result.amountUserCurrency,
+        userExchangeRate: result.userExchangeRate
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Convert extracted data in batches. Only rows without a USD amount unless
+   * `all` is set, e.g. after importing corrected rates.
+   */
+  async backfill(options: { all?: boolean; batchSize?: number } = {}): Promise<{ converted: number; missingRate: number }> {
+    const batchSize = options.batchSize || 200;
+    const where: Prisma.ExtractedDataWhereInput = {
+      transactionAmount: { not: null },
+      currency: { not: null },
+      ...(!options.all && { amountUSD: null })
+    };
+
+    let converted = 0;
+    let missingRate = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      // Converted rows drop out of `where`, so page by id instead of a Prisma cursor with skip
+      const batch = await prisma.extractedData.findMany({
+        where: { ...where, ...(cursor && { id: { gt: cursor } }) },
+        select: { id: true, emailId: true },
+        orderBy: { id: 'asc' },
+        take: batchSize
+      });
+
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        const result = await this.convertExtractedData(row.emailId);
+        if (result && result.amountUSD !== null && result.amountUserCurrency !== null) {
+          converted++;
+        } else {
+          missingRate++;
+        }
+      }
+
+      cursor = batch[batch.length - 1]!.id;
+      logger.info(`Exchange rate backfill: ${converted} converted, ${missingRate} missing rates`);
+    }
+
+    return { converted, missingRate };
+  }
+
+  private async findPairRate(base: string, quote: string, date: Date): Promise<number | null> {
+    const day = new Date(`${date.toISOString().split('T')[0]}T00:00:00Z`);
+    const earliest = new Date(day.getTime() - this.maxRateAgeDays * MS_PER_DAY);
+
+    const rows = await prisma.exchangeRate.findMany({
+      where: {
+        OR: [
+          { baseCurrency: base, quoteCurrency: quote },
+          { baseCurrency: quote, quoteCurrency: base }
+        ],
+        date: { gte: earliest, lte: day }
+      },
+      orderBy: { date: 'desc' },
+      take: 2
+    });
+
+    const row = rows[0];
+    if (!row) return null;
+
+    const rate = Number(row.rate);
+    return row.baseCurrency === base ? rate : 1 / rate;
+  }
+
+  private parseCsv(content: string): ExchangeRateInput[] {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    const header = lines.shift()?.toLowerCase().split(',').map(column => column.trim()) || [];
+    const columns = {
+      date: header.indexOf('date'),
+      base: header.indexOf('base'),
+      quote: header.indexOf('quote'),
+      rate: header.indexOf('rate'),
+    };
+
+    if (Object.values(columns).some(index => index < 0)) {
+      throw new Error('CSV header must contain date, base, quote and rate columns');
+    }
+
+    return lines.map(line => {
+      const cells = line.split(',').map(cell => cell.trim());
+      return {
+        date: cells[columns.date] || '',
+        baseCurrency: (cells[columns.base] || '').toUpperCase(),
+        quoteCurrency: (cells[columns.quote] || '').toUpperCase(),
+        rate: parseFloat(cells[columns.rate] || ''),
+      };
+    });
+  }
+
+  private parseJson(content: string): ExchangeRateInput[] {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON rate file must contain an array');
+    }
+
+    return parsed.flatMap((entry: any): ExchangeRateInput[] => {
+      const base = String(entry.base || '').toUpperCase();
+      if (entry.rates && typeof entry.rates === 'object') {
+        return Object.entries(entry.rates).map(([quote, rate]) => ({
+          date: String(entry.date),
+          baseCurrency: base,
+          quoteCurrency: quote.toUpperCase(),
+          rate: Number(rate),
+        }));
+      }
+      return [{
+        date: String(entry.date),
+        baseCurrency: base,
+        quoteCurrency: String(entry.quote || '').toUpperCase(),
+        rate: Number(entry.rate),
+      }];
+    });
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export const exchangeRateService = ExchangeRateService.getInstance();
@@ -0,0 +1,172 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export interface FewShotExample {
+  emailId: string;
+  subject: string;
+  body: string;
+  output: Record<string, unknown>;
+}
+
+type ExampleRow = Prisma.ExtractedDataGetPayload<{ include: { email: { select: { subject: true; bodyText: true; bodyPreview: true; fromAddress: true } } } }>;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const CANDIDATE_LIMIT = 200;
+const EXAMPLE_BODY_LENGTH = 800;
+
+// Forwarded alerts arrive from personal mailboxes, so these domains say
+// nothing about the bank template
+const PERSONAL_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'yahoo.com',
+  'icloud.com',
+]);
+
+/**
+ * Reuses reviewer-corrected extractions as few-shot examples for later emails
+ * from the same sender domain or subject template
+ */
+export class FewShotService {
+  private static instance: FewShotService;
+  private candidateCache: Map<string, { loadedAt: number; rows: ExampleRow[] }> = new Map();
+
+  static getInstance(): FewShotService {
+    if (!FewShotService.instance) {
+      FewShotService.instance = new FewShotService();
+    }
+    return FewShotService.instance;
+  }
+
+  private get maxExamples(): number {
+    return parseInt(process.env.FEW_SHOT_MAX_EXAMPLES || '2');
+  }
+
+  /**
+   * Subject with forwarding prefixes, numbers and amounts removed, so alerts
+   * from the same template share a key
+   */
+  templateKey(subject: string): string {
+    return subject
+      .toLowerCase()
+      .replace(/^((fwd?|rv|re|reenviado)\s*:\s*)+/g, '')
+      .replace(/[\d.,]+/g, '#')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  senderDomain(sender: string): string | null {
+    const match = sender.toLowerCase().match(/@([a-z0-9.-]+)/);
+    if (!match || PERSONAL_MAIL_DOMAINS.has(match[1]!)) {
+      return null;
+    }
+    return match[1]!;
+  }
+
+  /**
+   * Corrected examples matching the email, best matches first. Examples are
+   * limited to the user owning the account so transactions never leak
+   * between users; without an account there are none.
+   */
+  async getExamples(input: {
+    subject: string;
+    sender?: string | undefined;
+    accountId?: string | undefined;
+    excludeEmailId?: string | undefined;
+  }): Promise<FewShotExample[]> {
+    if (this.maxExamples <= 0 || !input.accountId) {
+      return [];
+    }
+
+    const domain = input.sender ? this.senderDomain(input.sender) : null;
+    const template = this.templateKey(input.subject);
+
+    let candidates: ExampleRow[];
+    try {
+      candidates = await this.getCandidates(input.accountId);
+    } catch (error) {
+      logger.error('Failed to load few-shot examples:', error);
+      return [];
+    }
+
+    const scored = candidates
+      .filter(row => row.emailId !== input.excludeEmailId)
+      .map(row => {
+        const sameDomain = domain !== null && this.senderDomain(row.email.fromAddress) === domain;
+        const sameTemplate = this.templateKey(row.email.subject) === template;
+        return { row, score: (sameTemplate ? 2 : 0) + (sameDomain ? 1 : 0) };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, this.maxExamples).map(({ row }) => ({
+      emailId: row.emailId,
+      subject: row.email.subject,
+      body: (row.email.bodyText || row.email.bodyPreview || '').substring(0, EXAMPLE_BODY_LENGTH),
+      output: {
+        amount: row.transactionAmount !== null ? Number(row.transactionAmount) : null,
+        currency: row.currency,
+        date: row.transactionDate ? row.transactionDate.toISOString().split('T')[0] : null,
+        merchantName: row.merchantName,
+        accountNumber: row.accountNumber,
+        transactionId: row.referenceNumber,
+        transactionType: row.transactionType !== 'UNKNOWN' ? row.transactionType.toLowerCase() : null,
+        description: row.description,
+        category: row.merchantCategory,
+      },
+    }));
+  }
+
+  /**
+   * Render examples as a prompt section, or an empty string when there are none
+   */
+  formatExamples(examples: FewShotExample[]): string {
+    if (examples.length === 0) {
+      return '';
+    }
+
+    const sections = examples.map((example, index) => [
+      `Example ${index + 1}:`,
+      `Subject: ${example.subject}`,
+      `Body: ${example.body}`,
+      `Correct output: ${JSON.stringify(example.output)}`,
+    ].join('\n'));
+
+    return `\n\nCORRECTED EXAMPLES FROM SIMILAR EMAILS (follow these formats exactly):\n\n${sections.join('\n\n')}\n`;
+  }
+
+  /**
+   * Drop cached examples so new corrections are used right away
+   */
+  invalidateCache(): void {
+    this.candidateCache.clear();
+  }
+
+  private async getCandidates(accountId: string): Promise<ExampleRow[]> {
+    const cached = this.candidateCache.get(accountId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.rows;
+    }
+
+    const rows = await prisma.extractedData.findMany({
+      where: {
+        isValidated: true,
+        // Only reviewer corrections; approved output already matches the model
+        metadata: { path: ['reviewCorrection'], not: Prisma.AnyNull },
+        email: { account: { user: { emailAccounts: { some: { id: accountId } } } } }
+      },
+      include: { email: { select: { subject: true, bodyText: true, bodyPreview: true, fromAddress: true } } },
+      orderBy: { validatedAt: 'desc' },
+      take: CANDIDATE_LIMIT
+    });
+
+    this.candidateCache.set(accountId, { loadedAt: Date.now(), rows });
+    return rows;
+  }
+}
+
+export const fewShotService = FewShotService.getInstance();
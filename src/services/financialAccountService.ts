@@ -0,0 +1,316 @@
+import { FinancialAccount, FinancialAccountType, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { fewShotService } from './fewShotService';
+import { templateParserRegistry } from './templateParsers';
+
+export interface FinancialAccountChanges {
+  issuer?: string | null | undefined;
+  type?: FinancialAccountType | undefined;
+  currency?: string | null | undefined;
+  nickname?: string | null | undefined;
+}
+
+const UNKNOWN_ISSUER_DOMAIN = 'unknown';
+
+/**
+ * Registry of the user's cards and bank accounts. Accounts are discovered
+ * from the masked account number of each extraction and the alert's issuer,
+ * then linked to the transaction.
+ */
+export class FinancialAccountService {
+  private static instance: FinancialAccountService;
+
+  static getInstance(): FinancialAccountService {
+    if (!FinancialAccountService.instance) {
+      FinancialAccountService.instance = new FinancialAccountService();
+    }
+    return FinancialAccountService.instance;
+  }
+
+  /**
+   * Find or create the account for an email's extracted data, link the
+   * transaction to it and keep the latest balance. Returns the account id,
+   * or null when no card or account number was extracted.
+   */
+  async discoverFromExtractedData(emailId: string): Promise<string | null> {
+    const data = await prisma.extractedData.findUnique({
+      where: { emailId },
+      include: {
+        email: {
+          select: {
+            subject: true,
+            fromAddress: true,
+            bodyPreview: true,
+            receivedAt: true,
+            classification: true,
+            account: { select: { userId: true } }
+          }
+        }
+      }
+    });
+
+    if (!data) {
+      return null;
+    }
+
+    const account = await this.findOrCreate({
+      userId: data.email.account.userId,
+      accountNumber: data.accountNumber,
+      subject: data.email.subject,
+      sender: data.email.fromAddress,
+      classification: data.email.classification,
+      text: `${data.email.subject} ${data.email.bodyPreview || ''}`,
+      currency: data.currency
+    });
+    if (!account) {
+      return null;
+    }
+
+    if (data.balance !== null) {
+      await this.recordBalance(account, data.balance, data.transactionDate || data.email.receivedAt);
+    }
+
+    if (data.financialAccountId !== account.id) {
+      await prisma.extractedData.update({
+        where: { id: data.id },
+        data: { financialAccountId: account.id }
+      });
+    }
+
+    return account.id;
+  }
+
+  /**
+   * Find or create the account an alert belongs to from its masked account
+   * number and issuer. Returns null when there are no last four digits.
+   */
+  async findOrCreate(input: {
+    userId: string;
+    accountNumber: string | null | undefined;
+    subject: string;
+    sender: string;
+    classification: string;
+    text: string;
+    currency: string | null | undefined;
+  }): Promise<FinancialAccount | null> {
+    const last4 = input.accountNumber?.replace(/\D/g, '').slice(-4);
+    if (!last4 || last4.length !== 4) {
+      return null;
+    }
+
+    const issuer = this.identifyIssuer(input.subject, input.sender);
+    const type = this.inferType(input.classification, input.text);
+    const currency = input.currency || null;
+
+    const account = await prisma.financialAccount.upsert({
+      where: { userId_issuerDomain_last4: { userId: input.userId, issuerDomain: issuer.domain, last4 } },
+      create: {
+        userId: input.userId,
+        issuerDomain: issuer.domain,
+        issuer: issuer.name,
+        last4,
+        type,
+        currency
+      },
+      update: {}
+    });
+
+    // Fill gaps discovery could not settle earlier, unless the user edited the account
+    if (!account.isUserEdited && ((account.type === 'UNKNOWN' && type !== 'UNKNOWN') || (!account.currency && currency) || (!account.issuer && issuer.name))) {
+      return prisma.financialAccount.update({
+        where: { id: account.id },
+        data: {
+          ...(account.type === 'UNKNOWN' && { type }),
+          ...(!account.currency && { currency }),
+          ...(!account.issuer && { issuer: issuer.name })
+        }
+      });
+    }
+
+    return account;
+  }
+
+  /**
+   * The user's only account with the issuer of an alert, for emails that do
+   * not mention the card number. Null when there is none or more than one.
+   */
+  async findByIssuer(userId: string, subject: string, sender: string): Promise<FinancialAccount | null> {
+    const issuer = this.identifyIssuer(subject, sender);
+    if (issuer.domain === UNKNOWN_ISSUER_DOMAIN) {
+      return null;
+    }
+
+    const accounts = await prisma.financialAccount.findMany({
+      where: { userId, issuerDomain: issuer.domain },
+      take: 2
+    });
+    return accounts.length === 1 ? accounts[0]! : null;
+  }
+
+  /**
+   * Keep the balance if it is newer than the one stored
+   */
+  async recordBalance(account: FinancialAccount, balance: Prisma.Decimal | number, at: Date): Promise<void> {
+    if (account.balanceUpdatedAt && at < account.balanceUpdatedAt) {
+      return;
+    }
+
+    await prisma.financialAccount.update({
+      where: { id: account.id },
+      data: { latestBalance: balance, balanceUpdatedAt: at }
+    });
+  }
+
+  /**
+   * Link stored extracted data in batches; only unlinked rows unless `all`
+   */
+  async discoverAll(options: { all?: boolean; batchSize?: number } = {}): Promise<{ linked: number }> {
+    const batchSize = options.batchSize || 200;
+    const where: Prisma.ExtractedDataWhereInput = {
+      accountNumber: { not: null },
+      ...(!options.all && { financialAccountId: null })
+    };
+
+    let linked = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      // Linked rows drop out of `where`, so page by id instead of a Prisma cursor with skip
+      const batch = await prisma.extractedData.findMany({
+        where: { ...where, ...(cursor && { id: { gt: cursor } }) },
+        select: { id: true, emailId: true },
+        orderBy: { id: 'asc' },
+        take: batchSize
+      });
+
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        if (await this.discoverFromExtractedData(row.emailId)) {
+          linked++;
+        }
+      }
+
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    logger.info(`Financial account discovery linked ${linked} transactions`);
+    return { linked };
+  }
+
+  async list(userId?: string) {
+    return prisma.financialAccount.findMany({
+      where: userId ? { userId } : {},
+      include: { _count: { select: { transactions: true } } },
+      orderBy: [{ issuer: 'asc' }, { last4: 'asc' }]
+    });
+  }
+
+  async get(id: string) {
+    return prisma.financialAccount.findUnique({
+      where: { id },
+      include: { _count: { select: { transactions: true } } }
+    });
+  }
+
+  /**
+   * Apply user edits. Returns null when the account does not exist.
+   */
+  async update(id: string, changes: FinancialAccountChanges) {
+    const account = await prisma.financialAccount.findUnique({ where: { id } });
+    if (!account) return null;
+
+    return prisma.financialAccount.update({
+      where: { id },
+      data: {
+        ...(changes.issuer !== undefined && { issuer: changes.issuer }),
+        ...(changes.type !== undefined && { type: changes.type }),
+        ...(changes.currency !== undefined && { currency: changes.currency?.toUpperCase() ?? null }),
+        ...(changes.nickname !== undefined && { nickname: changes.nickname }),
+        isUserEdited: true
+      }
+    });
+  }
+
+  /**
+   * Spend per account in the user's currency over a period. Duplicates are
+   * left out like in the ledger totals.
+   */
+  async getSpendSummary(options: { userId?: string | undefined; from?: Date | undefined; to?: Date | undefined }) {
+    const groups = await prisma.extractedData.groupBy({
+      by: ['financialAccountId', 'userCurrency'],
+      where: {
+        financialAccountId: { not: null },
+        duplicateOfId: null,
+        amountUserCurrency: { not: null },
+        transactionType: { in: ['DEBIT', 'FEE', 'INTEREST', 'UNKNOWN'] },
+        ...(options.userId && { financialAccount: { userId: options.userId } }),
+        ...((options.from || options.to) && {
+          transactionDate: {
+            ...(options.from && { gte: options.from }),
+            ...(options.to && { lte: options.to })
+          }
+        })
+      },
+      _sum: { amountUserCurrency: true },
+      _count: { _all: true }
+    });
+
+    const accounts = await prisma.financialAccount.findMany({
+      where: { id: { in: groups.map(group => group.financialAccountId!) } }
+    });
+    const byId = new Map(accounts.map(account => [account.id, account]));
+
+    return groups.flatMap(group => {
+      const account = byId.get(group.financialAccountId!);
+      if (!account) return [];
+      return [{
+        accountId: account.id,
+        issuer: account.issuer,
+        last4: account.last4,
+        nickname: account.nickname,
+        type: account.type,
+        latestBalance: account.latestBalance !== null ? Number(account.latestBalance) : null,
+        balanceUpdatedAt: account.balanceUpdatedAt,
+        currency: group.userCurrency,
+        total: Math.round(Number(group._sum.amountUserCurrency || 0) * 100) / 100,
+        count: group._count._all
+      }];
+    }).sort((a, b) => b.total - a.total);
+  }
+
+  /**
+   * Issuer from the matching bank template (works for forwarded alerts too),
+   * falling back to the sender domain
+   */
+  private identifyIssuer(subject: string, sender: string): { domain: string; name: string | null } {
+    const parser = templateParserRegistry.findParser({ subject, body: '', sender });
+    if (parser) {
+      return { domain: parser.senderDomains[0]!, name: parser.issuer };
+    }
+
+    const domain = fewShotService.senderDomain(sender);
+    if (!domain) {
+      return { domain: UNKNOWN_ISSUER_DOMAIN, name: null };
+    }
+
+    // alerts.bankofamerica.com -> Bankofamerica; the user can rename it
+    const labels = domain.split('.');
+    const label = labels.length > 2 && /^(alerts?|alertas|notificaciones|notify|mail|email|no-?reply)$/.test(labels[0]!)
+      ? labels[1]!
+      : labels[0]!;
+    return { domain, name: label.charAt(0).toUpperCase() + label.slice(1) };
+  }
+
+  private inferType(classification: string, text: string): FinancialAccountType {
+    const lower = text.toLowerCase();
+    if (/d[eé]bito|debit card/.test(lower)) return 'DEBIT_CARD';
+    if (classification === 'CREDIT_CARD' || /cr[eé]dito|credit card/.test(lower)) return 'CREDIT_CARD';
+    if (/ahorros?|savings/.test(lower)) return 'SAVINGS';
+    if (/cuenta corriente|checking/.test(lower)) return 'CHECKING';
+    return 'UNKNOWN';
+  }
+}
+
+export const financialAccountService = FinancialAccountService.getInstance();
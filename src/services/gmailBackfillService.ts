@@ -0,0 +1,333 @@
+import { GmailBackfill, JobStatus, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { GmailService, getGmailErrorStatus } from './gmailService';
+import { gmailFilterService } from './gmailFilterService';
+import { gmailSyncService } from './gmailSyncService';
+import { QueueService } from './queueService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export interface BackfillView {
+  accountId: string;
+  status: JobStatus;
+  since: Date;
+  progress: number; // 0-100
+  estimatedTotal: number;
+  messagesFound: number;
+  messagesStored: number;
+  quotaUsed: number;
+  quotaBudget: number;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export interface BackfillRunResult {
+  // 'skipped' when another run holds the backfill or it is already complete
+  status: JobStatus | 'skipped';
+  stored: number;
+  progress: number;
+}
+
+const PAGE_SIZE = 100;
+
+// Gmail API quota units per call; listing a page and fetching one message cost 5 each
+const LIST_COST = 5;
+const GET_COST = 5;
+const MAX_PAGE_COST = LIST_COST + GET_COST * PAGE_SIZE;
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+
+// A run that has not saved a page for this long is treated as crashed
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+// Behind live mail (1) and the worker's own follow-up jobs (3-5)
+const BACKFILL_PRIORITY = 10;
+
+const backfillInclude = {
+  account: true
+} satisfies Prisma.GmailBackfillInclude;
+
+type BackfillRow = Prisma.GmailBackfillGetPayload<{ include: typeof backfillInclude }>;
+
+/**
+ * Imports the older financial emails of a newly connected account, walking
+ * listFinancialEmails page by page back to GMAIL_BACKFILL_MONTHS. The next
+ * page token is saved after every page, so a backfill picks up where it
+ * stopped after a crash, a failure or a pause. Each account may spend
+ * GMAIL_BACKFILL_QUOTA_PER_HOUR Gmail API units per hour on its backfill;
+ * when the budget runs out the backfill pauses and is requeued for the next
+ * window. Stored messages go through the same path as live mail, so messages
+ * the incremental sync already stored are skipped.
+ */
+export class GmailBackfillService {
+  private static instance: GmailBackfillService;
+
+  static getInstance(): GmailBackfillService {
+    if (!GmailBackfillService.instance) {
+      GmailBackfillService.instance = new GmailBackfillService();
+    }
+    return GmailBackfillService.instance;
+  }
+
+  private get months(): number {
+    return parseInt(process.env.GMAIL_BACKFILL_MONTHS || '12');
+  }
+
+  private get quotaPerHour(): number {
+    return parseInt(process.env.GMAIL_BACKFILL_QUOTA_PER_HOUR || '30000');
+  }
+
+  /**
+   * Queue the backfill of an account. Without `months`, a paused or failed
+   * backfill resumes from its checkpoint and a completed one is left alone;
+   * with `months`, the backfill starts over from the first page.
+   */
+  async start(accountId: string, options: { months?: number | undefined } = {}): Promise<BackfillView> {
+    const existing = await prisma.gmailBackfill.findUnique({ where: { accountId }, include: backfillInclude });
+
+    if (existing && this.isRunning(existing)) {
+      return this.toView(existing);
+    }
+    if (existing?.status === 'COMPLETED' && options.months === undefined) {
+      return this.toView(existing);
+    }
+
+    let backfill: BackfillRow;
+    if (existing && options.months === undefined) {
+      backfill = await prisma.gmailBackfill.update({
+        where: { accountId },
+        data: { status: 'WAITING', error: null },
+        include: backfillInclude
+      });
+    } else {
+      const since = new Date();
+      since.setMonth(since.getMonth() - (options.months ?? this.months));
+
+      const fresh = {
+        status: 'WAITING',
+        since,
+        pageToken: null,
+        query: null,
+        estimatedTotal: 0,
+        messagesFound: 0,
+        messagesStored: 0,
+        error: null,
+        startedAt: null,
+        completedAt: null
+      } as const;
+      backfill = await prisma.gmailBackfill.upsert({
+        where: { accountId },
+        create: { accountId, ...fresh },
+        update: fresh,
+        include: backfillInclude
+      });
+    }
+
+    logger.info(`Queueing backfill of ${backfill.account.gmailAddress} back to ${backfill.since.toISOString()}`);
+    await this.queue(accountId);
+    this.notify(backfill);
+
+    return this.toView(backfill);
+  }
+
+  async getStatus(accountId: string): Promise<BackfillView | null> {
+    const backfill = await prisma.gmailBackfill.findUnique({ where: { accountId }, include: backfillInclude });
+    return backfill ? this.toView(backfill) : null;
+  }
+
+  /**
+   * Run the backfill of an account from its checkpoint until it completes or
+   * the hourly quota budget is spent. Called by the queue worker.
+   */
+  async run(accountId: string, onProgress?: (percent: number) => Promise<void> | void): Promise<BackfillRunResult> {
+    // Claim the backfill so two jobs never page through the same account
+    const { count } = await prisma.gmailBackfill.updateMany({
+      where: {
+        accountId,
+        OR: [
+          { status: { in: ['WAITING', 'PAUSED', 'FAILED'] } },
+          { status: 'ACTIVE', updatedAt: { lt: new Date(Date.now() - STALE_RUN_MS) } }
+        ]
+      },
+      data: { status: 'ACTIVE', error: null }
+    });
+    if (count === 0) {
+      logger.info(`Backfill of account ${accountId} is running elsewhere or already done; skipping`);
+      return { status: 'skipped', stored: 0, progress: 0 };
+    }
+
+    let backfill = await prisma.gmailBackfill.findUniqueOrThrow({ where: { accountId }, include: backfillInclude });
+    const { account } = backfill;
+    const gmail = GmailService.withCredentials({
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      ...(account.tokenExpiresAt && { expiryDate: account.tokenExpiresAt.getTime() })
+    });
+    let stored = 0;
+
+    try {
+      // A page token only continues the query it came from
+      const query = await gmailFilterService.getQuery(account);
+      if (backfill.pageToken && backfill.query !== query) {
+        logger.info(`Search filter of ${account.gmailAddress} changed; backfill lists from the first page again`);
+        backfill = await prisma.gmailBackfill.update({
+          where: { id: backfill.id },
+          data: { pageToken: null, messagesFound: 0 },
+          include: backfillInclude
+        });
+      }
+
+      for (;;) {
+        let { quotaUsed, quotaWindowStartedAt } = backfill;
+        if (Date.now() - quotaWindowStartedAt.getTime() >= QUOTA_WINDOW_MS) {
+          quotaUsed = 0;
+          quotaWindowStartedAt = new Date();
+        }
+
+        // Charged as if every message on the page is new, so the budget is never exceeded
+        if (quotaUsed > 0 && quotaUsed + MAX_PAGE_COST > this.quotaPerHour) {
+          return await this.pause(backfill, quotaUsed, quotaWindowStartedAt, stored);
+        }
+
+        let page;
+        try {
+          page = await gmail.listFinancialEmails(query, PAGE_SIZE, backfill.pageToken ?? undefined, backfill.since);
+        } catch (error) {
+          // Page tokens can expire while a backfill waits; listing again only re-finds stored messages
+          if (backfill.pageToken && getGmailErrorStatus(error) === 400) {
+            logger.warn(`Backfill page token of ${account.gmailAddress} was rejected; listing from the first page`);
+            backfill = await prisma.gmailBackfill.update({
+              where: { id: backfill.id },
+              data: { pageToken: null, messagesFound: 0 },
+              include: backfillInclude
+            });
+            continue;
+          }
+          throw error;
+        }
+
+        const pageStored = await gmailSyncService.storeMessages(
+          account,
+          page.messages.map(message => message.id),
+          gmail,
+          { priority: BACKFILL_PRIORITY, broadcast: false }
+        );
+        stored += pageStored;
+
+        const done = !page.nextPageToken;
+        backfill = await prisma.gmailBackfill.update({
+          where: { id: backfill.id },
+          data: {
+            pageToken: page.nextPageToken ?? null,
+            query,
+            ...(!backfill.pageToken && { estimatedTotal: page.resultSizeEstimate }),
+            messagesFound: { increment: page.messages.length },
+            messagesStored: { increment: pageStored },
+            quotaUsed: quotaUsed + LIST_COST + GET_COST * page.messages.length,
+            quotaWindowStartedAt,
+            startedAt: backfill.startedAt ?? new Date(),
+            ...(done && { status: 'COMPLETED' as const, completedAt: new Date() })
+          },
+          include: backfillInclude
+        });
+
+        const progress = this.progress(backfill);
+        await onProgress?.(progress);
+        this.notify(backfill);
+
+        if (done) {
+          logger.info(`Backfill of ${account.gmailAddress} completed: ${backfill.messagesStored} of ${backfill.messagesFound} messages stored`);
+          return { status: 'COMPLETED', stored, progress };
+        }
+      }
+    } catch (error) {
+      logger.error(`Backfill of ${account.gmailAddress} failed:`, error);
+
+      backfill = await prisma.gmailBackfill.update({
+        where: { id: backfill.id },
+        data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) },
+        include: backfillInclude
+      });
+      this.notify(backfill);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Stop until the quota window ends and queue the continuation for then
+   */
+  private async pause(
+    backfill: BackfillRow,
+    quotaUsed: number,
+    quotaWindowStartedAt: Date,
+    stored: number
+  ): Promise<BackfillRunResult> {
+    const resumeIn = Math.max(0, quotaWindowStartedAt.getTime() + QUOTA_WINDOW_MS - Date.now());
+
+    const paused = await prisma.gmailBackfill.update({
+      where: { id: backfill.id },
+      data: { status: 'PAUSED', quotaUsed, quotaWindowStartedAt },
+      include: backfillInclude
+    });
+    logger.info(`Backfill of ${paused.account.gmailAddress} used its quota budget; resuming in ${Math.ceil(resumeIn / 1000)}s`);
+
+    await this.queue(paused.accountId, resumeIn);
+    this.notify(paused);
+
+    return { status: 'PAUSED', stored, progress: this.progress(paused) };
+  }
+
+  private async queue(accountId: string, delay: number = 0): Promise<void> {
+    const job = await QueueService.getInstance().addEmailProcessingJob({
+      emailAccountId: accountId,
+      processType: 'backfill',
+      priority: BACKFILL_PRIORITY,
+      delay
+    });
+
+    if (!job) {
+      logger.warn(`Could not queue the backfill of account ${accountId}; it continues when started again`);
+    }
+  }
+
+  private isRunning(backfill: GmailBackfill): boolean {
+    return backfill.status === 'ACTIVE' && Date.now() - backfill.updatedAt.getTime() < STALE_RUN_MS;
+  }
+
+  // Share of Gmail's estimate listed so far; 100 only once the last page is done
+  private progress(backfill: GmailBackfill): number {
+    if (backfill.status === 'COMPLETED') return 100;
+    if (backfill.estimatedTotal === 0) return 0;
+    return Math.min(99, Math.round((backfill.messagesFound / backfill.estimatedTotal) * 100));
+  }
+
+  private notify(backfill: BackfillRow): void {
+    const wsService = getWebSocketServiceInstance();
+    if (wsService) {
+      wsService.sendToUser(backfill.account.userId, 'backfill_progress', {
+        gmailAddress: backfill.account.gmailAddress,
+        ...this.toView(backfill)
+      });
+    }
+  }
+
+  private toView(backfill: GmailBackfill): BackfillView {
+    return {
+      accountId: backfill.accountId,
+      status: backfill.status,
+      since: backfill.since,
+      progress: this.progress(backfill),
+      estimatedTotal: backfill.estimatedTotal,
+      messagesFound: backfill.messagesFound,
+      messagesStored: backfill.messagesStored,
+      quotaUsed: backfill.quotaUsed,
+      quotaBudget: this.quotaPerHour,
+      error: backfill.error,
+      startedAt: backfill.startedAt,
+      completedAt: backfill.completedAt
+    };
+  }
+}
+
+export const gmailBackfillService = GmailBackfillService.getInstance();
@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { EmailAccount, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { senderAddress } from '../utils/email';
+import { GmailService, getGmailErrorStatus } from './gmailService';
+
+// Quotes, parentheses and braces would change the structure of the generated query
+const termSchema = z.string().trim().min(1).max(100).regex(/^[^(){}"]+$/, 'must not contain quotes, parentheses or braces');
+const termListSchema = z.array(termSchema).max(100).default([]);
+
+const filterTermsSchema = z.object({
+  senders: termListSchema,
+  keywords: termListSchema,
+});
+
+export const defaultSearchFilterSchema = z.object({
+  allow: filterTermsSchema.default({}),
+  deny: filterTermsSchema.default({}),
+});
+
+export const searchFilterSchema = defaultSearchFilterSchema.extend({
+  // Add the account's terms to the system defaults instead of replacing them
+  inheritDefaults: z.boolean().default(true),
+});
+
+export type DefaultSearchFilter = z.infer<typeof defaultSearchFilterSchema>;
+export type SearchFilter = z.infer<typeof searchFilterSchema>;
+
+export interface ResolvedSearchFilter {
+  filter: DefaultSearchFilter;
+  query: string;
+}
+
+export interface FilterPreview {
+  query: string;
+  estimatedTotal: number;
+  messages: Array<{
+    id: string;
+    subject: string;
+    from: string;
+    receivedAt: Date;
+    alreadyStored: boolean;
+  }>;
+}
+
+export const SEARCH_FILTER_CONFIG_KEY = 'gmail.search_filter';
+
+// Used until defaults are stored in SystemConfig (pnpm gmail:filters --set)
+const BUILT_IN_DEFAULTS: DefaultSearchFilter = {
+  allow: {
+    senders: [
+      '*bank*', '*paypal*', '*stripe*', '*venmo*', '*cashapp*', '*zelle*',
+      '*@amazon.com', '*@apple.com', '*@microsoft.com', '*@netflix.com',
+      '*@discover.com', '*@chase.com', '*@wellsfargo.com', '*@bankofamerica.com',
+      '*@citi.com', '*@americanexpress.com', '*@capitalone.com',
+      '*@bhdleon.com.do', '*@bhd.com.do', '*@banreservas.com', '*@banreservas.com.do',
+      '*@popularenlinea.com', '*@bpd.com.do', '*@qik.do',
+    ],
+    keywords: [
+      'payment', 'transaction', 'invoice', 'receipt', 'statement', 'bill',
+      'withdraw*', 'deposit*', 'transfer*', 'charge*', 'refund*',
+      'pago', 'transacción', 'factura', 'recibo', 'estado de cuenta', 'consumo',
+      'retiro', 'depósito', 'transferencia',
+    ],
+  },
+  deny: { senders: [], keywords: [] },
+};
+
+/**
+ * Gmail search filters that decide which messages the resync and backfill
+ * list. A filter is an allowlist of senders and subject keywords minus a
+ * denylist. System defaults live in SystemConfig; each account can add terms
+ * to them, or replace them, through `searchFilter` in its syncSettings.
+ *
+ * The incremental sync reads every new inbox message from the mailbox
+ * history instead of searching, so only the denylist applies there, checked
+ * with isDenied once a message is fetched.
+ */
+export class GmailFilterService {
+  private static instance: GmailFilterService;
+
+  static getInstance(): GmailFilterService {
+    if (!GmailFilterService.instance) {
+      GmailFilterService.instance = new GmailFilterService();
+    }
+    return GmailFilterService.instance;
+  }
+
+  /**
+   * System default filter, or the built-in one when none is stored or the
+   * stored one is invalid
+   */
+  async getDefaults(): Promise<DefaultSearchFilter> {
+    const config = await prisma.systemConfig.findUnique({ where: { key: SEARCH_FILTER_CONFIG_KEY } });
+    if (!config?.isActive) return BUILT_IN_DEFAULTS;
+
+    try {
+      return defaultSearchFilterSchema.parse(JSON.parse(config.value));
+    } catch (error) {
+      logger.warn(`Ignoring invalid ${SEARCH_FILTER_CONFIG_KEY} system config:`, error);
+      return BUILT_IN_DEFAULTS;
+    }
+  }
+
+  async setDefaults(filter: DefaultSearchFilter): Promise<void> {
+    const value = JSON.stringify(filter);
+    await prisma.systemConfig.upsert({
+      where: { key: SEARCH_FILTER_CONFIG_KEY },
+      create: { key: SEARCH_FILTER_CONFIG_KEY, value, category: 'gmail' },
+      update: { value, isActive: true },
+    });
+  }
+
+  /**
+   * The account's own filter from its syncSettings, or null when it uses the
+   * defaults
+   */
+  getAccountFilter(account: Pick<EmailAccount, 'id' | 'syncSettings'>): SearchFilter | null {
+    const settings = account.syncSettings as Prisma.JsonObject | null;
+    if (!settings?.searchFilter) return null;
+
+    const parsed = searchFilterSchema.safeParse(settings.searchFilter);
+    if (!parsed.success) {
+      logger.warn(`Ignoring invalid search filter of account ${account.id}`);
+      return null;
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Store the account's filter; null goes back to the defaults
+   */
+  async setAccountFilter(accountId: string, filter: SearchFilter | null): Promise<void> {
+    const account = await prisma.emailAccount.findUniqueOrThrow({ where: { id: accountId }, select: { syncSettings: true } });
+    const { searchFilter: _previous, ...settings } = (account.syncSettings ?? {}) as Prisma.JsonObject;
+
+    await prisma.emailAccount.update({
+      where: { id: accountId },
+      data: { syncSettings: filter ? { ...settings, searchFilter: filter } : settings },
+    });
+  }
+
+  /**
+   * Combine an account filter with the defaults into the filter and query
+   * that are searched
+   */
+  async resolve(accountFilter: SearchFilter | null): Promise<ResolvedSearchFilter> {
+    const defaults = await this.getDefaults();
+
+    let filter: DefaultSearchFilter;
+    if (!accountFilter) {
+      filter = defaults;
+    } else if (accountFilter.inheritDefaults) {
+      filter = {
+        allow: {
+          senders: mergeTerms(defaults.allow.senders, accountFilter.allow.senders),
+          keywords: mergeTerms(defaults.allow.keywords, accountFilter.allow.keywords),
+        },
+        deny: {
+          senders: mergeTerms(defaults.deny.senders, accountFilter.deny.senders),
+          keywords: mergeTerms(defaults.deny.keywords, accountFilter.deny.keywords),
+        },
+      };
+    } else {
+      filter = { allow: accountFilter.allow, deny: accountFilter.deny };
+    }
+
+    return { filter, query: this.buildQuery(filter) };
+  }
+
+  /**
+   * Search query for an account's current filter
+   */
+  async getQuery(account: Pick<EmailAccount, 'id' | 'syncSettings'>): Promise<string> {
+    const { query } = await this.resolve(this.getAccountFilter(account));
+    return query;
+  }
+
+  /**
+   * Gmail search query matching any allowed sender or subject keyword and
+   * none of the denied ones. Throws when nothing is allowed, since an empty
+   * query would match the whole mailbox.
+   */
+  buildQuery(filter: DefaultSearchFilter): string {
+    const allowed: string[] = [];
+    if (filter.allow.senders.length > 0) allowed.push(`from:(${anyOf(filter.allow.senders)})`);
+    if (filter.allow.keywords.length > 0) allowed.push(`subject:(${anyOf(filter.allow.keywords)})`);
+    if (allowed.length === 0) {
+      throw new Error('A search filter needs at least one allowed sender or keyword');
+    }
+
+    const parts = [`(${allowed.join(' OR ')})`];
+    if (filter.deny.senders.length > 0) parts.push(`-from:(${anyOf(filter.deny.senders)})`);
+    if (filter.deny.keywords.length > 0) parts.push(`-subject:(${anyOf(filter.deny.keywords)})`);
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Whether a message's sender or subject is on the filter's denylist
+   */
+  isDenied(filter: DefaultSearchFilter, message: { from: string; subject: string }): boolean {
+    const address = senderAddress(message.from);
+    const subject = message.subject.toLowerCase();
+    return filter.deny.senders.some(pattern => wildcardPattern(pattern).test(address))
+      || filter.deny.keywords.some(term => termPattern(term).test(subject));
+  }
+
+  /**
+   * The newest messages a filter would match in the account's mailbox, by
+   * default its current filter. Nothing is stored.
+   */
+  async preview(account: EmailAccount, filter: SearchFilter | null | undefined, limit: number): Promise<FilterPreview> {
+    const { query } = await this.resolve(filter === undefined ? this.getAccountFilter(account) : filter);
+    const gmail = GmailService.withCredentials({
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      ...(account.tokenExpiresAt && { expiryDate: account.tokenExpiresAt.getTime() })
+    });
+
+    const page = await gmail.listFinancialEmails(query, limit);
+    const ids = page.messages.map(message => message.id);
+    const stored = await prisma.processedEmail.findMany({ where: { gmailId: { in: ids } }, select: { gmailId: true } });
+    const storedIds = new Set(stored.map(email => email.gmailId));
+
+    const messages: FilterPreview['messages'] = [];
+    for (const id of ids) {
+      try {
+        const message = await gmail.getEmailMessage(id);
+        messages.push({
+          id,
+          subject: message.subject,
+          from: message.from,
+          receivedAt: message.date,
+          alreadyStored: storedIds.has(id),
+        });
+      } catch (error) {
+        // Deleted since it was listed
+        if (getGmailErrorStatus(error) !== 404) throw error;
+      }
+    }
+
+    return { query, estimatedTotal: page.resultSizeEstimate, messages };
+  }
+}
+
+export const gmailFilterService = GmailFilterService.getInstance();
+
+function mergeTerms(base: string[], extra: string[]): string[] {
+  const seen = new Set(base.map(term => term.toLowerCase()));
+  return [...base, ...extra.filter(term => {
+    const key = term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  })];
+}
+
+function anyOf(terms: string[]): string {
+  return terms.map(term => (/\s/.test(term) ? `"${term}"` : term)).join(' OR ');
+}
+
+// Sender pattern such as *@chase.com or *bank*
+export function wildcardPattern(pattern: string): RegExp {
+  const escaped = pattern.toLowerCase().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+// Whole-word match, where a trailing * in keywords matches any ending
+export function termPattern(term: string): RegExp {
+  const escaped = term.toLowerCase().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '\\p{L}*');
+  return new RegExp(`(?<!\\p{L})${escaped}(?!\\p{L})`, 'u');
+}
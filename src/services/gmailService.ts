@@ -3,6 +3,7 @@ import { OAuth2Client } from 'google-auth-library';
 import { logger } from '../utils/logger';
 import { PerformanceMonitor } from '../utils/performance';
 import { DatabaseOperations } from '../utils/database';
+import { tokenEncryptionService } from './tokenEncryptionService';
 import crypto from 'crypto';
 
 export interface EmailMessage {
@@ -20,6 +21,19 @@ export interface EmailMessage {
   snippet: string;
 }
 
+/**
+ * HTTP status of a failed Gmail API call, also when wrapped as the cause of
+ * one of our errors
+ */
+export function getGmailErrorStatus(error: unknown): number | undefined {
+  const apiError = (error instanceof Error && error.cause ? error.cause : error) as {
+    code?: unknown;
+    response?: { status?: number };
+  } | undefined;
+  const status = apiError?.response?.status ?? Number(apiError?.code);
+  return Number.isFinite(status) ? status : undefined;
+}
+
 export interface GmailCredentials {
   accessToken: string;
   refreshToken: string;
@@ -76,11 +90,11 @@ export class GmailService {
     }
   }
 
-  // Set credentials for API calls
+  // Set credentials for API calls; accepts tokens as stored, encrypted or not
   setCredentials(credentials: GmailCredentials): void {
     this.oauth2Client.setCredentials({
-      access_token: credentials.accessToken,
-      refresh_token: credentials.refreshToken,
+      access_token: tokenEncryptionService.decrypt(credentials.accessToken),
+      refresh_token: tokenEncryptionService.decrypt(credentials.refreshToken),
       expiry_date: credentials.expiryDate,
     });
   }
@@ -102,7 +116,7 @@ export class GmailService {
   }
 
   // Get user's Gmail profile
-  async getUserProfile(): Promise<{ email: string; messagesTotal: number; threadsTotal: number }> {
+  async getUserProfile(): Promise<{ email: string; messagesTotal: number; threadsTotal: number; historyId: string }> {
     try {
       const timer = PerformanceMonitor.timer('gmail.get_profile');
       
@@ -117,6 +131,7 @@ export class GmailService {
         email: profileResponse.data.emailAddress!,
         messagesTotal: profileResponse.data.messagesTotal || 0,
         threadsTotal: profileResponse.data.threadsTotal || 0,
+        historyId: profileResponse.data.historyId!,
       };
     } catch (error) {
       logger.error('Error getting Gmail profile:', error);
@@ -124,10 +139,13 @@ export class GmailService {
     }
   }
 
-  // List messages with financial keywords
+  // List messages matching a search filter query (see gmailFilterService),
+  // optionally only those received after a date
   async listFinancialEmails(
+    query: string,
     maxResults: number = 50,
-    pageToken?: string
+    pageToken?: string,
+    after?: Date
   ): Promise<{
     messages: { id: string; threadId: string }[];
     nextPageToken?: string;
@@ -136,19 +154,12 @@ export class GmailService {
     try {
       const timer = PerformanceMonitor.timer('gmail.list_financial_emails');
       
-      // Financial email query - looks for common financial terms
-      const query = [
-        'from:(*bank* OR *paypal* OR *stripe* OR *venmo* OR *cashapp* OR *zelle*)',
-        'OR subject:(payment OR transaction OR invoice OR receipt OR statement OR bill)',
-        'OR subject:(withdraw* OR deposit* OR transfer* OR charge* OR refund*)',
-        'OR from:(*@amazon.com OR *@apple.com OR *@microsoft.com OR *@netflix.com)',
-        'OR from:(*@discover.com OR *@chase.com OR *@wellsfargo.com OR *@bankofamerica.com)',
-        'OR from:(*@citi.com OR *@americanexpress.com OR *@capitalone.com)'
-      ].join(' ');
+      // after: takes epoch seconds; the query is grouped so it applies to all of its terms
+      const q = after ? `(${query}) after:${Math.floor(after.getTime() / 1000)}` : query;
 
       const response = await this.gmail.users.messages.list({
         userId: 'me',
-        q: query,
+        q,
         maxResults,
         pageToken,
       });
@@ -159,13 +170,13 @@ export class GmailService {
       });
 
       return {
-        messages: response.data.messages || [],
+        messages: (response.data.messages || []).map((message: gmail_v1.Schema$Message) => ({ id: message.id!, threadId: message.threadId! })),
         nextPageToken: response.data.nextPageToken || undefined,
         resultSizeEstimate: response.data.resultSizeEstimate || 0,
       };
     } catch (error) {
       logger.error('Error listing financial emails:', error);
-      throw new Error('Failed to list financial emails');
+      throw new Error('Failed to list financial emails', { cause: error });
     }
   }
 
@@ -261,7 +272,7 @@ export class GmailService {
       };
     } catch (error) {
       logger.error(`Error getting email message ${messageId}:`, error);
-      throw new Error(`Failed to get email message: ${messageId}`);
+      throw new Error(`Failed to get email message: ${messageId}`, { cause: error });
     }
   }
 
@@ -455,36 +466,43 @@ export class GmailService {
     }
   }
 
-  // Get history of changes since historyId
+  // Get messages added to the inbox since historyId, following all pages.
+  // Returns null when Gmail no longer has history that old (404); the
+  // caller then has to resync by listing messages.
   async getHistory(historyId: string): Promise<{
     messages: Array<{ id: string; threadId: string }>;
     historyId: string;
-  }> {
+  } | null> {
     try {
       const timer = PerformanceMonitor.timer('gmail.get_history');
       
-      const response = await this.gmail.users.history.list({
-        userId: 'me',
-        startHistoryId: historyId,
-        historyTypes: ['messageAdded'],
-      });
-
       const messages: Array<{ id: string; threadId: string }> = [];
-      
-      if (response.data.history) {
-        for (const historyItem of response.data.history) {
-          if (historyItem.messagesAdded) {
-            for (const messageAdded of historyItem.messagesAdded) {
-              if (messageAdded.message) {
-                messages.push({
-                  id: messageAdded.message.id!,
-                  threadId: messageAdded.message.threadId!,
-                });
-              }
+      let latestHistoryId = historyId;
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.gmail.users.history.list({
+          userId: 'me',
+          startHistoryId: historyId,
+          historyTypes: ['messageAdded'],
+          labelId: 'INBOX',
+          ...(pageToken && { pageToken }),
+        });
+
+        for (const historyItem of response.data.history || []) {
+          for (const messageAdded of historyItem.messagesAdded || []) {
+            if (messageAdded.message) {
+              messages.push({
+                id: messageAdded.message.id!,
+                threadId: messageAdded.message.threadId!,
+              });
             }
           }
         }
-      }
+
+        latestHistoryId = response.data.historyId || latestHistoryId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
 
       await timer.end({ 
         success: true, 
@@ -494,9 +512,14 @@ export class GmailService {
 
       return {
         messages,
-        historyId: response.data.historyId!,
+        historyId: latestHistoryId,
       };
     } catch (error) {
+      if (getGmailErrorStatus(error) === 404) {
+        logger.warn(`Gmail history ${historyId} has expired`);
+        return null;
+      }
+
       logger.error('Error getting history:', error);
       throw new Error('Failed to get Gmail history');
     }
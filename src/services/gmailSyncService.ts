@@ -0,0 +1,237 @@
+import { EmailAccount } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { senderAddress } from '../utils/email';
+import { GmailService, getGmailErrorStatus } from './gmailService';
+import { DefaultSearchFilter, gmailFilterService } from './gmailFilterService';
+import { QueueService } from './queueService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export interface SyncResult {
+  mode: 'incremental' | 'resync';
+  // Why a resync listed messages instead of reading history
+  reason?: 'no_history' | 'history_expired' | undefined;
+  found: number;
+  stored: number;
+  historyId: string;
+}
+
+export interface StoreOptions {
+  // Queue priority of the classification jobs; higher numbers run later
+  priority?: number | undefined;
+  // Send a 'received' email update per stored message (default true)
+  broadcast?: boolean | undefined;
+  // Skip messages on this filter's denylist, for messages that were not found by searching
+  denyFilter?: DefaultSearchFilter | undefined;
+}
+
+const RESYNC_PAGE_SIZE = 100;
+
+// Resync windows start this much before lastSyncAt to absorb clock skew;
+// messages already stored are skipped
+const RESYNC_OVERLAP_MS = 60 * 60 * 1000;
+
+/**
+ * Incremental Gmail sync per email account. Reads the mailbox history from
+ * the stored historyId; when there is none yet or Gmail has expired it (404),
+ * lists financial emails received since the last sync page by page instead.
+ * History holds every new inbox message, so there only the search filter's
+ * denylist applies; the pre-filter and classification sort out the rest.
+ *
+ * No message is missed: the new historyId is only stored after every message
+ * up to it was stored, and a resync takes its historyId before it starts
+ * listing. No message is stored twice: inserts skip gmail ids that already
+ * exist, and concurrent syncs of one account in this process share a run.
+ */
+export class GmailSyncService {
+  private static instance: GmailSyncService;
+  private running: Map<string, Promise<SyncResult>> = new Map();
+
+  static getInstance(): GmailSyncService {
+    if (!GmailSyncService.instance) {
+      GmailSyncService.instance = new GmailSyncService();
+    }
+    return GmailSyncService.instance;
+  }
+
+  private get initialSyncDays(): number {
+    return parseInt(process.env.GMAIL_INITIAL_SYNC_DAYS || '1');
+  }
+
+  /**
+   * Store the messages that arrived since the last sync and queue them for
+   * classification. A sync already running for the account is joined.
+   */
+  async syncAccount(accountId: string, gmailService?: GmailService): Promise<SyncResult> {
+    const running = this.running.get(accountId);
+    if (running) return running;
+
+    const sync = this.runSync(accountId, gmailService).finally(() => this.running.delete(accountId));
+    this.running.set(accountId, sync);
+    return sync;
+  }
+
+  private async runSync(accountId: string, gmailService?: GmailService): Promise<SyncResult> {
+    const account = await prisma.emailAccount.findUnique({ where: { id: accountId } });
+    if (!account) {
+      throw new Error(`Email account ${accountId} not found`);
+    }
+
+    const gmail = gmailService ?? GmailService.withCredentials({
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      ...(account.tokenExpiresAt && { expiryDate: account.tokenExpiresAt.getTime() })
+    });
+    const startedAt = new Date();
+
+    if (account.lastHistoryId) {
+      const history = await gmail.getHistory(account.lastHistoryId);
+      if (history) {
+        const { filter } = await gmailFilterService.resolve(gmailFilterService.getAccountFilter(account));
+        const stored = await this.storeMessages(account, history.messages.map(message => message.id), gmail, { denyFilter: filter });
+        await this.saveCheckpoint(account, history.historyId, startedAt);
+
+        return { mode: 'incremental', found: history.messages.length, stored, historyId: history.historyId };
+      }
+    }
+
+    return this.resync(account, gmail, startedAt, account.lastHistoryId ? 'history_expired' : 'no_history');
+  }
+
+  /**
+   * List financial emails received since the last sync, following every page
+   */
+  private async resync(
+    account: EmailAccount,
+    gmail: GmailService,
+    startedAt: Date,
+    reason: 'no_history' | 'history_expired'
+  ): Promise<SyncResult> {
+    // Taken first, so mail arriving while listing is read from history next time
+    const { historyId } = await gmail.getUserProfile();
+
+    const since = account.lastSyncAt
+      ? new Date(account.lastSyncAt.getTime() - RESYNC_OVERLAP_MS)
+      : new Date(startedAt.getTime() - this.initialSyncDays * 24 * 60 * 60 * 1000);
+    logger.info(`Resyncing ${account.gmailAddress} from ${since.toISOString()} (${reason})`);
+
+    const query = await gmailFilterService.getQuery(account);
+    let found = 0;
+    let stored = 0;
+    let pageToken: string | undefined;
+    do {
+      const page = await gmail.listFinancialEmails(query, RESYNC_PAGE_SIZE, pageToken, since);
+      found += page.messages.length;
+      stored += await this.storeMessages(account, page.messages.map(message => message.id), gmail);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    await this.saveCheckpoint(account, historyId, startedAt);
+
+    return { mode: 'resync', reason, found, stored, historyId };
+  }
+
+  /**
+   * Store and queue the messages not stored yet. Returns how many were new.
+   * Messages deleted before they could be fetched are skipped; any other
+   * error aborts the sync so the checkpoint is not moved past the message.
+   */
+  async storeMessages(
+    account: EmailAccount,
+    messageIds: string[],
+    gmail: GmailService,
+    options: StoreOptions = {}
+  ): Promise<number> {
+    let stored = 0;
+
+    for (const gmailId of messageIds) {
+      const existing = await prisma.processedEmail.findUnique({ where: { gmailId }, select: { id: true } });
+      if (existing) continue;
+
+      let message;
+      try {
+        message = await gmail.getEmailMessage(gmailId);
+      } catch (error) {
+        if (getGmailErrorStatus(error) === 404) {
+          logger.debug(`Message ${gmailId} was deleted before it could be synced`);
+          continue;
+        }
+        throw error;
+      }
+
+      if (options.denyFilter && gmailFilterService.isDenied(options.denyFilter, message)) {
+        logger.debug(`Skipping message ${gmailId} on the search filter denylist`);
+        continue;
+      }
+
+      // A concurrent sync may have stored the message since the check above
+      const { count } = await prisma.processedEmail.createMany({
+        data: [{
+          accountId: account.id,
+          gmailId: message.id,
+          messageId: message.messageId || `msg_${message.id}`,
+          threadId: message.threadId,
+          subject: message.subject,
+          fromAddress: message.from,
+          senderAddress: senderAddress(message.from),
+          toAddresses: message.to,
+          receivedAt: isNaN(message.date.getTime()) ? new Date() : message.date,
+          contentHash: gmail.generateContentHash(message),
+          bodyPreview: message.bodyPreview,
+          bodyText: message.body,
+          hasAttachments: message.hasAttachments,
+          gmailLabels: message.labels,
+          processingStatus: 'PENDING'
+        }],
+        skipDuplicates: true
+      });
+      if (count === 0) continue;
+
+      const email = await prisma.processedEmail.findUniqueOrThrow({ where: { gmailId }, select: { id: true } });
+      stored++;
+      logger.info(`Created processed email record for: ${message.subject}`);
+
+      const wsService = getWebSocketServiceInstance();
+      if (wsService && options.broadcast !== false) {
+        wsService.broadcastEmailUpdate({
+          type: 'received',
+          emailId: email.id,
+          accountId: account.id,
+          message: `New email: ${message.subject}`,
+          data: {
+            subject: message.subject,
+            sender: message.from,
+            receivedAt: message.date
+          }
+        });
+      }
+
+      // A failed enqueue leaves the email PENDING for process-pending to pick up
+      await QueueService.getInstance().addEmailProcessingJob({
+        emailAccountId: account.id,
+        emailId: email.id,
+        processType: 'classify',
+        priority: options.priority ?? 1 // High priority for real-time monitoring
+      }).catch(error => logger.error(`Failed to queue classification for email ${email.id}:`, error));
+    }
+
+    return stored;
+  }
+
+  /**
+   * Move the account to a new history position. Only applies when no other
+   * sync moved it since this one read it, so it never goes backwards.
+   */
+  private async saveCheckpoint(account: EmailAccount, historyId: string, startedAt: Date): Promise<void> {
+    const { count } = await prisma.emailAccount.updateMany({
+      where: { id: account.id, lastHistoryId: account.lastHistoryId },
+      data: { lastHistoryId: historyId, lastSyncAt: startedAt }
+    });
+
+    if (count === 0) {
+      logger.debug(`History position of ${account.gmailAddress} was moved by another sync; keeping it`);
+    }
+  }
+}
+
+export const gmailSyncService = GmailSyncService.getInstance();
@@ -0,0 +1,136 @@
+import OpenAI from 'openai';
+import { logger } from '../utils/logger';
+
+export type LLMOperation = 'classification' | 'extraction' | 'statement_extraction';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * The raw email fields a completion was rendered from. Network providers only
+ * see the rendered messages; the stub provider answers from these directly.
+ */
+export interface LLMRequestInput {
+  subject: string;
+  body: string;
+  sender?: string;
+  category?: string;
+}
+
+export interface LLMCompletionRequest {
+  operation: LLMOperation;
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  input: LLMRequestInput;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+export type StubResponder = (request: LLMCompletionRequest) => string;
+
+/**
+ * Provider for the OpenAI API and any server that speaks the same chat
+ * completions protocol (llama.cpp server, vLLM, Ollama, ...)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(options: { name: string; apiKey: string; baseURL?: string | undefined; organization?: string | undefined }) {
+    this.name = options.name;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      organization: options.organization,
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name} provider`);
+    }
+
+    return content;
+  }
+}
+
+/**
+ * Deterministic offline provider. Answers are produced by the supplied
+ * responder so CI can run the full pipeline without network access.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  private responder: StubResponder;
+
+  constructor(responder: StubResponder) {
+    this.responder = responder;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    return this.responder(request);
+  }
+}
+
+/**
+ * Build the provider selected by AI_PROVIDER.
+ *
+ * - openai (default): OpenAI API, requires OPENAI_API_KEY
+ * - openai-compatible: local or self-hosted server at AI_BASE_URL
+ * - stub: deterministic offline answers from stubResponder
+ *
+ * Returns null when the selected provider cannot be configured.
+ */
+export function createLLMProvider(stubResponder: StubResponder): LLMProvider | null {
+  const providerName = (process.env.AI_PROVIDER || 'openai').toLowerCase();
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        logger.warn('AI_PROVIDER is "openai" but OPENAI_API_KEY is not set. Set AI_PROVIDER=stub to run offline; falling back to rule-based processing.');
+        return null;
+      }
+      return new OpenAIProvider({
+        name: 'openai',
+        apiKey,
+        organization: process.env.OPENAI_ORGANIZATION_ID || undefined,
+      });
+    }
+
+    case 'openai-compatible': {
+      const baseURL = process.env.AI_BASE_URL;
+      if (!baseURL) {
+        logger.warn('AI_PROVIDER is "openai-compatible" but AI_BASE_URL is not set; falling back to rule-based processing.');
+        return null;
+      }
+      return new OpenAIProvider({
+        name: 'openai-compatible',
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.AI_API_KEY || 'not-needed',
+        baseURL,
+      });
+    }
+
+    case 'stub':
+      return new StubProvider(stubResponder);
+
+    default:
+      logger.warn(`Unknown AI_PROVIDER "${providerName}"; falling back to rule-based processing.`);
+      return null;
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+
+// Models frequently answer `null` for fields they could not find; treat that the
+// same as an omitted field so the parsed result uses `undefined` consistently
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => (value && value.trim().length > 0 ? value : undefined));
+
+// Accept amounts given as strings, both "1,500.00" and the decimal-comma
+// "1.500,00" of Spanish emails. A comma followed by one or two final digits is
+// read as the decimal separator. Blank strings count as a missing amount.
+const numericValue = z.preprocess(
+  (value) => (typeof value === 'string' ? parseAmount(value) : value),
+  z.number().finite().nullable()
+);
+
+function parseAmount(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) return null;
+
+  const normalized = /,\d{1,2}$/.test(trimmed)
+    ? trimmed.replace(/[.\s]/g, '').replace(',', '.')
+    : trimmed.replace(/,/g, '');
+  return Number(normalized);
+}
+
+const confidenceValue = z.preprocess(
+  (value) => (typeof value === 'string' ? Number(value) : value),
+  z.number().min(0).max(1)
+);
+
+export const emailClassificationSchema = z.object({
+  isFinancial: z.boolean(),
+  confidence: confidenceValue,
+  category: z.string().min(1),
+  subcategory: optionalString,
+  language: z.string().min(2).default('en'),
+  currency: optionalString,
+  reasoning: z.string().default('AI classification'),
+});
+
+export const transactionTypes = ['debit', 'credit', 'payment', 'transfer', 'fee', 'interest'] as const;
+
+export const financialDataExtractionSchema = z.object({
+  amount: numericValue.nullish().transform((value) => value ?? undefined),
+  currency: optionalString,
+  date: optionalString,
+  merchantName: optionalString,
+  accountNumber: optionalString,
+  transactionId: optionalString,
+  transactionType: z
+    .preprocess(
+      (value) => (typeof value === 'string' ? value.toLowerCase().trim() : value),
+      z.enum(transactionTypes)
+    )
+    .nullish()
+    .transform((value) => value ?? undefined),
+  description: optionalString,
+  category: optionalString,
+  confidence: confidenceValue,
+});
+
+const optionalAmount = numericValue.nullish().transform((value) => value ?? undefined);
+
+export const cardStatementExtractionSchema = z.object({
+  statementBalance: optionalAmount,
+  minimumPayment: optionalAmount,
+  creditLimit: optionalAmount,
+  newCharges: optionalAmount,
+  dueDate: optionalString,
+  cycleStart: optionalString,
+  cycleEnd: optionalString,
+  currency: optionalString,
+  accountNumber: optionalString,
+  confidence: confidenceValue,
+});
+
+export type ValidationFailureKind = 'parse' | 'schema';
+
+export interface SchemaValidationResult<T> {
+  success: boolean;
+  data?: T;
+  kind?: ValidationFailureKind;
+  issues: string[];
+}
+
+/**
+ * Pull the JSON object out of a model response that may be wrapped in code
+ * fences or surrounded by explanatory text
+ */
+export function extractJsonString(result: string): string {
+  let jsonString = result.trim();
+
+  // Look for JSON block markers
+  const jsonMatch = jsonString.match(/```json\s*(.*?)\s*```/s) ||
+                   jsonString.match(/```\s*(.*?)\s*```/s) ||
+                   jsonString.match(/\{.*\}/s);
+
+  if (jsonMatch) {
+    jsonString = jsonMatch[1] || jsonMatch[0];
+  }
+
+  // Try to find just the JSON object
+  const braceStart = jsonString.indexOf('{');
+  const braceEnd = jsonString.lastIndexOf('}');
+
+  if (braceStart >= 0 && braceEnd > braceStart) {
+    jsonString = jsonString.substring(braceStart, braceEnd + 1);
+  }
+
+  return jsonString;
+}
+
+/**
+ * Parse a raw model response and validate it against a schema
+ */
+export function validateLLMResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  result: string
+): SchemaValidationResult<z.output<S>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonString(result));
+  } catch (error) {
+    return {
+      success: false,
+      kind: 'parse',
+      issues: [error instanceof Error ? error.message : 'Response is not valid JSON'],
+    };
+  }
+
+  const validation = schema.safeParse(parsed);
+  if (!validation.success) {
+    return {
+      success: false,
+      kind: 'schema',
+      issues: validation.error.issues.map(
+        (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+      ),
+    };
+  }
+
+  return { success: true, data: validation.data, issues: [] };
+}
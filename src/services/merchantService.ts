@@ -0,0 +1,421 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { subscriptionService } from './subscriptionService';
+
+export interface MerchantMatch {
+  merchantId: string;
+  canonicalName: string;
+  defaultCategory: string | null;
+  matchedBy: 'alias' | 'fuzzy' | 'created';
+}
+
+interface AliasEntry {
+  merchantId: string;
+  normalizedKey: string;
+}
+
+// Words that describe the kind of business rather than which one it is
+const GENERIC_WORDS = new Set([
+  'supermercado', 'supermercados', 'super', 'sup', 'farmacia', 'farmacias', 'estacion', 'gasolinera',
+  'combustible', 'tienda', 'tiendas', 'restaurante', 'restaurant', 'store', 'shop', 'market',
+  'sa', 'srl', 'sas', 'inc', 'llc', 'ltd', 'corp', 'co', 'the', 'de', 'del', 'la', 'el', 'los', 'las',
+  'sucursal', 'suc', 'www', 'com',
+]);
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Canonical merchant directory. Raw merchant names from extraction are
+ * normalized to a key ("SUP NACIONAL #12" -> "nacional") and resolved to a
+ * Merchant through its aliases, falling back to fuzzy matching on the key.
+ */
+export class MerchantService {
+  private static instance: MerchantService;
+  private aliasCache: { loadedAt: number; aliases: AliasEntry[] } | null = null;
+
+  static getInstance(): MerchantService {
+    if (!MerchantService.instance) {
+      MerchantService.instance = new MerchantService();
+    }
+    return MerchantService.instance;
+  }
+
+  private get matchThreshold(): number {
+    return parseFloat(process.env.MERCHANT_MATCH_THRESHOLD || '0.85');
+  }
+
+  /**
+   * Matching key for a raw merchant name: accents, store numbers, punctuation
+   * and generic business words removed, remaining words sorted
+   */
+  normalizeKey(name: string): string {
+    const tokens = name
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/(#|\bno\.?|\bnum\.?)\s*\d+/g, ' ')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter(token => token && !/^\d+$/.test(token));
+
+    const distinctive = tokens.filter(token => !GENERIC_WORDS.has(token));
+    return (distinctive.length > 0 ? distinctive : tokens).sort().join(' ');
+  }
+
+  /**
+   * Find or create the merchant for a raw name. New spellings that match
+   * fuzzily are added as aliases so the next lookup is exact.
+   */
+  async resolve(rawName: string, category?: string | null): Promise<MerchantMatch | null> {
+    const key = this.normalizeKey(rawName);
+    if (!key) {
+      return null;
+    }
+
+    const alias = await prisma.merchantAlias.findUnique({
+      where: { normalizedKey: key },
+      include: { merchant: true }
+    });
+    if (alias) {
+      return this.toMatch(alias.merchant, 'alias');
+    }
+
+    const fuzzy = await this.findFuzzy(key);
+    if (fuzzy) {
+      const merchant = await prisma.merchant.findUnique({ where: { id: fuzzy.merchantId } });
+      if (merchant) {
+        await this.addAlias(merchant.id, rawName, key);
+        logger.debug(`Merchant "${rawName}" fuzzy matched ${merchant.canonicalName} (${fuzzy.score.toFixed(2)})`);
+        return this.toMatch(merchant, 'fuzzy');
+      }
+    }
+
+    const merchant = await prisma.merchant.create({
+      data: {
+        canonicalName: await this.uniqueCanonicalName(displayName(rawName)),
+        defaultCategory: category || null,
+        aliases: { create: { alias: rawName, normalizedKey: key } }
+      }
+    });
+    this.invalidateCache();
+
+    return this.toMatch(merchant, 'created');
+  }
+
+  /**
+   * Link an email's extracted data to its canonical merchant. The merchant's
+   * default category fills in a missing extracted category.
+   */
+  async normalizeExtractedData(emailId: string): Promise<MerchantMatch | null> {
+    const data = await prisma.extractedData.findUnique({
+      where: { emailId },
+      select: { id: true, merchantName: true, merchantCategory: true }
+    });
+
+    if (!data?.merchantName) {
+      return null;
+    }
+
+    const match = await this.resolve(data.merchantName, data.merchantCategory);
+    if (!match) {
+      return null;
+    }
+
+    await prisma.extractedData.update({
+      where: { id: data.id },
+      data: {
+        merchantId: match.merchantId,
+        ...(!data.merchantCategory && match.defaultCategory && { merchantCategory: match.defaultCategory })
+      }
+    });
+
+    return match;
+  }
+
+  /**
+   * Normalize stored extracted data in batches; only unlinked rows unless `all`
+   */
+  async normalizeAll(options: { all?: boolean; batchSize?: number } = {}): Promise<{ linked: number; created: number }> {
+    const batchSize = options.batchSize || 200;
+    const where: Prisma.ExtractedDataWhereInput = {
+      merchantName: { not: null },
+      ...(!options.all && { merchantId: null })
+    };
+
+    let linked = 0;
+    let created = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      // Linked rows drop out of `where`, so page by id instead of a Prisma cursor with skip
+      const batch = await prisma.extractedData.findMany({
+        where: { ...where, ...(cursor && { id: { gt: cursor } }) },
+        select: { id: true, emailId: true },
+        orderBy: { id: 'asc' },
+        take: batchSize
+      });
+
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        const match = await this.normalizeExtractedData(row.emailId);
+        if (match) {
+          linked++;
+          if (match.matchedBy === 'created') created++;
+        }
+      }
+
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    return { linked, created };
+  }
+
+  /**
+   * Merchants the user has transactions with; counts only cover the user's
+   * transactions
+   */
+  async list(userId: string, options: { search?: string | undefined; limit: number; offset: number }) {
+    const userTransactions = userTransactionsWhere(userId);
+    const where: Prisma.MerchantWhereInput = {
+      transactions: { some: userTransactions },
+      ...(options.search && {
+        OR: [
+          { canonicalName: { contains: options.search, mode: 'insensitive' } },
+          { aliases: { some: { alias: { contains: options.search, mode: 'insensitive' } } } }
+        ]
+      })
+    };
+
+    const [merchants, total] = await Promise.all([
+      prisma.merchant.findMany({
+        where,
+        include: { _count: { select: { aliases: true, transactions: { where: userTransactions } } } },
+        orderBy: { canonicalName: 'asc' },
+        take: options.limit,
+        skip: options.offset
+      }),
+      prisma.merchant.count({ where })
+    ]);
+
+    return { merchants, total };
+  }
+
+  /**
+   * A merchant the user has transactions with, or null
+   */
+  async get(id: string, userId: string) {
+    const userTransactions = userTransactionsWhere(userId);
+    return prisma.merchant.findFirst({
+      where: { id, transactions: { some: userTransactions } },
+      include: {
+        aliases: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { transactions: { where: userTransactions } } }
+      }
+    });
+  }
+
+  async findByName(canonicalName: string) {
+    return prisma.merchant.findUnique({ where: { canonicalName } });
+  }
+
+  /**
+   * Rename a merchant or change its default category. Returns null when the
+   * merchant does not exist.
+   */
+  async update(id: string, changes: { canonicalName?: string | undefined; defaultCategory?: string | null | undefined }) {
+    const merchant = await prisma.merchant.findUnique({ where: { id } });
+    if (!merchant) return null;
+
+    return prisma.merchant.update({
+      where: { id },
+      data: {
+        ...(changes.canonicalName !== undefined && { canonicalName: changes.canonicalName }),
+        ...(changes.defaultCategory !== undefined && { defaultCategory: changes.defaultCategory })
+      }
+    });
+  }
+
+  /**
+   * Fold the source merchants into the target: their aliases, transactions
+   * and budgets move over and the sources are deleted. Returns null when any
+   * merchant is missing.
+   */
+  async merge(targetId: string, sourceIds: string[]): Promise<{ merchantId: string; relinked: number; aliasesMoved: number } | null> {
+    const ids = sourceIds.filter(id => id !== targetId);
+    const found = await prisma.merchant.count({ where: { id: { in: [targetId, ...ids] } } });
+    if (found !== ids.length + 1) {
+      return null;
+    }
+
+    const [relinked, aliasesMoved] = await prisma.$transaction([
+      prisma.extractedData.updateMany({ where: { merchantId: { in: ids } }, data: { merchantId: targetId } }),
+      prisma.merchantAlias.updateMany({ where: { merchantId: { in: ids } }, data: { merchantId: targetId } }),
+      prisma.budget.updateMany({ where: { merchantId: { in: ids } }, data: { merchantId: targetId } }),
+      prisma.merchant.deleteMany({ where: { id: { in: ids } } })
+    ]);
+
+    this.invalidateCache();
+    await subscriptionService.detectAll({ merchantIds: [targetId] }).catch(error =>
+      logger.error(`Subscription detection failed after merging into merchant ${targetId}:`, error)
+    );
+    logger.info(`Merged merchants ${ids.join(', ')} into ${targetId}: ${relinked.count} transactions re-linked`);
+
+    return { merchantId: targetId, relinked: relinked.count, aliasesMoved: aliasesMoved.count };
+  }
+
+  /**
+   * Move some aliases of a merchant to a new merchant, together with the
+   * transactions whose merchant name normalizes to those aliases. Returns an
+   * error when the aliases do not belong to the merchant.
+   */
+  async split(
+    merchantId: string,
+    input: { aliasIds: string[]; canonicalName: string; defaultCategory?: string | null | undefined }
+  ): Promise<{ merchant?: { id: string; canonicalName: string }; relinked?: number; error?: string } | null> {
+    const merchant = await prisma.merchant.findUnique({ where: { id: merchantId }, include: { aliases: true } });
+    if (!merchant) return null;
+
+    const moving = merchant.aliases.filter(alias => input.aliasIds.includes(alias.id));
+    if (moving.length !== input.aliasIds.length) {
+      return { error: 'All aliases must belong to the merchant being split' };
+    }
+    if (moving.length === merchant.aliases.length) {
+      return { error: 'At least one alias must stay with the original merchant' };
+    }
+
+    const movingKeys = new Set(moving.map(alias => alias.normalizedKey));
+    const transactions = await prisma.extractedData.findMany({
+      where: { merchantId },
+      select: { id: true, merchantName: true }
+    });
+    const transactionIds = transactions
+      .filter(row => row.merchantName && movingKeys.has(this.normalizeKey(row.merchantName)))
+      .map(row => row.id);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const newMerchant = await tx.merchant.create({
+        data: {
+          canonicalName: input.canonicalName,
+          defaultCategory: input.defaultCategory ?? merchant.defaultCategory
+        }
+      });
+      await tx.merchantAlias.updateMany({
+        where: { id: { in: moving.map(alias => alias.id) } },
+        data: { merchantId: newMerchant.id }
+      });
+      await tx.extractedData.updateMany({
+        where: { id: { in: transactionIds } },
+        data: { merchantId: newMerchant.id }
+      });
+      return newMerchant;
+    });
+
+    this.invalidateCache();
+    await subscriptionService.detectAll({ merchantIds: [merchantId, created.id] }).catch(error =>
+      logger.error(`Subscription detection failed after splitting merchant ${merchantId}:`, error)
+    );
+    logger.info(`Split ${moving.length} aliases of ${merchant.canonicalName} into ${created.canonicalName}`);
+
+    return { merchant: { id: created.id, canonicalName: created.canonicalName }, relinked: transactionIds.length };
+  }
+
+  invalidateCache(): void {
+    this.aliasCache = null;
+  }
+
+  private async findFuzzy(key: string): Promise<{ merchantId: string; score: number } | null> {
+    const threshold = this.matchThreshold;
+    let best: { merchantId: string; score: number } | null = null;
+
+    for (const alias of await this.getAliases()) {
+      const score = similarity(key, alias.normalizedKey);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { merchantId: alias.merchantId, score };
+      }
+    }
+
+    return best;
+  }
+
+  private async getAliases(): Promise<AliasEntry[]> {
+    if (this.aliasCache && Date.now() - this.aliasCache.loadedAt < CACHE_TTL_MS) {
+      return this.aliasCache.aliases;
+    }
+
+    const aliases = await prisma.merchantAlias.findMany({
+      select: { merchantId: true, normalizedKey: true }
+    });
+    this.aliasCache = { loadedAt: Date.now(), aliases };
+    return aliases;
+  }
+
+  private async addAlias(merchantId: string, alias: string, normalizedKey: string): Promise<void> {
+    await prisma.merchantAlias.upsert({
+      where: { normalizedKey },
+      create: { merchantId, alias, normalizedKey },
+      update: {}
+    });
+    this.aliasCache?.aliases.push({ merchantId, normalizedKey });
+  }
+
+  private async uniqueCanonicalName(name: string): Promise<string> {
+    let candidate = name;
+    for (let suffix = 2; await prisma.merchant.findUnique({ where: { canonicalName: candidate } }); suffix++) {
+      candidate = `${name} (${suffix})`;
+    }
+    return candidate;
+  }
+
+  private toMatch(
+    merchant: { id: string; canonicalName: string; defaultCategory: string | null },
+    matchedBy: MerchantMatch['matchedBy']
+  ): MerchantMatch {
+    return {
+      merchantId: merchant.id,
+      canonicalName: merchant.canonicalName,
+      defaultCategory: merchant.defaultCategory,
+      matchedBy
+    };
+  }
+}
+
+/**
+ * Title-cased raw name without store numbers, used for new merchants
+ */
+function displayName(rawName: string): string {
+  return rawName
+    .replace(/(#|\bno\.?|\bnum\.?)\s*\d+/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+    .replace(/(^|\s)\S/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Levenshtein similarity between 0 and 1
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1]! + 1, previous[j]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length]! / longest;
+}
+
+export const merchantService = MerchantService.getInstance();
+
+function userTransactionsWhere(userId: string): Prisma.ExtractedDataWhereInput {
+  return { email: { account: { userId } } };
+}
@@ -1,59 +1,83 @@
-import OpenAI from 'openai';
+import { z } from 'zod';
 import { logger } from '../utils/logger';
 import { OpenAIMetrics } from '../utils/database';
 import { promptService } from './promptService';
+import { fewShotService } from './fewShotService';
+import { templateParserRegistry } from './templateParsers';
+import { createLLMProvider, LLMCompletionRequest, LLMProvider } from './llmProvider';
+import {
+  cardStatementExtractionSchema,
+  emailClassificationSchema,
+  financialDataExtractionSchema,
+  validateLLMResponse,
+  SchemaValidationResult,
+} from './llmSchemas';
 
 export interface EmailClassificationResult {
   isFinancial: boolean;
   confidence: number;
   category: string;
-  subcategory?: string;
+  subcategory?: string | undefined;
   language: string;
-  currency?: string;
+  currency?: string | undefined;
   reasoning: string;
+  promptVersion?: string | undefined; // Prompt version that produced this result
 }
 
 export interface FinancialDataExtraction {
-  amount?: number;
-  currency?: string;
-  date?: string;
-  merchantName?: string;
-  accountNumber?: string;
-  transactionId?: string;
-  transactionType?: 'debit' | 'credit' | 'payment' | 'transfer' | 'fee' | 'interest';
-  description?: string;
-  category?: string;
+  amount?: number | undefined;
+  currency?: string | undefined;
+  date?: string | undefined;
+  merchantName?: string | undefined;
+  accountNumber?: string | undefined;
+  transactionId?: string | undefined;
+  transactionType?: 'debit' | 'credit' | 'payment' | 'transfer' | 'fee' | 'interest' | undefined;
+  description?: string | undefined;
+  category?: string | undefined;
   confidence: number;
+  promptVersion?: string | undefined; // Prompt version that produced this result
 }
 
+export interface CardStatementExtraction {
+  statementBalance?: number | undefined;
+  minimumPayment?: number | undefined;
+  creditLimit?: number | undefined;
+  newCharges?: number | undefined;
+  dueDate?: string | undefined;
+  cycleStart?: string | undefined;
+  cycleEnd?: string | undefined;
+  currency?: string | undefined;
+  accountNumber?: string | undefined;
+  confidence: number;
+  promptVersion?: string | undefined; // Prompt version that produced this result
+}
+
+const MONTHS: Record<string, number> = {
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6, july: 7, august: 8,
+  september: 9, october: 10, november: 11, december: 12,
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7, agosto: 8,
+  septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+};
+
 export class OpenAIService {
-  private client: OpenAI;
-  private isConfigured: boolean = false;
+  private provider: LLMProvider | null;
 
   constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
-      logger.warn('OpenAI API key not configured. AI features will be disabled.');
-      this.isConfigured = false;
-      return;
-    }
+    this.provider = createLLMProvider((request) => this.stubResponse(request));
 
-    try {
-      this.client = new OpenAI({
-        apiKey,
-        organization: process.env.OPENAI_ORGANIZATION_ID,
-      });
-      this.isConfigured = true;
-      logger.info('OpenAI service initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize OpenAI service:', error);
-      this.isConfigured = false;
+    if (this.provider) {
+      logger.info(`AI service initialized with ${this.provider.name} provider`);
+    } else {
+      logger.warn('No LLM provider configured. AI features will use rule-based fallbacks.');
     }
   }
 
   public get configured(): boolean {
-    return this.isConfigured;
+    return this.provider !== null;
+  }
+
+  public get providerName(): string {
+    return this.provider?.name || 'none';
   }
 
   /**
@@ -63,16 +87,21 @@ export class OpenAIService {
     subject: string,
     body: string,
     sender: string,
-    accountId?: string
+    accountId?: string,
+    emailId?: string
   ): Promise<EmailClassificationResult> {
-    if (!this.isConfigured) {
+    if (!this.provider) {
       // Fallback classification for development
       return this.fallbackClassification(subject, body, sender);
     }
 
     try {
       const model = process.env.AI_CLASSIFICATION_MODEL || 'gpt-4o-mini';
-      const prompts = await promptService.getClassificationPrompts(model, 'v1');
+      const { version: promptVersion } = await promptService.resolvePromptVersion('classification', model, {
+        accountId,
+        assignmentKey: emailId || `${sender}|${subject}`,
+      });
+      const prompts = await promptService.getClassificationPrompts(model, promptVersion);
       
       // Render the user prompt with variables
       const userPrompt = promptService.renderPrompt(prompts.user, {
@@ -83,7 +112,8 @@ export class OpenAIService {
         supportedCurrencies: process.env.SUPPORTED_CURRENCIES || 'USD,EUR,GBP,DOP'
       });
       
-      const response = await this.client.chat.completions.create({
+      const validation = await this.completeWithValidation(emailClassificationSchema, promptVersion, {
+        operation: 'classification',
         model,
         messages: [
           {
@@ -96,22 +126,25 @@ export class OpenAIService {
           }
         ],
         temperature: parseFloat(process.env.AI_TEMPERATURE || '0.1'),
-        max_tokens: parseInt(process.env.AI_MAX_TOKENS || '1000'),
-      });
-
-      // Track the API call for the account
-      if (accountId) {
-        await OpenAIMetrics.recordAPICall(accountId, 'classification', model);
-      }
-
-      const result = response.choices[0]?.message?.content;
-      if (!result) {
-        throw new Error('No response from OpenAI');
+        maxTokens: parseInt(process.env.AI_MAX_TOKENS || '1000'),
+        input: { subject, body, sender },
+      }, accountId);
+
+      if (!validation.data) {
+        logger.error(`Classification response failed validation: ${validation.issues.join('; ')}`);
+        return {
+          isFinancial: false,
+          confidence: 0,
+          category: 'error',
+          language: 'en',
+          reasoning: 'Failed to parse AI response',
+          promptVersion,
+        };
       }
 
-      return this.parseClassificationResult(result);
+      return { ...validation.data, promptVersion };
     } catch (error) {
-      logger.error('Error classifying email with OpenAI:', error);
+      logger.error(`Error classifying email with ${this.provider.name} provider:`, error);
       // Fallback to rule-based classification
       return this.fallbackClassification(subject, body, sender);
     }
@@ -124,15 +157,27 @@ export class OpenAIService {
     subject: string,
     body: string,
     category: string,
-    accountId?: string
+    accountId?: string,
+    emailId?: string,
+    sender?: string
   ): Promise<FinancialDataExtraction> {
-    if (!this.isConfigured) {
+    // Known bank alert layouts are parsed deterministically, no LLM call needed
+    const templateResult = templateParserRegistry.tryParse({ subject, body, sender });
+    if (templateResult) {
+      return templateResult.extraction;
+    }
+
+    if (!this.provider) {
       return this.fallbackExtraction(subject, body);
     }
 
     try {
       const model = process.env.AI_EXTRACTION_MODEL || 'gpt-4o-mini';
-      const prompts = await promptService.getExtractionPrompts(model, 'v1');
+      const { version: promptVersion } = await promptService.resolvePromptVersion('extraction', model, {
+        accountId,
+        assignmentKey: emailId || subject,
+      });
+      const prompts = await promptService.getExtractionPrompts(model, promptVersion);
       
       // Special handling for credit card transactions
       const isCreditCard = category === 'credit_card';
@@ -140,15 +185,20 @@ export class OpenAIService {
         ? '\n\n' + prompts.creditCardRequirements
         : '';
       
+      // Reviewer-corrected emails from the same sender or template
+      const examples = await fewShotService.getExamples({ subject, sender, accountId, excludeEmailId: emailId });
+
       // Render the user prompt with variables
       const userPrompt = promptService.renderPrompt(prompts.user, {
         category,
         subject,
         body: body.substring(0, 3000) + '...',
-        requiredFieldsNote
+        requiredFieldsNote,
+        fewShotExamples: fewShotService.formatExamples(examples)
       });
       
-      const response = await this.client.chat.completions.create({
+      const validation = await this.completeWithValidation(financialDataExtractionSchema, promptVersion, {
+        operation: 'extraction',
         model,
         messages: [
           {
@@ -161,20 +211,15 @@ export class OpenAIService {
           }
         ],
         temperature: parseFloat(process.env.AI_TEMPERATURE || '0.1'),
-        max_tokens: parseInt(process.env.AI_MAX_TOKENS || '1500'),
-      });
-
-      // Track the API call for the account
-      if (accountId) {
-        await OpenAIMetrics.recordAPICall(accountId, 'extraction', model);
-      }
-
-      const result = response.choices[0]?.message?.content;
-      if (!result) {
-        throw new Error('No response from OpenAI');
-      }
-
-      const extractedData = this.parseExtractionResult(result);
+        maxTokens: parseInt(process.env.AI_MAX_TOKENS || '1500'),
+        input: { subject, body, category },
+      }, accountId);
+
+      // Out of repair attempts - salvage what we can from the last raw response
+      const extractedData: FinancialDataExtraction = {
+        ...(validation.data || this.fallbackTextExtraction(validation.lastResponse)),
+        promptVersion,
+      };
       
       // Validate required fields for credit card transactions
       if (category === 'credit_card') {
@@ -184,11 +229,55 @@ export class OpenAIService {
 
       return extractedData;
     } catch (error) {
-      logger.error('Error extracting financial data with OpenAI:', error);
+      logger.error(`Error extracting financial data with ${this.provider.name} provider:`, error);
       return this.fallbackExtraction(subject, body);
     }
   }
 
+  /**
+   * Extract the billing cycle summary from a credit card statement email
+   */
+  async extractStatementData(
+    subject: string,
+    body: string,
+    accountId?: string
+  ): Promise<CardStatementExtraction> {
+    if (!this.provider) {
+      return this.fallbackStatementExtraction(subject, body);
+    }
+
+    try {
+      const model = process.env.AI_EXTRACTION_MODEL || 'gpt-4o-mini';
+      const promptVersion = promptService.getDefaultVersion();
+      const prompts = await promptService.getStatementPrompts(model, promptVersion);
+
+      const userPrompt = promptService.renderPrompt(prompts.user, {
+        subject,
+        body: body.substring(0, 4000),
+      });
+
+      const validation = await this.completeWithValidation(cardStatementExtractionSchema, promptVersion, {
+        operation: 'statement_extraction',
+        model,
+        messages: [
+          { role: 'system', content: prompts.system },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: parseFloat(process.env.AI_TEMPERATURE || '0.1'),
+        maxTokens: parseInt(process.env.AI_MAX_TOKENS || '1500'),
+        input: { subject, body },
+      }, accountId);
+
+      return {
+        ...(validation.data || this.fallbackStatementExtraction(subject, body)),
+        promptVersion,
+      };
+    } catch (error) {
+      logger.error(`Error extracting statement data with ${this.provider.name} provider:`, error);
+      return this.fallbackStatementExtraction(subject, body);
+    }
+  }
+
   /**
    * @deprecated Use promptService.getClassificationPrompts() instead
    */
@@ -207,94 +296,100 @@ export class OpenAIService {
     throw new Error('buildExtractionPrompt is deprecated. Use promptService.getExtractionPrompts() instead.');
   }
 
-  private parseClassificationResult(result: string): EmailClassificationResult {
-    try {
-      // Try to extract JSON from the response if it's embedded in text
-      let jsonString = result.trim();
-      
-      // Look for JSON block markers
-      const jsonMatch = jsonString.match(/```json\s*(.*?)\s*```/s) || 
-                       jsonString.match(/```\s*(.*?)\s*```/s) ||
-                       jsonString.match(/\{.*\}/s);
-      
-      if (jsonMatch) {
-        jsonString = jsonMatch[1] || jsonMatch[0];
+  /**
+   * Run a completion and validate the response against a schema. Invalid
+   * responses are sent back to the model with the validation errors so it can
+   * repair its answer, up to AI_MAX_REPAIR_ATTEMPTS extra requests. Every
+   * failure is recorded against the prompt version that produced it.
+   */
+  private async completeWithValidation<S extends z.ZodTypeAny>(
+    schema: S,
+    promptVersion: string,
+    request: LLMCompletionRequest,
+    accountId?: string
+  ): Promise<SchemaValidationResult<z.output<S>> & { lastResponse: string }> {
+    const provider = this.provider!;
+    const maxRepairAttempts = parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '2');
+    const messages = [...request.messages];
+    let lastResponse = '';
+    let attempts = 0;
+    let validation: SchemaValidationResult<z.output<S>> = { success: false, issues: [] };
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      attempts = attempt + 1;
+      lastResponse = await provider.complete({ ...request, messages });
+
+      // Track the API call for the account
+      if (accountId) {
+        await OpenAIMetrics.recordAPICall(accountId, request.operation, request.model, provider.name);
       }
-      
-      // Try to find just the JSON object
-      const braceStart = jsonString.indexOf('{');
-      const braceEnd = jsonString.lastIndexOf('}');
-      
-      if (braceStart >= 0 && braceEnd > braceStart) {
-        jsonString = jsonString.substring(braceStart, braceEnd + 1);
+
+      validation = validateLLMResponse(schema, lastResponse);
+      if (validation.success) {
+        break;
       }
-      
-      const parsed = JSON.parse(jsonString);
-      return {
-        isFinancial: Boolean(parsed.isFinancial),
-        confidence: Math.max(0, Math.min(1, Number(parsed.confidence) || 0)),
-        category: String(parsed.category || 'unknown'),
-        subcategory: parsed.subcategory ? String(parsed.subcategory) : undefined,
-        language: String(parsed.language || 'en'),
-        currency: parsed.currency ? String(parsed.currency) : undefined,
-        reasoning: String(parsed.reasoning || 'AI classification'),
-      };
-    } catch (error) {
-      logger.error('Error parsing classification result:', error);
-      logger.error('Raw result:', result.substring(0, 500));
-      return {
-        isFinancial: false,
-        confidence: 0,
-        category: 'error',
-        language: 'en',
-        reasoning: 'Failed to parse AI response',
-      };
+
+      logger.warn(`Invalid ${request.operation} response (attempt ${attempt + 1}/${maxRepairAttempts + 1}, prompt ${promptVersion}): ${validation.issues.join('; ')}`);
+
+      await OpenAIMetrics.recordValidationFailure({
+        operation: request.operation,
+        model: request.model,
+        promptVersion,
+        provider: provider.name,
+        kind: validation.kind || 'schema',
+        attempt: attempt + 1,
+        issues: validation.issues,
+      });
+
+      if (attempt === maxRepairAttempts) {
+        break;
+      }
+
+      // Ask the model to repair its own answer
+      messages.push(
+        { role: 'assistant', content: lastResponse },
+        {
+          role: 'user',
+          content: `Your previous response was not valid. Problems found:\n- ${validation.issues.join('\n- ')}\n\nRespond again with ONLY the corrected JSON object in the requested format.`,
+        }
+      );
+    }
+
+    await OpenAIMetrics.recordValidationOutcome({
+      operation: request.operation,
+      model: request.model,
+      promptVersion,
+      provider: provider.name,
+      valid: validation.success,
+      attempts,
+    });
+
+    if (!validation.success) {
+      logger.error('Raw result:', lastResponse.substring(0, 500));
     }
+
+    return { ...validation, lastResponse };
   }
 
-  private parseExtractionResult(result: string): FinancialDataExtraction {
-    try {
-      // Try to extract JSON from the response if it's embedded in text
-      let jsonString = result.trim();
-      
-      // Look for JSON block markers
-      const jsonMatch = jsonString.match(/```json\s*(.*?)\s*```/s) || 
-                       jsonString.match(/```\s*(.*?)\s*```/s) ||
-                       jsonString.match(/\{.*\}/s);
-      
-      if (jsonMatch) {
-        jsonString = jsonMatch[1] || jsonMatch[0];
-      }
-      
-      // Try to find just the JSON object
-      const braceStart = jsonString.indexOf('{');
-      const braceEnd = jsonString.lastIndexOf('}');
-      
-      if (braceStart >= 0 && braceEnd > braceStart) {
-        jsonString = jsonString.substring(braceStart, braceEnd + 1);
-      }
-      
-      const parsed = JSON.parse(jsonString);
-      return {
-        amount: parsed.amount ? Number(parsed.amount) : undefined,
-        currency: parsed.currency ? String(parsed.currency) : undefined,
-        date: parsed.date ? String(parsed.date) : undefined,
-        merchantName: parsed.merchantName ? String(parsed.merchantName) : undefined,
-        accountNumber: parsed.accountNumber ? String(parsed.accountNumber) : undefined,
-        transactionId: parsed.transactionId ? String(parsed.transactionId) : undefined,
-        transactionType: parsed.transactionType ? parsed.transactionType : undefined,
-        description: parsed.description ? String(parsed.description) : undefined,
-        category: parsed.category ? String(parsed.category) : undefined,
-        confidence: Math.max(0, Math.min(1, Number(parsed.confidence) || 0)),
-      };
-    } catch (error) {
-      logger.error('Error parsing extraction result:', error);
-      logger.error('Raw result:', result.substring(0, 500));
-      
-      // Enhanced fallback for non-JSON responses - try to extract data from plain text
-      logger.warn('Attempting fallback text parsing for non-JSON response');
-      return this.fallbackTextExtraction(result);
+  /**
+   * Deterministic answers for the stub provider, serialized the same way a
+   * model would respond so they go through the normal parsing path
+   */
+  private stubResponse(request: LLMCompletionRequest): string {
+    const { subject, body, sender, category } = request.input;
+
+    if (request.operation === 'classification') {
+      return JSON.stringify(this.fallbackClassification(subject, body, sender || ''));
+    }
+
+    if (request.operation === 'statement_extraction') {
+      return JSON.stringify(this.fallbackStatementExtraction(subject, body));
     }
+
+    return JSON.stringify({
+      ...this.fallbackExtraction(subject, body),
+      category: category && category !== 'credit_card' ? category : undefined,
+    });
   }
 
   /**
@@ -384,6 +479,85 @@ export class OpenAIService {
     };
   }
 
+  /**
+   * Fallback statement extraction from the labelled summary lines (English and Spanish)
+   */
+  private fallbackStatementExtraction(subject: string, body: string): CardStatementExtraction {
+    const text = `${subject}\n${body}`;
+
+    const amountFor = (label: string): number | undefined => {
+      const match = this.labelledValue(text, label)?.match(/\d[\d,]*(?:\.\d{1,2})?/);
+      return match ? parseFloat(match[0].replace(/,/g, '')) : undefined;
+    };
+    const dateFor = (label: string): string | undefined => {
+      const value = this.labelledValue(text, label);
+      return value ? this.parseStatementDate(value) : undefined;
+    };
+
+    // "September 19, 2025 - October 19, 2025", "01/09/2025 al 30/09/2025"
+    const period = this.labelledValue(text, 'statement period|billing period|billing cycle|ciclo de facturaci[oó]n|per[ií]odo(?: de facturaci[oó]n)?')
+      ?.split(/\s+(?:-|–|to|al|a)\s+/i);
+
+    const charges = [
+      'purchases|new charges|consumos del per[ií]odo',
+      'cash advances|avances de efectivo',
+      'fees charged|comisiones cobradas',
+      'interest charged|intereses cobrados',
+    ].map(amountFor).filter((amount): amount is number => amount !== undefined);
+
+    const account = this.extractAccountFromText(text);
+    const extraction: CardStatementExtraction = {
+      statementBalance: amountFor('new balance|statement balance|saldo al corte|saldo actual|saldo total'),
+      minimumPayment: amountFor('minimum payment(?: due)?|pago m[ií]nimo'),
+      creditLimit: amountFor('credit limit|l[ií]mite de cr[eé]dito'),
+      newCharges: charges.length > 0 ? Math.round(charges.reduce((sum, amount) => sum + amount, 0) * 100) / 100 : undefined,
+      dueDate: dateFor('payment due date|due date|fecha l[ií]mite de pago|fecha de vencimiento'),
+      cycleStart: period && period.length === 2 ? this.parseStatementDate(period[0]!) : undefined,
+      cycleEnd: (period && period.length === 2 ? this.parseStatementDate(period[1]!) : undefined) ||
+        dateFor('closing date|statement date|fecha de corte'),
+      currency: this.extractCurrencyFromText(text),
+      accountNumber: account ? `****${account}` : undefined,
+      confidence: 0,
+    };
+
+    const found = [extraction.statementBalance, extraction.minimumPayment, extraction.dueDate, extraction.cycleEnd]
+      .filter(value => value !== undefined).length;
+    extraction.confidence = Math.min(0.3 + found * 0.125, 0.8);
+
+    return extraction;
+  }
+
+  /**
+   * Rest of the line after a summary label such as "New Balance:"
+   */
+  private labelledValue(text: string, label: string): string | undefined {
+    const match = text.match(new RegExp(`(?:${label})[ \\t]*:?[ \\t]*([^\\n]+)`, 'i'));
+    return match?.[1]?.trim() || undefined;
+  }
+
+  /**
+   * ISO date from "October 19, 2025", "19 de octubre de 2025" or numeric formats
+   */
+  private parseStatementDate(value: string): string | undefined {
+    const numeric = value.match(/\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}|\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}/);
+    if (numeric) {
+      return this.normalizeDateFormat(numeric[0]);
+    }
+
+    const monthFirst = value.match(/([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/i);
+    const dayFirst = value.match(/(\d{1,2})\s+(?:de\s+)?([a-z]+)\.?\s+(?:de(?:l)?\s+)?(\d{4})/i);
+    const [month, day, year] = monthFirst && MONTHS[monthFirst[1]!.toLowerCase()]
+      ? [MONTHS[monthFirst[1]!.toLowerCase()], monthFirst[2]!, monthFirst[3]!]
+      : dayFirst && MONTHS[dayFirst[2]!.toLowerCase()]
+        ? [MONTHS[dayFirst[2]!.toLowerCase()], dayFirst[1]!, dayFirst[3]!]
+        : [undefined, undefined, undefined];
+
+    if (!month || !day || !year) {
+      return undefined;
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
   /**
    * Extract transaction type from Spanish text
    */
@@ -0,0 +1,246 @@
+import { EmailAccount, PreFilterDecision, ProcessedEmail } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { EmailClassificationResult } from './openaiService';
+import { senderAddress } from '../utils/email';
+import { gmailFilterService, termPattern, wildcardPattern } from './gmailFilterService';
+
+export type PreFilterMode = 'off' | 'shadow' | 'enforce';
+
+export type PreFilterReason =
+  | 'known_sender'
+  | 'sender_financial_history'
+  | 'sender_non_financial_history'
+  | 'promotional_label'
+  | 'marketing_terms'
+  | 'financial_keywords'
+  | 'amount';
+
+export interface PreFilterResult {
+  decision: PreFilterDecision;
+  score: number;
+  reasons: PreFilterReason[];
+  // Only recorded; the LLM classifies the email anyway
+  shadow: boolean;
+}
+
+export interface SenderReputation {
+  financial: number;
+  nonFinancial: number;
+}
+
+export interface PreFilterStats {
+  mode: PreFilterMode;
+  evaluated: number;
+  // Skipped in enforce mode, each one an LLM call avoided
+  skipped: number;
+  shadow: {
+    evaluated: number;
+    wouldSkip: number;
+    // Would have been skipped, but the LLM or a reviewer found them financial
+    wronglySkipped: number;
+  };
+}
+
+// Score at or below which an email is skipped, unless a keep signal is present
+const SKIP_SCORE = -3;
+
+// LLM verdicts needed before a sender's history counts, and the confidence they need
+const REPUTATION_MIN_EMAILS = 3;
+const REPUTATION_MIN_CONFIDENCE = 0.7;
+
+const PROMOTIONAL_LABELS = ['CATEGORY_PROMOTIONS', 'CATEGORY_SOCIAL', 'CATEGORY_FORUMS'];
+
+const MARKETING_TERMS = [
+  'unsubscribe', 'newsletter', 'view in browser', 'view this email in your browser', 'webinar',
+  'limited time', '% off', 'sale', 'darse de baja', 'cancelar suscripción', 'boletín', 'oferta',
+  'promoción', 'descuento'
+];
+
+const AMOUNT_PATTERN = /(?:RD\$|US\$|[$€£]|\b(?:USD|DOP|EUR)\s?)\s?\d[\d,.]*/i;
+
+/**
+ * Local check run before LLM classification that skips obvious marketing and
+ * newsletters. Scores the Gmail category labels, marketing and financial
+ * terms, amounts and the sender's history of LLM and reviewer verdicts in
+ * ProcessedEmail. Senders from the account's search filter and senders that
+ * ever sent financial mail are never skipped.
+ *
+ * PREFILTER_MODE=shadow (the default) only records the verdict and still
+ * classifies every email, so wrong skips can be counted before enforcing.
+ */
+export class PreFilterService {
+  private static instance: PreFilterService;
+
+  static getInstance(): PreFilterService {
+    if (!PreFilterService.instance) {
+      PreFilterService.instance = new PreFilterService();
+    }
+    return PreFilterService.instance;
+  }
+
+  get mode(): PreFilterMode {
+    const mode = process.env.PREFILTER_MODE || 'shadow';
+    return mode === 'off' || mode === 'enforce' ? mode : 'shadow';
+  }
+
+  /**
+   * Verdict for an email, or null when the filter is off
+   */
+  async evaluate(email: ProcessedEmail & { account: EmailAccount }, body: string): Promise<PreFilterResult | null> {
+    const mode = this.mode;
+    if (mode === 'off') return null;
+
+    const { filter } = await gmailFilterService.resolve(gmailFilterService.getAccountFilter(email.account));
+    const reputation = await this.getSenderReputation(email.account.userId, email.fromAddress, email.id);
+
+    return {
+      ...this.score({
+        from: email.fromAddress,
+        subject: email.subject,
+        body,
+        labels: Array.isArray(email.gmailLabels) ? email.gmailLabels.map(String) : [],
+        knownSenders: filter.allow.senders,
+        financialKeywords: filter.allow.keywords,
+        reputation
+      }),
+      shadow: mode === 'shadow'
+    };
+  }
+
+  /**
+   * Score an email from its signals; positive is financial-looking
+   */
+  score(input: {
+    from: string;
+    subject: string;
+    body: string;
+    labels: string[];
+    knownSenders: string[];
+    financialKeywords: string[];
+    reputation: SenderReputation;
+  }): Omit<PreFilterResult, 'shadow'> {
+    const reasons: PreFilterReason[] = [];
+    let score = 0;
+    let keep = false;
+
+    const address = senderAddress(input.from);
+    if (input.knownSenders.some(pattern => wildcardPattern(pattern).test(address))) {
+      reasons.push('known_sender');
+      keep = true;
+    }
+
+    if (input.reputation.financial > 0) {
+      reasons.push('sender_financial_history');
+      keep = true;
+    } else if (input.reputation.nonFinancial >= REPUTATION_MIN_EMAILS) {
+      reasons.push('sender_non_financial_history');
+      score -= 3;
+    }
+
+    if (input.labels.some(label => PROMOTIONAL_LABELS.includes(label))) {
+      reasons.push('promotional_label');
+      score -= 2;
+    }
+
+    const text = `${input.subject}\n${input.body}`.toLowerCase();
+    const marketingHits = MARKETING_TERMS.filter(term => termPattern(term).test(text)).length;
+    if (marketingHits > 0) {
+      reasons.push('marketing_terms');
+      score -= Math.min(marketingHits, 2);
+    }
+
+    const subject = input.subject.toLowerCase();
+    const keywords = input.financialKeywords.map(termPattern);
+    if (keywords.some(pattern => pattern.test(subject))) {
+      reasons.push('financial_keywords');
+      score += 2;
+    } else if (keywords.some(pattern => pattern.test(text))) {
+      reasons.push('financial_keywords');
+      score += 1;
+    }
+
+    if (AMOUNT_PATTERN.test(text)) {
+      reasons.push('amount');
+      score += 1;
+    }
+
+    return { decision: !keep && score <= SKIP_SCORE ? 'SKIP' : 'CLASSIFY', score, reasons };
+  }
+
+  /**
+   * Classification stored for a skipped email in place of an LLM answer
+   */
+  toClassification(result: PreFilterResult, language: string): EmailClassificationResult {
+    return {
+      isFinancial: false,
+      confidence: 0.9,
+      category: 'non_financial',
+      language,
+      reasoning: `Skipped by pre-filter (score ${result.score}): ${result.reasons.join(', ')}`
+    };
+  }
+
+  /**
+   * How often earlier emails of the sender to the user were found financial.
+   * Only confident LLM verdicts and reviewer corrections count, never the
+   * filter's own skips. Reputation is per user, so one user's mail never
+   * decides what is skipped for another.
+   */
+  async getSenderReputation(userId: string, from: string, excludeEmailId?: string): Promise<SenderReputation> {
+    const address = senderAddress(from);
+    if (!address) return { financial: 0, nonFinancial: 0 };
+
+    const rows = await prisma.processedEmail.groupBy({
+      by: ['classification'],
+      where: {
+        senderAddress: address,
+        account: { userId },
+        ...(excludeEmailId && { id: { not: excludeEmailId } }),
+        processingStatus: { notIn: ['PENDING', 'PROCESSING', 'FAILED'] },
+        OR: [
+          { isValidated: true },
+          {
+            confidenceScore: { gte: REPUTATION_MIN_CONFIDENCE },
+            OR: [{ preFilterDecision: null }, { preFilterDecision: 'CLASSIFY' }, { preFilterShadow: true }]
+          }
+        ]
+      },
+      _count: true
+    });
+
+    return rows.reduce<SenderReputation>((reputation, row) => {
+      if (row.classification === 'UNCLASSIFIED') {
+        reputation.nonFinancial += row._count;
+      } else {
+        reputation.financial += row._count;
+      }
+      return reputation;
+    }, { financial: 0, nonFinancial: 0 });
+  }
+
+  /**
+   * Pre-filter verdicts on a user's emails since a date
+   */
+  async getStats(userId: string, since: Date): Promise<PreFilterStats> {
+    const where = { account: { userId }, createdAt: { gte: since } };
+
+    const [evaluated, skipped, shadowEvaluated, wouldSkip, wronglySkipped] = await Promise.all([
+      prisma.processedEmail.count({ where: { ...where, preFilterDecision: { not: null } } }),
+      prisma.processedEmail.count({ where: { ...where, preFilterDecision: 'SKIP', preFilterShadow: false } }),
+      prisma.processedEmail.count({ where: { ...where, preFilterDecision: { not: null }, preFilterShadow: true } }),
+      prisma.processedEmail.count({ where: { ...where, preFilterDecision: 'SKIP', preFilterShadow: true } }),
+      prisma.processedEmail.count({
+        where: { ...where, preFilterDecision: 'SKIP', preFilterShadow: true, classification: { not: 'UNCLASSIFIED' } }
+      })
+    ]);
+
+    return {
+      mode: this.mode,
+      evaluated,
+      skipped,
+      shadow: { evaluated: shadowEvaluated, wouldSkip, wronglySkipped }
+    };
+  }
+}
+
+export const preFilterService = PreFilterService.getInstance();
@@ -1,15 +1,68 @@
 import fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { prisma } from '../utils/database';
 
 export interface PromptTemplate {
   content: string;
 }
 
+export type PromptType = 'classification' | 'extraction';
+
+export interface PromptVariant {
+  version: string;
+  weight: number; // Share of traffic in percent
+}
+
+export interface PromptVersionAssignment {
+  version: string;
+  experimentId?: string;
+  reason: 'default' | 'pinned' | 'experiment';
+}
+
+export type PromptSource = 'filesystem' | 'database';
+
+export interface PromptVersionSummary {
+  model: string;
+  version: string;
+  source: PromptSource;
+  promptTypes: string[];
+  description?: string | null;
+  createdAt?: Date;
+}
+
+export interface PromptVersionDetail {
+  model: string;
+  version: string;
+  source: PromptSource;
+  prompts: Record<string, string>;
+}
+
+export interface PromptDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+interface ActiveExperiment {
+  id: string;
+  promptType: string;
+  model: string;
+  variants: PromptVariant[];
+  accountPins: Record<string, string>;
+}
+
+const EXPERIMENT_CACHE_TTL_MS = 60 * 1000;
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const PROMPT_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
 export class PromptService {
   private static instance: PromptService;
   private promptCache: Map<string, string> = new Map();
   private basePromptPath: string;
+  private experimentCache: { loadedAt: number; experiments: ActiveExperiment[] } | null = null;
+  private watcher: FSWatcher | null = null;
 
   private constructor() {
     this.basePromptPath = path.join(__dirname, '../prompts');
@@ -23,7 +76,8 @@ export class PromptService {
   }
 
   /**
-   * Load a prompt template from file system
+   * Load a prompt template, preferring the file system and falling back to
+   * versions created through the admin API
    */
   async loadPrompt(model: string, version: string, promptType: string): Promise<string> {
     const promptKey = `${model}/${version}/${promptType}`;
@@ -43,20 +97,52 @@ export class PromptService {
       logger.debug(`Loaded prompt: ${promptKey}`);
       return content;
     } catch (error) {
-      logger.error(`Failed to load prompt ${promptKey}:`, error);
-      throw new Error(`Prompt not found: ${promptKey}`);
+      logger.debug(`Prompt ${promptKey} not on file system, checking database`);
+    }
+
+    try {
+      const stored = await prisma.promptVersion.findUnique({
+        where: { model_version_promptType: { model, version, promptType } }
+      });
+
+      if (stored) {
+        this.promptCache.set(promptKey, stored.content);
+        logger.debug(`Loaded prompt from database: ${promptKey}`);
+        return stored.content;
+      }
+    } catch (error) {
+      logger.error(`Failed to load prompt ${promptKey} from database:`, error);
     }
+
+    logger.error(`Failed to load prompt ${promptKey}`);
+    throw new Error(`Prompt not found: ${promptKey}`);
   }
 
   /**
-   * Render a prompt template with variables
+   * Render a prompt template with variables. Placeholders without a value are
+   * left in place and logged, since they usually mean a caller and template
+   * have drifted apart.
    */
   renderPrompt(template: string, variables: Record<string, any>): string {
+    const unfilled = new Set<string>();
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+      const name = match[1]!;
+      if (variables[name] === undefined) {
+        unfilled.add(name);
+      }
+    }
+
+    if (unfilled.size > 0) {
+      logger.warn(`Prompt rendered with unfilled placeholders: ${Array.from(unfilled).join(', ')}`);
+    }
+
     let rendered = template;
     
     for (const [key, value] of Object.entries(variables)) {
-      const placeholder = `{{${key}}}`;
-      rendered = rendered.replace(new RegExp(placeholder, 'g'), String(value));
+      if (value === undefined) continue;
+      const placeholder = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g');
+      // Use a replacer function so `$` sequences in email content are kept literally
+      rendered = rendered.replace(placeholder, () => String(value));
     }
     
     return rendered;
@@ -105,6 +191,108 @@ export class PromptService {
     };
   }
 
+  /**
+   * Get credit card statement extraction prompts for a specific model/version
+   */
+  async getStatementPrompts(model: string = 'gpt-4o-mini', version: string = 'v1'): Promise<{
+    system: string;
+    user: string;
+  }> {
+    const [system, user] = await Promise.all([
+      this.loadPrompt(model, version, 'statement-extraction-system'),
+      this.loadPrompt(model, version, 'statement-extraction-user'),
+    ]);
+
+    return { system, user };
+  }
+
+  /**
+   * Default prompt version used when no experiment or pin applies
+   */
+  getDefaultVersion(): string {
+    return process.env.AI_PROMPT_VERSION || 'v1';
+  }
+
+  /**
+   * Pick the prompt version for a request. Account pins win over traffic
+   * splits; the split is a stable hash of the assignment key so the same email
+   * always lands on the same variant.
+   */
+  async resolvePromptVersion(
+    promptType: PromptType,
+    model: string,
+    context: { accountId?: string | undefined; assignmentKey?: string | undefined } = {}
+  ): Promise<PromptVersionAssignment> {
+    const defaultAssignment: PromptVersionAssignment = { version: this.getDefaultVersion(), reason: 'default' };
+
+    let experiments: ActiveExperiment[];
+    try {
+      experiments = await this.getActiveExperiments();
+    } catch (error) {
+      logger.error('Failed to load prompt experiments, using default version:', error);
+      return defaultAssignment;
+    }
+
+    const experiment = experiments.find(e => e.promptType === promptType && e.model === model);
+    if (!experiment) {
+      return defaultAssignment;
+    }
+
+    const pinnedVersion = context.accountId ? experiment.accountPins[context.accountId] : undefined;
+    if (pinnedVersion) {
+      return { version: pinnedVersion, experimentId: experiment.id, reason: 'pinned' };
+    }
+
+    const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    if (totalWeight <= 0) {
+      return defaultAssignment;
+    }
+
+    const key = `${experiment.id}:${context.assignmentKey || context.accountId || crypto.randomUUID()}`;
+    const bucket = crypto.createHash('sha256').update(key).digest().readUInt32BE(0) / 0x100000000 * totalWeight;
+
+    let cumulative = 0;
+    for (const variant of experiment.variants) {
+      cumulative += variant.weight;
+      if (bucket < cumulative) {
+        return { version: variant.version, experimentId: experiment.id, reason: 'experiment' };
+      }
+    }
+
+    return defaultAssignment;
+  }
+
+  /**
+   * Drop cached experiments so configuration changes apply immediately
+   */
+  invalidateExperimentCache(): void {
+    this.experimentCache = null;
+  }
+
+  private async getActiveExperiments(): Promise<ActiveExperiment[]> {
+    if (this.experimentCache && Date.now() - this.experimentCache.loadedAt < EXPERIMENT_CACHE_TTL_MS) {
+      return this.experimentCache.experiments;
+    }
+
+    const rows = await prisma.promptExperiment.findMany({
+      where: { isActive: true },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    const experiments = rows.map(row => ({
+      id: row.id,
+      promptType: row.promptType,
+      model: row.model,
+      variants: (Array.isArray(row.variants) ? row.variants : []) as unknown as PromptVariant[],
+      accountPins: (row.accountPins && typeof row.accountPins === 'object' && !Array.isArray(row.accountPins)
+        ? row.accountPins
+        : {}) as Record<string, string>,
+    }));
+
+    this.experimentCache = { loadedAt: Date.now(), experiments };
+    return experiments;
+  }
+
   /**
    * Clear the prompt cache (useful for development/testing)
    */
@@ -114,34 +302,245 @@ export class PromptService {
   }
 
   /**
-   * Get available models and versions
+   * Watch the prompt directory and drop cached templates when files change,
+   * so prompt edits apply without a restart
+   */
+  startWatching(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    try {
+      this.watcher = watch(this.basePromptPath, { recursive: true }, (_eventType, filename) => {
+        this.handlePromptFileChange(filename ? filename.toString() : null);
+      });
+
+      this.watcher.on('error', (error) => {
+        logger.error('Prompt file watcher error:', error);
+        this.stopWatching();
+      });
+
+      logger.info(`Watching ${this.basePromptPath} for prompt changes`);
+    } catch (error) {
+      logger.warn('Prompt hot-reload unavailable, prompts are cached until restart:', error);
+      this.watcher = null;
+    }
+  }
+
+  stopWatching(): void {
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private handlePromptFileChange(filename: string | null): void {
+    const parts = filename ? filename.split(path.sep) : [];
+
+    // <model>/<version>/<promptType>.txt maps directly to a cache key
+    if (parts.length === 3 && parts[2]!.endsWith('.txt')) {
+      const promptKey = `${parts[0]}/${parts[1]}/${path.basename(parts[2]!, '.txt')}`;
+      this.promptCache.delete(promptKey);
+      logger.info(`Prompt changed, reloading on next use: ${promptKey}`);
+      return;
+    }
+
+    // Directory renames or unknown paths: start over
+    this.clearCache();
+    logger.info('Prompt directory changed, cleared prompt cache');
+  }
+
+  /**
+   * Get available models and versions from both the file system and the database
    */
   async getAvailableModels(): Promise<Record<string, string[]>> {
+    const summaries = await this.listPromptVersions();
+    const models: Record<string, string[]> = {};
+
+    for (const summary of summaries) {
+      const versions = models[summary.model] || (models[summary.model] = []);
+      if (!versions.includes(summary.version)) {
+        versions.push(summary.version);
+      }
+    }
+
+    return models;
+  }
+
+  /**
+   * List every prompt version with the prompt files it provides
+   */
+  async listPromptVersions(): Promise<PromptVersionSummary[]> {
+    const summaries: PromptVersionSummary[] = [];
+
     try {
-      const models: Record<string, string[]> = {};
-      const modelDirs = await fs.readdir(this.basePromptPath);
-      
-      for (const modelDir of modelDirs) {
-        const modelPath = path.join(this.basePromptPath, modelDir);
-        const stat = await fs.stat(modelPath);
-        
-        if (stat.isDirectory()) {
-          const versions = await fs.readdir(modelPath);
-          models[modelDir] = versions.filter(async (version) => {
-            const versionPath = path.join(modelPath, version);
-            const versionStat = await fs.stat(versionPath);
-            return versionStat.isDirectory();
+      const modelDirs = await fs.readdir(this.basePromptPath, { withFileTypes: true });
+
+      for (const modelDir of modelDirs.filter(entry => entry.isDirectory())) {
+        const modelPath = path.join(this.basePromptPath, modelDir.name);
+        const versionDirs = await fs.readdir(modelPath, { withFileTypes: true });
+
+        for (const versionDir of versionDirs.filter(entry => entry.isDirectory())) {
+          const files = await fs.readdir(path.join(modelPath, versionDir.name));
+          summaries.push({
+            model: modelDir.name,
+            version: versionDir.name,
+            source: 'filesystem',
+            promptTypes: files.filter(file => file.endsWith('.txt')).map(file => path.basename(file, '.txt')).sort(),
           });
         }
       }
-      
-      return models;
     } catch (error) {
-      logger.error('Failed to get available models:', error);
-      return {};
+      logger.error('Failed to read prompt directory:', error);
     }
+
+    try {
+      const stored = await prisma.promptVersion.findMany({
+        select: { model: true, version: true, promptType: true, description: true, createdAt: true },
+        orderBy: [{ model: 'asc' }, { version: 'asc' }, { promptType: 'asc' }]
+      });
+
+      for (const row of stored) {
+        // File system versions shadow database rows with the same name
+        if (summaries.some(s => s.source === 'filesystem' && s.model === row.model && s.version === row.version)) {
+          continue;
+        }
+
+        let summary = summaries.find(s => s.source === 'database' && s.model === row.model && s.version === row.version);
+        if (!summary) {
+          summary = {
+            model: row.model,
+            version: row.version,
+            source: 'database',
+            promptTypes: [],
+            description: row.description,
+            createdAt: row.createdAt,
+          };
+          summaries.push(summary);
+        }
+        summary.promptTypes.push(row.promptType);
+      }
+    } catch (error) {
+      logger.error('Failed to load stored prompt versions:', error);
+    }
+
+    return summaries;
   }
+
+  /**
+   * Get all prompt templates of a version, or null when it does not exist
+   */
+  async getPromptVersion(model: string, version: string): Promise<PromptVersionDetail | null> {
+    const summary = (await this.listPromptVersions()).find(s => s.model === model && s.version === version);
+    if (!summary) {
+      return null;
+    }
+
+    const prompts: Record<string, string> = {};
+    for (const promptType of summary.promptTypes) {
+      prompts[promptType] = await this.loadPrompt(model, version, promptType);
+    }
+
+    return { model, version, source: summary.source, prompts };
+  }
+
+  /**
+   * Store a new prompt version in the database. Versions are immutable once
+   * created; publish a new version instead of editing one.
+   */
+  async createPromptVersion(input: {
+    model: string;
+    version: string;
+    prompts: Record<string, string>;
+    description?: string | undefined;
+    createdBy?: string | undefined;
+  }): Promise<PromptVersionDetail> {
+    const names = [input.model, input.version, ...Object.keys(input.prompts)];
+    const invalidName = names.find(name => !PROMPT_NAME_PATTERN.test(name));
+    if (invalidName !== undefined) {
+      throw new Error(`Invalid prompt name: ${invalidName}`);
+    }
+
+    if (await this.getPromptVersion(input.model, input.version)) {
+      throw new Error(`Prompt version already exists: ${input.model}/${input.version}`);
+    }
+
+    await prisma.promptVersion.createMany({
+      data: Object.entries(input.prompts).map(([promptType, content]) => ({
+        model: input.model,
+        version: input.version,
+        promptType,
+        content,
+        description: input.description ?? null,
+        createdBy: input.createdBy ?? null,
+      }))
+    });
+
+    logger.info(`Created prompt version ${input.model}/${input.version}`);
+
+    return { model: input.model, version: input.version, source: 'database', prompts: { ...input.prompts } };
+  }
+
+  /**
+   * Line diff between two versions of the same model, per prompt file
+   */
+  async diffPromptVersions(model: string, fromVersion: string, toVersion: string): Promise<Record<string, PromptDiffLine[]> | null> {
+    const [from, to] = await Promise.all([
+      this.getPromptVersion(model, fromVersion),
+      this.getPromptVersion(model, toVersion),
+    ]);
+
+    if (!from || !to) {
+      return null;
+    }
+
+    const promptTypes = new Set([...Object.keys(from.prompts), ...Object.keys(to.prompts)]);
+    const diff: Record<string, PromptDiffLine[]> = {};
+
+    for (const promptType of Array.from(promptTypes).sort()) {
+      diff[promptType] = diffLines(from.prompts[promptType] ?? '', to.prompts[promptType] ?? '');
+    }
+
+    return diff;
+  }
+}
+
+/**
+ * Longest-common-subsequence line diff. Prompt files are small, so the
+ * quadratic table is fine.
+ */
+function diffLines(before: string, after: string): PromptDiffLine[] {
+  const a = before.length > 0 ? before.split('\n') : [];
+  const b = after.length > 0 ? after.split('\n') : [];
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const result: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', line: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      result.push({ type: 'removed', line: a[i]! });
+      i++;
+    } else {
+      result.push({ type: 'added', line: b[j]! });
+      j++;
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', line: a[i++]! });
+  while (j < b.length) result.push({ type: 'added', line: b[j++]! });
+
+  return result;
 }
 
 // Export singleton instance
-export const promptService = PromptService.getInstance();
\ No newline at end of file
+export const promptService = PromptService.getInstance();
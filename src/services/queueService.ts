@@ -7,8 +7,9 @@ import { getWebSocketServiceInstance } from './websocketService';
 export interface EmailProcessingJobData {
   emailAccountId: string;
   emailId?: string;
-  processType: 'sync' | 'classify' | 'extract';
+  processType: 'sync' | 'classify' | 'extract' | 'recategorize' | 'backfill';
   priority?: number;
+  delay?: number; // Milliseconds before the job may run
 }
 
 export class QueueService {
@@ -101,7 +102,7 @@ export class QueueService {
 
       const job = await this.emailQueue.add('process-email', data, {
         priority: data.priority || 0,
-        delay: 0,
+        delay: data.delay || 0,
       });
 
       logger.info(`Added ${data.processType} job: ${job.id} for email: ${data.emailId || 'sync-' + data.emailAccountId}`);
@@ -0,0 +1,385 @@
+import { EmailClassification, Prisma, TransactionType } from '@prisma/client';
+import { prisma, DatabaseOperations } from '../utils/database';
+import { logger } from '../utils/logger';
+import { fewShotService } from './fewShotService';
+import { exchangeRateService } from './exchangeRateService';
+import { deduplicationService } from './deduplicationService';
+import { merchantService } from './merchantService';
+import { financialAccountService } from './financialAccountService';
+import { subscriptionService } from './subscriptionService';
+import { budgetService } from './budgetService';
+import { anomalyService } from './anomalyService';
+
+export type ReviewReason =
+  | 'low_classification_confidence'
+  | 'low_extraction_confidence'
+  | 'missing_credit_card_fields';
+
+export type ReviewDecision = 'approved' | 'corrected' | 'rejected';
+
+// Fields a reviewer can correct, mapped to what the AI produced
+export interface ReviewCorrection {
+  classification?: EmailClassification | undefined;
+  amount?: number | null | undefined;
+  currency?: string | null | undefined;
+  date?: string | null | undefined;
+  merchantName?: string | null | undefined;
+  merchantCategory?: string | null | undefined;
+  accountNumber?: string | null | undefined;
+  transactionType?: TransactionType | undefined;
+  description?: string | null | undefined;
+}
+
+export type CorrectionDiff = Record<string, { from: unknown; to: unknown }>;
+
+// Credit card notifications are only useful with these fields present
+const REQUIRED_CREDIT_CARD_FIELDS = ['amount', 'merchantName', 'date'] as const;
+
+const CORRECTABLE_FIELDS: Array<keyof ReviewCorrection> = [
+  'classification',
+  'amount',
+  'currency',
+  'date',
+  'merchantName',
+  'merchantCategory',
+  'accountNumber',
+  'transactionType',
+  'description',
+];
+
+export class ReviewService {
+  private static instance: ReviewService;
+
+  static getInstance(): ReviewService {
+    if (!ReviewService.instance) {
+      ReviewService.instance = new ReviewService();
+    }
+    return ReviewService.instance;
+  }
+
+  private get confidenceThreshold(): number {
+    return parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '0.6');
+  }
+
+  /**
+   * Decide whether a processed email needs a human to look at it
+   */
+  getReviewReasons(input: {
+    classification: string;
+    classificationConfidence?: number | null | undefined;
+    // Statements carry a cycle summary instead of a single transaction
+    isStatement?: boolean | undefined;
+    extraction?: {
+      amount?: unknown;
+      merchantName?: unknown;
+      date?: unknown;
+      confidence?: number | null | undefined;
+    } | null | undefined;
+  }): ReviewReason[] {
+    const reasons: ReviewReason[] = [];
+    const threshold = this.confidenceThreshold;
+
+    if (input.classificationConfidence !== null && input.classificationConfidence !== undefined
+      && input.classificationConfidence < threshold) {
+      reasons.push('low_classification_confidence');
+    }
+
+    if (input.extraction && input.extraction.confidence !== null && input.extraction.confidence !== undefined
+      && input.extraction.confidence < threshold) {
+      reasons.push('low_extraction_confidence');
+    }
+
+    if (input.classification === 'CREDIT_CARD' && !input.isStatement) {
+      const extraction = input.extraction || {};
+      const missing = REQUIRED_CREDIT_CARD_FIELDS.some(field => {
+        const value = extraction[field];
+        return value === null || value === undefined || value === '';
+      });
+      if (missing) {
+        reasons.push('missing_credit_card_fields');
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Final processing status for an email: MANUAL_REVIEW when any reason applies
+   */
+  resolveStatus(emailId: string, reasons: ReviewReason[]): 'COMPLETED' | 'MANUAL_REVIEW' {
+    if (reasons.length === 0) {
+      return 'COMPLETED';
+    }
+
+    logger.info(`Email ${emailId} sent to manual review: ${reasons.join(', ')}`);
+    return 'MANUAL_REVIEW';
+  }
+
+  async getQueue(options: { userId?: string | undefined; accountId?: string | undefined; limit: number; offset: number }) {
+    const where: Prisma.ProcessedEmailWhereInput = {
+      processingStatus: 'MANUAL_REVIEW',
+      ...(options.userId && { account: { userId: options.userId } }),
+      ...(options.accountId && { accountId: options.accountId })
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.processedEmail.findMany({
+        where,
+        include: { extractedData: true },
+        orderBy: { receivedAt: 'asc' },
+        take: options.limit,
+        skip: options.offset
+      }),
+      prisma.processedEmail.count({ where })
+    ]);
+
+    return { items, total };
+  }
+
+  async getItem(emailId: string, userId?: string | undefined) {
+    return await prisma.processedEmail.findFirst({
+      where: { id: emailId, processingStatus: 'MANUAL_REVIEW', ...(userId && { account: { userId } }) },
+      include: { extractedData: true, account: { select: { userId: true, gmailAddress: true } } }
+    });
+  }
+
+  /**
+   * Accept the AI output as is. Returns false when the email is not queued.
+   */
+  async approve(emailId: string, reviewerId: string | undefined): Promise<boolean> {
+    const item = await this.getItem(emailId, reviewerId);
+    if (!item) return false;
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.processedEmail.update({
+        where: { id: emailId },
+        data: { processingStatus: 'COMPLETED', isValidated: true }
+      }),
+      ...(item.extractedData ? [prisma.extractedData.update({
+        where: { emailId },
+        data: { isValidated: true, validatedBy: reviewerId ?? null, validatedAt: now }
+      })] : [])
+    ]);
+
+    await this.recordDecision(item, 'approved', reviewerId, {});
+    return true;
+  }
+
+  /**
+   * Apply reviewer corrections, keeping the diff against the AI output.
+   * Returns null when the email is not queued.
+   */
+  async correct(emailId: string, reviewerId: string | undefined, correction: ReviewCorrection): Promise<CorrectionDiff | null> {
+    const item = await this.getItem(emailId, reviewerId);
+    if (!item) return null;
+    const original = this.snapshot(item);
+    const diff: CorrectionDiff = {};
+
+    for (const field of CORRECTABLE_FIELDS) {
+      if (correction[field] === undefined) continue;
+      const from = original[field] ?? null;
+      const to = correction[field] ?? null;
+      if (String(from) !== String(to)) {
+        diff[field] = { from, to };
+      }
+    }
+
+    const now = new Date();
+    const extractedFields: Prisma.ExtractedDataUncheckedUpdateInput = {};
+    if ('amount' in diff) extractedFields.transactionAmount = correction.amount ?? null;
+    if ('currency' in diff) extractedFields.currency = correction.currency ?? null;
+    if ('date' in diff) extractedFields.transactionDate = correction.date ? new Date(correction.date) : null;
+    if ('merchantName' in diff) extractedFields.merchantName = correction.merchantName ?? null;
+    if ('merchantCategory' in diff) extractedFields.merchantCategory = correction.merchantCategory ?? null;
+    if ('accountNumber' in diff) extractedFields.accountNumber = correction.accountNumber ?? null;
+    if ('transactionType' in diff && correction.transactionType) extractedFields.transactionType = correction.transactionType;
+    if ('description' in diff) extractedFields.description = correction.description ?? null;
+
+    const metadata = {
+      ...((item.extractedData?.metadata as Prisma.JsonObject | undefined) || {}),
+      reviewCorrection: { diff, correctedAt: now.toISOString() }
+    } as Prisma.InputJsonValue;
+
+    await prisma.$transaction([
+      prisma.processedEmail.update({
+        where: { id: emailId },
+        data: {
+          processingStatus: 'COMPLETED',
+          isValidated: true,
+          ...(correction.classification && { classification: correction.classification })
+        }
+      }),
+      prisma.extractedData.upsert({
+        where: { emailId },
+        create: {
+          ...(extractedFields as Prisma.ExtractedDataUncheckedCreateInput),
+          emailId,
+          metadata,
+          isValidated: true,
+          validatedBy: reviewerId ?? null,
+          validatedAt: now
+        },
+        update: {
+          ...extractedFields,
+          metadata,
+          isValidated: true,
+          validatedBy: reviewerId ?? null,
+          validatedAt: now
+        }
+      })
+    ]);
+
+    await this.recordDecision(item, 'corrected', reviewerId, diff);
+
+    if ('merchantName' in diff) {
+      await merchantService.normalizeExtractedData(emailId).catch(error =>
+        logger.error(`Merchant normalization failed for email ${emailId}:`, error)
+      );
+    }
+
+    if ('accountNumber' in diff) {
+      await financialAccountService.discoverFromExtractedData(emailId).catch(error =>
+        logger.error(`Financial account discovery failed for email ${emailId}:`, error)
+      );
+    }
+
+    if ('amount' in diff || 'currency' in diff || 'date' in diff) {
+      await exchangeRateService.convertExtractedData(emailId).catch(error =>
+        logger.error(`Currency conversion failed for email ${emailId}:`, error)
+      );
+    }
+
+    if (['amount', 'currency', 'date', 'merchantName', 'accountNumber'].some(field => field in diff)) {
+      await deduplicationService.detect(emailId).catch(error =>
+        logger.error(`Duplicate detection failed for email ${emailId}:`, error)
+      );
+    }
+
+    if (['amount', 'currency', 'date', 'merchantName', 'transactionType'].some(field => field in diff)) {
+      await subscriptionService.detectForExtractedData(emailId).catch(error =>
+        logger.error(`Subscription detection failed for email ${emailId}:`, error)
+      );
+    }
+
+    if (['amount', 'currency', 'date', 'merchantName', 'merchantCategory', 'accountNumber', 'transactionType'].some(field => field in diff)) {
+      // The transaction may no longer count towards the budgets of its old month
+      const previousDate = item.extractedData?.transactionDate;
+      if (previousDate) {
+        await budgetService.refreshForUser(item.account.userId, previousDate).catch(error =>
+          logger.error(`Budget refresh failed for email ${emailId}:`, error)
+        );
+      }
+      await budgetService.evaluateForExtractedData(emailId).catch(error =>
+        logger.error(`Budget evaluation failed for email ${emailId}:`, error)
+      );
+      await anomalyService.scoreExtractedData(emailId).catch(error =>
+        logger.error(`Anomaly scoring failed for email ${emailId}:`, error)
+      );
+    }
+
+    // Corrected extractions become few-shot examples for the same sender
+    if (Object.keys(diff).length > 0) {
+      fewShotService.invalidateCache();
+    }
+
+    return diff;
+  }
+
+  /**
+   * The email is not a usable financial record; drop the extracted data.
+   * Returns false when the email is not queued.
+   */
+  async reject(emailId: string, reviewerId: string | undefined, reason: string | undefined): Promise<boolean> {
+    const item = await this.getItem(emailId, reviewerId);
+    if (!item) return false;
+
+    if (item.extractedData) {
+      await deduplicationService.releaseDuplicates(item.extractedData.id);
+    }
+
+    await prisma.$transaction([
+      prisma.processedEmail.update({
+        where: { id: emailId },
+        data: {
+          processingStatus: 'COMPLETED',
+          classification: 'UNCLASSIFIED',
+          isValidated: true
+        }
+      }),
+      prisma.extractedData.deleteMany({ where: { emailId } })
+    ]);
+
+    await this.recordDecision(item, 'rejected', reviewerId, {}, reason);
+
+    // The dropped charge may have been part of a subscription
+    const { merchantId, currency } = item.extractedData || {};
+    if (merchantId && currency) {
+      await subscriptionService.detectForMerchant(item.account.userId, merchantId, currency).catch(error =>
+        logger.error(`Subscription detection failed for email ${emailId}:`, error)
+      );
+    }
+
+    if (item.extractedData?.transactionDate) {
+      await budgetService.refreshForUser(item.account.userId, item.extractedData.transactionDate).catch(error =>
+        logger.error(`Budget refresh failed for email ${emailId}:`, error)
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * AI output in the same shape as ReviewCorrection
+   */
+  private snapshot(item: NonNullable<Awaited<ReturnType<ReviewService['getItem']>>>): Record<string, unknown> {
+    const data = item.extractedData;
+    return {
+      classification: item.classification,
+      amount: data?.transactionAmount !== null && data?.transactionAmount !== undefined ? Number(data.transactionAmount) : null,
+      currency: data?.currency ?? null,
+      date: data?.transactionDate ? data.transactionDate.toISOString().split('T')[0] : null,
+      merchantName: data?.merchantName ?? null,
+      merchantCategory: data?.merchantCategory ?? null,
+      accountNumber: data?.accountNumber ?? null,
+      transactionType: data?.transactionType ?? null,
+      description: data?.description ?? null,
+    };
+  }
+
+  private async recordDecision(
+    item: NonNullable<Awaited<ReturnType<ReviewService['getItem']>>>,
+    decision: ReviewDecision,
+    reviewerId: string | undefined,
+    diff: CorrectionDiff,
+    reason?: string
+  ): Promise<void> {
+    const original = this.snapshot(item);
+    const changedFields = Object.keys(diff);
+
+    await DatabaseOperations.createAuditLog({
+      userId: item.account.userId,
+      emailId: item.id,
+      action: 'EMAIL_VALIDATED',
+      entityType: 'ProcessedEmail',
+      entityId: item.id,
+      oldValues: decision === 'corrected'
+        ? Object.fromEntries(changedFields.map(field => [field, original[field] ?? null]))
+        : original,
+      newValues: decision === 'corrected'
+        ? Object.fromEntries(changedFields.map(field => [field, diff[field]!.to]))
+        : null,
+      metadata: {
+        decision,
+        reviewerId: reviewerId ?? null,
+        reviewReasons: item.reviewReasons,
+        diff,
+        ...(reason && { reason })
+      }
+    });
+
+    logger.info(`Review ${decision} for email ${item.id}${changedFields.length ? ` (${changedFields.join(', ')})` : ''}`);
+  }
+}
+
+export const reviewService = ReviewService.getInstance();
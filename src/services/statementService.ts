@@ -0,0 +1,414 @@
+import { CardStatement, Prisma, ReconciliationStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { CardStatementExtraction, openaiService } from './openaiService';
+import { exchangeRateService } from './exchangeRateService';
+import { financialAccountService } from './financialAccountService';
+import { CHARGE_TYPES } from './transactionService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export interface StatementFilters {
+  userId?: string | undefined;
+  financialAccountId?: string | undefined;
+  status?: ReconciliationStatus | undefined;
+  // Only statements due within this many days from now
+  dueWithinDays?: number | undefined;
+}
+
+export interface ReconciliationResult {
+  status: ReconciliationStatus;
+  // newCharges when the statement lists them, otherwise the change against the previous statement balance
+  basis: 'new_charges' | 'balance_change' | null;
+  expected: number | null;
+  captured: number | null;
+  difference: number | null;
+  transactionCount: number;
+  // Transactions in another currency without an exchange rate
+  unconverted: number;
+}
+
+const STATEMENT_SUBJECT = /\bstatement\b|estado de cuenta|resumen de cuenta|corte de (?:tu|su) tarjeta/i;
+const STATEMENT_LABELS = [
+  /minimum payment|pago m[ií]nimo/i,
+  /due date|fecha l[ií]mite de pago|fecha de vencimiento/i,
+  /new balance|statement balance|saldo al corte|saldo actual/i,
+];
+
+// PAYMENT covers both card purchases ("compra") and payments toward the card;
+// only the latter, told apart by their wording, reduce the balance
+const CARD_PAYMENT = /payment (?:received|posted|applied|thank you)|thank you for your payment|pago (?:recibido|aplicado|realizado a (?:tu|su) tarjeta|de (?:tu|su) tarjeta|a (?:tu|su) tarjeta)|abono a (?:tu|su) tarjeta/i;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const REMINDER_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const statementInclude = {
+  financialAccount: { select: { id: true, issuer: true, last4: true, nickname: true, userId: true } },
+  email: { select: { id: true, subject: true, fromAddress: true, receivedAt: true, accountId: true, account: { select: { userId: true } } } }
+} satisfies Prisma.CardStatementInclude;
+
+/**
+ * Credit card statements. Statement emails carry a billing cycle summary
+ * instead of a single transaction, so they are stored apart from the ledger,
+ * linked to the card, reconciled against the transactions captured for the
+ * cycle and used for payment due reminders.
+ */
+export class StatementService {
+  private static instance: StatementService;
+  private reminderTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): StatementService {
+    if (!StatementService.instance) {
+      StatementService.instance = new StatementService();
+    }
+    return StatementService.instance;
+  }
+
+  /**
+   * Whether a credit card email is a statement rather than a transaction alert
+   */
+  isStatement(subject: string, body: string): boolean {
+    const labels = STATEMENT_LABELS.filter(label => label.test(body)).length;
+    return labels === STATEMENT_LABELS.length || (STATEMENT_SUBJECT.test(subject) && labels >= 2);
+  }
+
+  /**
+   * Extract and store the statement of an email, link it to the card and
+   * reconcile it. Re-processing an email replaces its statement.
+   */
+  async processStatementEmail(emailId: string): Promise<{ statement: CardStatement; extraction: CardStatementExtraction }> {
+    const email = await prisma.processedEmail.findUnique({
+      where: { id: emailId },
+      include: { account: { select: { userId: true } } }
+    });
+    if (!email) {
+      throw new Error(`Email ${emailId} not found`);
+    }
+
+    const body = email.bodyText || email.bodyPreview || '';
+    const extraction = await openaiService.extractStatementData(email.subject, body, email.accountId);
+
+    // Statements often leave out the card number; fall back to the only card from the issuer
+    const account = await financialAccountService.findOrCreate({
+      userId: email.account.userId,
+      accountNumber: extraction.accountNumber,
+      subject: email.subject,
+      sender: email.fromAddress,
+      classification: 'CREDIT_CARD',
+      text: `${email.subject} ${body.substring(0, 500)}`,
+      currency: extraction.currency
+    }) || await financialAccountService.findByIssuer(email.account.userId, email.subject, email.fromAddress);
+
+    const fields = {
+      financialAccountId: account?.id ?? null,
+      currency: extraction.currency?.toUpperCase() ?? null,
+      statementBalance: extraction.statementBalance ?? null,
+      minimumPayment: extraction.minimumPayment ?? null,
+      creditLimit: extraction.creditLimit ?? null,
+      newCharges: extraction.newCharges ?? null,
+      dueDate: toDate(extraction.dueDate),
+      cycleStart: toDate(extraction.cycleStart),
+      cycleEnd: toDate(extraction.cycleEnd),
+      extractionScore: extraction.confidence
+    };
+
+    const stored = await prisma.cardStatement.upsert({
+      where: { emailId },
+      create: { emailId, ...fields },
+      update: { ...fields, reminderSentAt: null, reconciliationStatus: 'PENDING' }
+    });
+
+    if (account && extraction.statementBalance !== undefined) {
+      await financialAccountService.recordBalance(account, extraction.statementBalance, fields.cycleEnd || email.receivedAt);
+    }
+
+    await this.reconcile(stored.id);
+
+    const statement = await prisma.cardStatement.findUniqueOrThrow({ where: { id: stored.id } });
+    return { statement, extraction };
+  }
+
+  async list(filters: StatementFilters & { limit: number; offset: number }) {
+    const now = new Date();
+    const where: Prisma.CardStatementWhereInput = {
+      ...(filters.userId && { email: { account: { userId: filters.userId } } }),
+      ...(filters.financialAccountId && { financialAccountId: filters.financialAccountId }),
+      ...(filters.status && { reconciliationStatus: filters.status }),
+      ...(filters.dueWithinDays !== undefined && {
+        dueDate: { gte: startOfDay(now), lte: new Date(now.getTime() + filters.dueWithinDays * MS_PER_DAY) }
+      })
+    };
+
+    const [statements, total] = await Promise.all([
+      prisma.cardStatement.findMany({
+        where,
+        include: statementInclude,
+        orderBy: filters.dueWithinDays !== undefined ? { dueDate: 'asc' } : { cycleEnd: { sort: 'desc', nulls: 'last' } },
+        take: filters.limit,
+        skip: filters.offset
+      }),
+      prisma.cardStatement.count({ where })
+    ]);
+
+    return { statements, total };
+  }
+
+  /**
+   * A statement with the captured transactions of its cycle
+   */
+  async get(id: string) {
+    const statement = await prisma.cardStatement.findUnique({ where: { id }, include: statementInclude });
+    if (!statement) return null;
+
+    const transactions = statement.financialAccountId && statement.cycleStart && statement.cycleEnd
+      ? await prisma.extractedData.findMany({
+          where: this.cycleWhere(statement),
+          select: {
+            id: true,
+            transactionAmount: true,
+            currency: true,
+            transactionDate: true,
+            transactionType: true,
+            merchantName: true,
+            merchantCategory: true
+          },
+          orderBy: { transactionDate: 'asc' }
+        })
+      : [];
+
+    return { ...statement, transactions };
+  }
+
+  /**
+   * Compare the statement total with the transactions captured for the same
+   * card and cycle. Charges are counted like the ledger spend totals;
+   * transactions in another currency are converted at their own date.
+   * Returns null when the statement does not exist.
+   */
+  async reconcile(id: string): Promise<ReconciliationResult | null> {
+    const statement = await prisma.cardStatement.findUnique({ where: { id } });
+    if (!statement) return null;
+
+    const result = await this.computeReconciliation(statement);
+
+    await prisma.cardStatement.update({
+      where: { id },
+      data: {
+        reconciliationStatus: result.status,
+        reconciledTotal: result.captured,
+        reconciliationDifference: result.difference,
+        reconciledAt: new Date()
+      }
+    });
+
+    logger.info(`Reconciled statement ${id}: ${result.status}${result.difference !== null ? ` (difference ${result.difference})` : ''}`);
+    return result;
+  }
+
+  /**
+   * Notify the card owner of payments due within STATEMENT_REMINDER_DAYS.
+   * Each statement is reminded once. Returns the number of reminders sent.
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    const wsService = getWebSocketServiceInstance();
+    if (!wsService) {
+      // Leave them pending until there is somewhere to send them
+      return 0;
+    }
+
+    const days = parseInt(process.env.STATEMENT_REMINDER_DAYS || '5');
+    const statements = await prisma.cardStatement.findMany({
+      where: {
+        reminderSentAt: null,
+        dueDate: { gte: startOfDay(now), lte: new Date(now.getTime() + days * MS_PER_DAY) }
+      },
+      include: statementInclude,
+      orderBy: { dueDate: 'asc' }
+    });
+
+    for (const statement of statements) {
+      const card = statement.financialAccount
+        ? statement.financialAccount.nickname || `${statement.financialAccount.issuer || 'Card'} ****${statement.financialAccount.last4}`
+        : 'Credit card';
+      const amount = (value: Prisma.Decimal | null) =>
+        value !== null ? `${statement.currency ? `${statement.currency} ` : ''}${Number(value).toFixed(2)}` : null;
+      const balance = amount(statement.statementBalance);
+      const minimum = amount(statement.minimumPayment);
+
+      wsService.broadcastSystemNotification({
+        type: 'warning',
+        title: 'Card payment due soon',
+        userId: statement.email.account.userId,
+        message: `${card} payment${balance ? ` of ${balance}` : ''} is due on ${statement.dueDate!.toISOString().slice(0, 10)}${minimum ? ` (minimum ${minimum})` : ''}`,
+        data: {
+          statementId: statement.id,
+          financialAccountId: statement.financialAccountId,
+          dueDate: statement.dueDate,
+          currency: statement.currency,
+          statementBalance: statement.statementBalance !== null ? Number(statement.statementBalance) : null,
+          minimumPayment: statement.minimumPayment !== null ? Number(statement.minimumPayment) : null
+        }
+      });
+
+      await prisma.cardStatement.update({
+        where: { id: statement.id },
+        data: { reminderSentAt: now }
+      });
+    }
+
+    if (statements.length > 0) {
+      logger.info(`Sent ${statements.length} statement due date reminders`);
+    }
+    return statements.length;
+  }
+
+  /**
+   * Check for upcoming due dates now and then every hour
+   */
+  startReminders(): void {
+    if (this.reminderTimer) return;
+
+    const check = () => {
+      this.sendDueReminders().catch(error => logger.error('Failed to send statement due date reminders:', error));
+    };
+
+    check();
+    this.reminderTimer = setInterval(check, REMINDER_CHECK_INTERVAL_MS);
+    logger.info('Statement due date reminders scheduled');
+  }
+
+  stopReminders(): void {
+    if (this.reminderTimer) {
+      clearInterval(this.reminderTimer);
+      this.reminderTimer = null;
+    }
+  }
+
+  private async computeReconciliation(statement: CardStatement): Promise<ReconciliationResult> {
+    const insufficient: ReconciliationResult = {
+      status: 'INSUFFICIENT_DATA',
+      basis: null,
+      expected: null,
+      captured: null,
+      difference: null,
+      transactionCount: 0,
+      unconverted: 0
+    };
+
+    if (!statement.financialAccountId || !statement.cycleStart || !statement.cycleEnd || !statement.currency) {
+      return insufficient;
+    }
+
+    // Without the new charges, compare against how much the balance moved since the previous statement
+    let basis: ReconciliationResult['basis'] = null;
+    let expected: number | null = null;
+    if (statement.newCharges !== null) {
+      basis = 'new_charges';
+      expected = Number(statement.newCharges);
+    } else if (statement.statementBalance !== null) {
+      const previous = await prisma.cardStatement.findFirst({
+        where: {
+          financialAccountId: statement.financialAccountId,
+          currency: statement.currency,
+          cycleEnd: { lt: statement.cycleEnd },
+          statementBalance: { not: null },
+          id: { not: statement.id }
+        },
+        orderBy: { cycleEnd: 'desc' }
+      });
+      if (previous) {
+        basis = 'balance_change';
+        expected = Number(statement.statementBalance) - Number(previous.statementBalance);
+      }
+    }
+
+    if (basis === null || expected === null) {
+      return insufficient;
+    }
+
+    const transactions = await prisma.extractedData.findMany({
+      where: {
+        ...this.cycleWhere(statement),
+        transactionType: { in: basis === 'new_charges' ? CHARGE_TYPES : [...CHARGE_TYPES, 'CREDIT'] }
+      },
+      select: {
+        transactionAmount: true,
+        currency: true,
+        transactionDate: true,
+        transactionType: true,
+        description: true,
+        email: { select: { subject: true } }
+      }
+    });
+
+    let captured = 0;
+    let unconverted = 0;
+    let counted = 0;
+    for (const transaction of transactions) {
+      const credit = transaction.transactionType === 'CREDIT' || isCardPayment(transaction);
+      if (credit && basis === 'new_charges') continue;
+      counted++;
+
+      let amount = Number(transaction.transactionAmount);
+      if (transaction.currency && transaction.currency.toUpperCase() !== statement.currency) {
+        const conversion = await exchangeRateService.convert(amount, transaction.currency, statement.currency, transaction.transactionDate!);
+        if (conversion.amountUserCurrency === null) {
+          unconverted++;
+          continue;
+        }
+        amount = conversion.amountUserCurrency;
+      }
+      captured += credit ? -amount : amount;
+    }
+
+    captured = round(captured);
+    expected = round(expected);
+    const difference = round(expected - captured);
+    const tolerance = parseFloat(process.env.STATEMENT_RECONCILE_TOLERANCE || '1');
+
+    return {
+      status: unconverted > 0 ? 'INSUFFICIENT_DATA' : Math.abs(difference) <= tolerance ? 'MATCHED' : 'MISMATCH',
+      basis,
+      expected,
+      captured,
+      difference,
+      transactionCount: counted,
+      unconverted
+    };
+  }
+
+  /**
+   * Non-duplicate transactions of the statement's card within its cycle
+   */
+  private cycleWhere(statement: CardStatement): Prisma.ExtractedDataWhereInput {
+    return {
+      financialAccountId: statement.financialAccountId,
+      duplicateOfId: null,
+      transactionAmount: { not: null },
+      transactionDate: {
+        gte: startOfDay(statement.cycleStart!),
+        lt: new Date(startOfDay(statement.cycleEnd!).getTime() + MS_PER_DAY)
+      }
+    };
+  }
+}
+
+function toDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// A payment toward the card rather than a purchase stored as PAYMENT
+function isCardPayment(transaction: { transactionType: TransactionType; description: string | null; email: { subject: string } }): boolean {
+  return transaction.transactionType === 'PAYMENT'
+    && CARD_PAYMENT.test(`${transaction.description ?? ''}\n${transaction.email.subject}`);
+}
+
+export const statementService = StatementService.getInstance();
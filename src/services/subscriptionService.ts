@@ -0,0 +1,471 @@
+import { Prisma, Subscription, SubscriptionInterval, SubscriptionStatus } from '@prisma/client';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+import { CHARGE_TYPES } from './transactionService';
+import { getWebSocketServiceInstance } from './websocketService';
+
+export interface SubscriptionFilters {
+  userId?: string | undefined;
+  merchantId?: string | undefined;
+  status?: SubscriptionStatus | undefined;
+  interval?: SubscriptionInterval | undefined;
+}
+
+export interface SubscriptionView {
+  id: string;
+  userId: string;
+  merchant: { id: string; canonicalName: string; defaultCategory: string | null };
+  currency: string;
+  interval: SubscriptionInterval;
+  status: SubscriptionStatus;
+  averageAmount: number;
+  lastAmount: number;
+  chargeCount: number;
+  firstChargeAt: Date;
+  lastChargeAt: Date;
+  nextExpectedAt: Date;
+  priceChange: { previousAmount: number; currentAmount: number; changePercent: number; changedAt: Date } | null;
+}
+
+interface IntervalSpec {
+  interval: SubscriptionInterval;
+  days: number;
+  // Allowed drift of a single gap, in days
+  tolerance: number;
+}
+
+interface Charge {
+  id: string;
+  amount: number;
+  date: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Longest first, so a monthly charge is not read as weekly with missed weeks
+const INTERVALS: IntervalSpec[] = [
+  { interval: 'YEARLY', days: 365.25, tolerance: 15 },
+  { interval: 'QUARTERLY', days: 91.31, tolerance: 8 },
+  { interval: 'MONTHLY', days: 30.44, tolerance: 4 },
+  { interval: 'WEEKLY', days: 7, tolerance: 1 },
+];
+
+// Share of gaps that must fit the interval; the rest covers shifted billing dates
+const REGULAR_GAP_SHARE = 0.75;
+
+// Smaller moves are exchange rate or tax noise, not a new price
+const PRICE_CHANGE_MIN_SHARE = 0.02;
+
+const subscriptionInclude = {
+  merchant: { select: { id: true, canonicalName: true, defaultCategory: true } }
+} satisfies Prisma.SubscriptionInclude;
+
+type SubscriptionRow = Prisma.SubscriptionGetPayload<{ include: typeof subscriptionInclude }>;
+
+/**
+ * Detects recurring charges: transactions at the same canonical merchant and
+ * currency with similar amounts at regular weekly, monthly, quarterly or
+ * yearly intervals. Each detection rebuilds the merchant's subscription from
+ * its full charge history, so corrections and late alerts are picked up.
+ */
+export class SubscriptionService {
+  private static instance: SubscriptionService;
+
+  static getInstance(): SubscriptionService {
+    if (!SubscriptionService.instance) {
+      SubscriptionService.instance = new SubscriptionService();
+    }
+    return SubscriptionService.instance;
+  }
+
+  private get minCharges(): number {
+    return parseInt(process.env.SUBSCRIPTION_MIN_CHARGES || '3');
+  }
+
+  // Largest relative change between consecutive charges of one subscription
+  private get amountTolerance(): number {
+    return parseFloat(process.env.SUBSCRIPTION_AMOUNT_TOLERANCE || '0.25');
+  }
+
+  /**
+   * Re-detect the subscription for the merchant and currency of an email's
+   * transaction. Returns the subscription, or null when there is none.
+   */
+  async detectForExtractedData(emailId: string): Promise<Subscription | null> {
+    const row = await prisma.extractedData.findUnique({
+      where: { emailId },
+      select: {
+        merchantId: true,
+        currency: true,
+        subscriptionId: true,
+        email: { select: { account: { select: { userId: true } } } }
+      }
+    });
+    if (!row) return null;
+
+    // The transaction may have moved to another merchant or currency
+    const previous = row.subscriptionId
+      ? await prisma.subscription.findUnique({ where: { id: row.subscriptionId } })
+      : null;
+    if (previous && (previous.merchantId !== row.merchantId || previous.currency !== row.currency)) {
+      await this.detectForMerchant(previous.userId, previous.merchantId, previous.currency);
+    }
+
+    if (!row.merchantId || !row.currency) return null;
+    return this.detectForMerchant(row.email.account.userId, row.merchantId, row.currency);
+  }
+
+  /**
+   * Re-detect every merchant and currency group, e.g. after merchants were
+   * merged or split, or for a backfill
+   */
+  async detectAll(options: { merchantIds?: string[] | undefined; batchSize?: number } = {}): Promise<{ groups: number; subscriptions: number }> {
+    const batchSize = options.batchSize || 500;
+    const keys = new Map<string, { userId: string; merchantId: string; currency: string }>();
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.extractedData.findMany({
+        where: {
+          merchantId: options.merchantIds ? { in: options.merchantIds } : { not: null },
+          currency: { not: null }
+        },
+        select: { id: true, merchantId: true, currency: true, email: { select: { account: { select: { userId: true } } } } },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        const userId = row.email.account.userId;
+        keys.set(`${userId}:${row.merchantId}:${row.currency}`, { userId, merchantId: row.merchantId!, currency: row.currency! });
+      }
+
+      cursor = batch[batch.length - 1]!.id;
+    }
+
+    let subscriptions = 0;
+    for (const key of keys.values()) {
+      if (await this.detectForMerchant(key.userId, key.merchantId, key.currency)) {
+        subscriptions++;
+      }
+    }
+
+    logger.info(`Subscription detection checked ${keys.size} merchant groups, ${subscriptions} subscriptions`);
+    return { groups: keys.size, subscriptions };
+  }
+
+  /**
+   * Subscriptions with their status as of now, active ones first
+   */
+  async list(filters: SubscriptionFilters): Promise<SubscriptionView[]> {
+    const now = new Date();
+    const rows = await prisma.subscription.findMany({
+      where: {
+        ...(filters.userId && { userId: filters.userId }),
+        ...(filters.merchantId && { merchantId: filters.merchantId }),
+        ...(filters.status && statusWhere(filters.status, now)),
+        ...(filters.interval && { interval: filters.interval })
+      },
+      include: subscriptionInclude,
+      orderBy: { nextExpectedAt: 'asc' }
+    });
+
+    const views = rows.map(row => this.toView(row, now));
+    return [...views.filter(view => view.status === 'ACTIVE'), ...views.filter(view => view.status !== 'ACTIVE')];
+  }
+
+  /**
+   * A subscription with the charges it was detected from
+   */
+  async get(id: string) {
+    const row = await prisma.subscription.findUnique({
+      where: { id },
+      include: {
+        ...subscriptionInclude,
+        charges: {
+          select: { id: true, emailId: true, transactionAmount: true, transactionDate: true, merchantName: true },
+          orderBy: { transactionDate: 'desc' }
+        }
+      }
+    });
+    if (!row) return null;
+
+    return {
+      ...this.toView(row),
+      charges: row.charges.map(charge => ({
+        id: charge.id,
+        emailId: charge.emailId,
+        amount: Number(charge.transactionAmount),
+        date: charge.transactionDate,
+        merchantName: charge.merchantName
+      }))
+    };
+  }
+
+  /**
+   * Subscriptions whose price changed since the given date, latest first
+   */
+  async getPriceChanges(since: Date, userId?: string): Promise<SubscriptionView[]> {
+    const rows = await prisma.subscription.findMany({
+      where: {
+        priceChangedAt: { gte: since },
+        ...(userId && { userId })
+      },
+      include: subscriptionInclude,
+      orderBy: { priceChangedAt: 'desc' }
+    });
+    return rows.map(row => this.toView(row));
+  }
+
+  /**
+   * Rebuild the subscription of one user, merchant and currency from its
+   * charges; removes it when the charges no longer look recurring
+   */
+  async detectForMerchant(userId: string, merchantId: string, currency: string): Promise<Subscription | null> {
+    const rows = await prisma.extractedData.findMany({
+      where: {
+        merchantId,
+        currency,
+        duplicateOfId: null,
+        transactionAmount: { not: null },
+        transactionDate: { not: null },
+        transactionType: { in: CHARGE_TYPES },
+        email: { account: { userId } }
+      },
+      select: { id: true, transactionAmount: true, transactionDate: true },
+      orderBy: { transactionDate: 'asc' }
+    });
+
+    const charges: Charge[] = rows.map(row => ({
+      id: row.id,
+      amount: Number(row.transactionAmount),
+      date: row.transactionDate!
+    }));
+
+    const existing = await prisma.subscription.findUnique({
+      where: { userId_merchantId_currency: { userId, merchantId, currency } }
+    });
+
+    const spec = this.matchInterval(charges);
+    if (!spec) {
+      if (existing) {
+        await prisma.subscription.delete({ where: { id: existing.id } });
+        logger.info(`Subscription ${existing.id} no longer recurring, removed`);
+      }
+      return null;
+    }
+
+    const last = charges[charges.length - 1]!;
+    const nextExpectedAt = addInterval(last.date, spec);
+    const priceChange = latestPriceChange(charges);
+    const current = this.priceSegments(charges).pop()!;
+
+    const fields = {
+      interval: spec.interval,
+      status: statusAt(spec, nextExpectedAt, new Date()),
+      averageAmount: round(current.reduce((sum, charge) => sum + charge.amount, 0) / current.length),
+      lastAmount: last.amount,
+      previousAmount: priceChange?.previousAmount ?? null,
+      priceChangedAt: priceChange?.changedAt ?? null,
+      chargeCount: charges.length,
+      firstChargeAt: charges[0]!.date,
+      lastChargeAt: last.date,
+      nextExpectedAt
+    };
+
+    const subscription = await prisma.subscription.upsert({
+      where: { userId_merchantId_currency: { userId, merchantId, currency } },
+      create: { userId, merchantId, currency, ...fields },
+      update: fields
+    });
+
+    await prisma.$transaction([
+      prisma.extractedData.updateMany({
+        where: { subscriptionId: subscription.id, id: { notIn: charges.map(charge => charge.id) } },
+        data: { subscriptionId: null }
+      }),
+      prisma.extractedData.updateMany({
+        where: { id: { in: charges.map(charge => charge.id) } },
+        data: { subscriptionId: subscription.id }
+      })
+    ]);
+
+    // Only alert on changes that arrive after the subscription was known, not on backfilled history
+    if (existing && priceChange && existing.priceChangedAt?.getTime() !== priceChange.changedAt.getTime()) {
+      await this.notifyPriceChange(subscription, priceChange.previousAmount);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Regular interval of the charges, or null when they are not recurring or
+   * their amounts jump around. A lasting price change is fine; an amount
+   * that only shows up once before the price moves again is not.
+   */
+  private matchInterval(charges: Charge[]): IntervalSpec | null {
+    if (charges.some(charge => charge.amount <= 0)) return null;
+    if (this.priceSegments(charges).slice(0, -1).some(segment => segment.length < 2)) return null;
+
+    const gaps = charges.slice(1).map((charge, i) => (charge.date.getTime() - charges[i]!.date.getTime()) / MS_PER_DAY);
+
+    for (const spec of INTERVALS) {
+      const minCharges = spec.interval === 'YEARLY' ? Math.min(this.minCharges, 2) : this.minCharges;
+      if (charges.length < minCharges) continue;
+
+      // A second charge within one period means this is not a plain subscription
+      if (gaps.some(gap => gap < spec.days - spec.tolerance)) continue;
+
+      // A gap of several periods is a missed alert, not a broken pattern
+      const regular = gaps.filter(gap => {
+        const periods = Math.max(1, Math.round(gap / spec.days));
+        return Math.abs(gap - periods * spec.days) <= spec.tolerance * periods;
+      }).length;
+      if (regular >= Math.ceil(gaps.length * REGULAR_GAP_SHARE)) {
+        return spec;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Split the charges, oldest first, into runs at one price. A charge further
+   * than the amount tolerance from the median of the current run starts a new one.
+   */
+  private priceSegments(charges: Charge[]): Charge[][] {
+    const segments: Charge[][] = [];
+    let segment: Charge[] = [];
+    for (const charge of charges) {
+      const price = median(segment.map(c => c.amount));
+      if (segment.length > 0 && Math.abs(charge.amount - price) / price > this.amountTolerance) {
+        segments.push(segment);
+        segment = [];
+      }
+      segment.push(charge);
+    }
+    segments.push(segment);
+    return segments;
+  }
+
+  private toView(row: SubscriptionRow, now: Date = new Date()): SubscriptionView {
+    const lastAmount = Number(row.lastAmount);
+    const previousAmount = row.previousAmount !== null ? Number(row.previousAmount) : null;
+
+    return {
+      id: row.id,
+      userId: row.userId,
+      merchant: row.merchant,
+      currency: row.currency,
+      interval: row.interval,
+      status: statusAt(intervalSpec(row.interval), row.nextExpectedAt, now),
+      averageAmount: Number(row.averageAmount),
+      lastAmount,
+      chargeCount: row.chargeCount,
+      firstChargeAt: row.firstChargeAt,
+      lastChargeAt: row.lastChargeAt,
+      nextExpectedAt: row.nextExpectedAt,
+      priceChange: previousAmount !== null && row.priceChangedAt
+        ? {
+            previousAmount,
+            currentAmount: lastAmount,
+            changePercent: round((lastAmount - previousAmount) / previousAmount * 100),
+            changedAt: row.priceChangedAt
+          }
+        : null
+    };
+  }
+
+  private async notifyPriceChange(subscription: Subscription, previousAmount: number): Promise<void> {
+    const merchant = await prisma.merchant.findUnique({ where: { id: subscription.merchantId }, select: { canonicalName: true } });
+    const lastAmount = Number(subscription.lastAmount);
+    const change = round((lastAmount - previousAmount) / previousAmount * 100);
+
+    logger.info(`Subscription ${subscription.id} price changed from ${previousAmount} to ${lastAmount} ${subscription.currency}`);
+
+    const wsService = getWebSocketServiceInstance();
+    if (wsService) {
+      wsService.broadcastSystemNotification({
+        type: change > 0 ? 'warning' : 'info',
+        title: 'Subscription price changed',
+        userId: subscription.userId,
+        message: `${merchant?.canonicalName || 'Subscription'} now charges ${subscription.currency} ${lastAmount.toFixed(2)} (was ${previousAmount.toFixed(2)}, ${change > 0 ? '+' : ''}${change}%)`,
+        data: {
+          subscriptionId: subscription.id,
+          merchantId: subscription.merchantId,
+          currency: subscription.currency,
+          previousAmount,
+          lastAmount,
+          changePercent: change,
+          changedAt: subscription.priceChangedAt
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Most recent point where the amount changed, with the amount before it
+ */
+function latestPriceChange(charges: Charge[]): { previousAmount: number; changedAt: Date } | null {
+  for (let i = charges.length - 1; i > 0; i--) {
+    const current = charges[i]!;
+    const previous = charges[i - 1]!;
+    if (previous.amount > 0 && Math.abs(current.amount - previous.amount) / previous.amount >= PRICE_CHANGE_MIN_SHARE) {
+      return { previousAmount: previous.amount, changedAt: current.date };
+    }
+  }
+  return null;
+}
+
+function intervalSpec(interval: SubscriptionInterval): IntervalSpec {
+  return INTERVALS.find(spec => spec.interval === interval)!;
+}
+
+/**
+ * INACTIVE once the expected charge is more than the interval's drift late.
+ * Derived when read, since nothing else updates a subscription until its next
+ * charge arrives.
+ */
+function statusAt(spec: IntervalSpec, nextExpectedAt: Date, now: Date): SubscriptionStatus {
+  return now.getTime() > nextExpectedAt.getTime() + spec.tolerance * MS_PER_DAY ? 'INACTIVE' : 'ACTIVE';
+}
+
+function statusWhere(status: SubscriptionStatus, now: Date): Prisma.SubscriptionWhereInput {
+  return {
+    OR: INTERVALS.map(spec => {
+      const deadline = new Date(now.getTime() - spec.tolerance * MS_PER_DAY);
+      return { interval: spec.interval, nextExpectedAt: status === 'ACTIVE' ? { gte: deadline } : { lt: deadline } };
+    })
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
+
+/**
+ * Next expected charge date; monthly and longer intervals keep the day of month
+ */
+function addInterval(date: Date, spec: IntervalSpec): Date {
+  if (spec.interval === 'WEEKLY') {
+    return new Date(date.getTime() + 7 * MS_PER_DAY);
+  }
+
+  const months = spec.interval === 'MONTHLY' ? 1 : spec.interval === 'QUARTERLY' ? 3 : 12;
+  const next = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1, date.getUTCHours(), date.getUTCMinutes()));
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return next;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const subscriptionService = SubscriptionService.getInstance();
@@ -0,0 +1,37 @@
+import { TemplateParser } from './types';
+import { parseAmount, parseCardLast4, parseDayMonthYear, readField } from './helpers';
+
+/**
+ * Banco Card "Notificación de Consumo" alerts
+ */
+export const bancoCardParser: TemplateParser = {
+  name: 'bancocard',
+  version: 'template:bancocard-v1',
+  issuer: 'Banco Card',
+  senderDomains: ['bancocard.do'],
+  subjectPattern: /^notificaci[oó]n de consumo/i,
+  sampleType: 'spanish_notificacion_consumo',
+
+  parse(email) {
+    const money = parseAmount(readField(email.body, 'Monto'));
+    const merchantName = readField(email.body, 'Comercio');
+    const date = parseDayMonthYear(readField(email.body, 'Fecha de transacci[oó]n'));
+    const accountNumber = parseCardLast4(readField(email.body, '[UÚ]ltimos d[ií]gitos de la tarjeta'));
+
+    if (!money || !merchantName || !date) {
+      return null;
+    }
+
+    return {
+      amount: money.amount,
+      currency: money.currency,
+      date,
+      merchantName,
+      accountNumber,
+      transactionId: readField(email.body, 'Referencia'),
+      transactionType: 'debit',
+      description: `Consumo en ${merchantName}`,
+      confidence: 0.99,
+    };
+  },
+};
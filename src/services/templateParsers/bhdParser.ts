@@ -0,0 +1,39 @@
+import { TemplateParser } from './types';
+import { parseAmount, parseCardLast4, parseDayMonthYear, readField } from './helpers';
+
+/**
+ * BHD León "Notificación de Transacciones" card alerts
+ */
+export const bhdParser: TemplateParser = {
+  name: 'bhd',
+  version: 'template:bhd-v1',
+  issuer: 'BHD León',
+  senderDomains: ['bhdleon.com.do', 'bhd.com.do'],
+  subjectPattern: /^bhd notificaci[oó]n de transacciones/i,
+  sampleType: 'spanish_bhd_transacciones',
+
+  parse(email) {
+    const money = parseAmount(readField(email.body, 'Monto de la transacci[oó]n'));
+    const merchantName = readField(email.body, 'Establecimiento');
+    const date = parseDayMonthYear(readField(email.body, 'Fecha y hora'));
+    const accountNumber = parseCardLast4(readField(email.body, 'N[uú]mero de tarjeta'));
+
+    if (!money || !merchantName || !date) {
+      return null;
+    }
+
+    const type = readField(email.body, 'Tipo de operaci[oó]n')?.toLowerCase();
+
+    return {
+      amount: money.amount,
+      currency: money.currency,
+      date,
+      merchantName,
+      accountNumber,
+      transactionId: readField(email.body, 'C[oó]digo de autorizaci[oó]n'),
+      transactionType: type && /consumo|compra/.test(type) ? 'debit' : undefined,
+      description: `Consumo en ${merchantName}`,
+      confidence: 0.99,
+    };
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * Shared field readers for the fixed-layout bank alert parsers
+ */
+
+const CURRENCY_PREFIXES: Array<[RegExp, string]> = [
+  [/^(RD\$|DOP\$?|RD)/i, 'DOP'],
+  [/^(US\$|USD\$?)/i, 'USD'],
+  [/^\$/, 'USD'],
+];
+
+/**
+ * Value of a "Label: value" line. Labels are regex sources so accents and
+ * spacing variations can be matched.
+ */
+export function readField(body: string, label: string): string | undefined {
+  const match = body.match(new RegExp(`^\\s*${label}\\s*:\\s*(.+?)\\s*$`, 'im'));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * "RD$1,500.00" -> { amount: 1500, currency: 'DOP' }. Dominican alerts use
+ * "," for thousands and "." for decimals.
+ */
+export function parseAmount(value: string | undefined): { amount: number; currency: string } | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  let currency: string | null = null;
+  let rest = trimmed;
+
+  for (const [pattern, code] of CURRENCY_PREFIXES) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      currency = code;
+      rest = trimmed.slice(match[0].length);
+      break;
+    }
+  }
+
+  const numberMatch = rest.match(/^\s*([\d,]+(?:\.\d{1,2})?)/);
+  if (!currency || !numberMatch) return null;
+
+  const amount = parseFloat(numberMatch[1]!.replace(/,/g, ''));
+  return isFinite(amount) ? { amount, currency } : null;
+}
+
+/**
+ * "5/10/2026" (day first) -> "2026-10-05"
+ */
+export function parseDayMonthYear(value: string | undefined): string | undefined {
+  const match = value?.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (!match) return undefined;
+
+  const day = parseInt(match[1]!);
+  const month = parseInt(match[2]!);
+  if (day < 1 || day > 31 || month < 1 || month > 12) return undefined;
+
+  return `${match[3]}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Last four digits of a masked card number
+ */
+export function parseCardLast4(value: string | undefined): string | undefined {
+  const digits = value?.replace(/\D/g, '');
+  return digits && digits.length >= 4 ? digits.slice(-4) : undefined;
+}
@@ -0,0 +1,149 @@
+import { FinancialDataExtraction } from '../openaiService';
+import { DatabaseOperations } from '../../utils/database';
+import { logger } from '../../utils/logger';
+import { SampleEmailGenerator } from '../../utils/sampleEmails';
+import { TemplateEmail, TemplateParser } from './types';
+import { qikParser } from './qikParser';
+import { bancoCardParser } from './bancoCardParser';
+import { bhdParser } from './bhdParser';
+
+export { TemplateEmail, TemplateParser } from './types';
+
+export interface TemplateParseResult {
+  parser: string;
+  extraction: FinancialDataExtraction;
+}
+
+export interface ParserSelfTestResult {
+  parser: string;
+  passed: number;
+  failures: string[];
+}
+
+const SELF_TEST_FIELDS = ['amount', 'currency', 'merchantName', 'date', 'accountNumber', 'transactionType'] as const;
+
+/**
+ * Deterministic parsers for fixed-layout bank alerts. Extraction only falls
+ * through to the LLM when no parser matches or the matching parser fails.
+ */
+export class TemplateParserRegistry {
+  private parsers: TemplateParser[];
+
+  constructor(parsers: TemplateParser[]) {
+    this.parsers = parsers;
+  }
+
+  getParsers(): TemplateParser[] {
+    return [...this.parsers];
+  }
+
+  /**
+   * Find the parser for an email by sender domain or subject. Forwarded
+   * alerts lose the bank's sender, so the subject alone is enough.
+   */
+  findParser(email: TemplateEmail): TemplateParser | null {
+    const subject = email.subject.replace(/^((fwd?|rv|re|reenviado)\s*:\s*)+/i, '').trim();
+    const domain = email.sender?.toLowerCase().match(/@([a-z0-9.-]+)/)?.[1];
+
+    return this.parsers.find(parser =>
+      parser.subjectPattern.test(subject) ||
+      (domain !== undefined && parser.senderDomains.some(d => domain === d || domain.endsWith(`.${d}`)))
+    ) || null;
+  }
+
+  /**
+   * Parse with the matching template parser, or null when the LLM is needed
+   */
+  tryParse(email: TemplateEmail): TemplateParseResult | null {
+    const parser = this.findParser(email);
+    if (!parser) {
+      return null;
+    }
+
+    let extraction: FinancialDataExtraction | null = null;
+    try {
+      extraction = parser.parse(email);
+    } catch (error) {
+      logger.error(`Template parser ${parser.name} threw, falling back to LLM:`, error);
+    }
+
+    this.recordOutcome(parser.name, extraction ? 'parsed' : 'failed');
+
+    if (!extraction) {
+      logger.warn(`Template parser ${parser.name} matched "${email.subject}" but could not parse it, falling back to LLM`);
+      return null;
+    }
+
+    logger.debug(`Extracted "${email.subject}" with template parser ${parser.name}`);
+    return { parser: parser.name, extraction: { ...extraction, promptVersion: parser.version } };
+  }
+
+  /**
+   * Run every parser against generated samples of its template and check the
+   * known values. Also checks that no parser claims another template's email.
+   */
+  selfTest(samplesPerParser: number = 5): ParserSelfTestResult[] {
+    const generator = new SampleEmailGenerator();
+    const results: ParserSelfTestResult[] = [];
+
+    for (const parser of this.parsers) {
+      const result: ParserSelfTestResult = { parser: parser.name, passed: 0, failures: [] };
+
+      for (let i = 0; i < samplesPerParser; i++) {
+        const sample = generator.generateEmailByType(parser.sampleType);
+        const email = { subject: sample.subject, body: sample.body, sender: sample.from };
+
+        const matched = this.findParser(email);
+        if (matched !== parser) {
+          result.failures.push(`${sample.id}: matched ${matched?.name ?? 'no parser'}`);
+          continue;
+        }
+
+        const extraction = parser.parse(email);
+        if (!extraction) {
+          result.failures.push(`${sample.id}: parser returned null`);
+          continue;
+        }
+
+        const mismatches = SELF_TEST_FIELDS.filter(field => {
+          const expected = sample.labels?.[field];
+          return expected !== undefined && expected !== extraction[field];
+        }).map(field => `${field} expected ${sample.labels?.[field]} got ${extraction[field]}`);
+
+        if (mismatches.length > 0) {
+          result.failures.push(`${sample.id}: ${mismatches.join(', ')}`);
+        } else {
+          result.passed++;
+        }
+      }
+
+      for (const type of SampleEmailGenerator.EMAIL_TYPES.filter(t => t !== parser.sampleType)) {
+        const sample = generator.generateEmailByType(type);
+        const matched = this.findParser({ subject: sample.subject, body: sample.body, sender: sample.from });
+        if (matched === parser) {
+          result.failures.push(`${type} sample wrongly matched ${parser.name}`);
+        }
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private recordOutcome(parser: string, outcome: 'parsed' | 'failed'): void {
+    DatabaseOperations.recordPerformanceMetric({
+      metricName: 'template_parser_result',
+      metricValue: 1,
+      metricUnit: 'count',
+      category: 'ai_processing',
+      tags: { parser, outcome }
+    }).catch(error => logger.debug('Failed to record template parser metric:', error));
+  }
+}
+
+export const templateParserRegistry = new TemplateParserRegistry([
+  qikParser,
+  bancoCardParser,
+  bhdParser,
+]);
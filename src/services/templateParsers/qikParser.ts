@@ -0,0 +1,38 @@
+import { TemplateParser } from './types';
+import { parseAmount, parseCardLast4, parseDayMonthYear, readField } from './helpers';
+
+/**
+ * Qik "Usaste tu tarjeta de crédito" purchase alerts
+ */
+export const qikParser: TemplateParser = {
+  name: 'qik',
+  version: 'template:qik-v1',
+  issuer: 'Qik',
+  senderDomains: ['qik.com', 'qik.do'],
+  subjectPattern: /^usaste tu tarjeta de cr[eé]dito qik/i,
+  sampleType: 'spanish_qik_credit_card',
+
+  parse(email) {
+    const money = parseAmount(readField(email.body, 'Monto'));
+    const merchantName = readField(email.body, 'Establecimiento');
+    const date = parseDayMonthYear(readField(email.body, 'Fecha'));
+    const accountNumber = parseCardLast4(readField(email.body, 'Tarjeta terminada en'));
+
+    if (!money || !merchantName || !date) {
+      return null;
+    }
+
+    const type = readField(email.body, 'Tipo de transacci[oó]n')?.toLowerCase();
+
+    return {
+      amount: money.amount,
+      currency: money.currency,
+      date,
+      merchantName,
+      accountNumber,
+      transactionType: type && /compra|consumo/.test(type) ? 'debit' : undefined,
+      description: `Compra con tarjeta Qik en ${merchantName}`,
+      confidence: 0.99,
+    };
+  },
+};
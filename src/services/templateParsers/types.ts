@@ -0,0 +1,25 @@
+import { FinancialDataExtraction } from '../openaiService';
+
+export interface TemplateEmail {
+  subject: string;
+  body: string;
+  sender?: string | undefined;
+}
+
+export interface TemplateParser {
+  name: string;
+  // Bumped whenever parsing rules change, recorded as the extraction prompt version
+  version: string;
+  // Bank or card issuer, used to name discovered financial accounts
+  issuer: string;
+  senderDomains: string[];
+  // Matched against the subject with forwarding prefixes stripped
+  subjectPattern: RegExp;
+  // SampleEmailGenerator template the parser is tested against
+  sampleType: string;
+  /**
+   * Parse the email, or return null when the layout does not match closely
+   * enough to trust the result
+   */
+  parse(email: TemplateEmail): FinancialDataExtraction | null;
+}
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/database';
+import { logger } from '../utils/logger';
+
+// enc:v1:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>, all base64
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+export interface RotationResult {
+  scanned: number;
+  rotated: number;
+  // Rows whose tokens were replaced while being rotated; they were written with the active key
+  skipped: number;
+}
+
+/**
+ * Envelope encryption for the OAuth tokens of email accounts. Each value gets
+ * its own random data key, which is wrapped with a master key from
+ * TOKEN_ENCRYPTION_KEYS ("keyId:base64key,..."; the first key is active, the
+ * rest are only used to read). Rotating the master key re-wraps data keys
+ * only, and rows written with an older key stay readable until rotated.
+ *
+ * Values without the envelope prefix are read as plaintext, so accounts
+ * stored before encryption keep working until the rotation command runs.
+ */
+export class TokenEncryptionService {
+  private static instance: TokenEncryptionService;
+  private keys: MasterKey[] | null = null;
+  private warnedUnconfigured = false;
+
+  static getInstance(): TokenEncryptionService {
+    if (!TokenEncryptionService.instance) {
+      TokenEncryptionService.instance = new TokenEncryptionService();
+    }
+    return TokenEncryptionService.instance;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+  }
+
+  /**
+   * Encrypt a token with a fresh data key. Without configured keys the value
+   * is stored as is, except in production.
+   */
+  encrypt(plaintext: string): string {
+    const active = this.getActiveKey();
+    if (!active) return plaintext;
+
+    const dataKey = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return this.format({
+      keyId: active.id,
+      wrappedKey: this.wrapKey(dataKey, active),
+      iv,
+      tag: cipher.getAuthTag(),
+      ciphertext
+    });
+  }
+
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const envelope = this.parse(value);
+    const dataKey = this.unwrapKey(envelope.wrappedKey, this.getKey(envelope.keyId));
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, envelope.iv);
+    decipher.setAuthTag(envelope.tag);
+    return Buffer.concat([decipher.update(envelope.ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * The value re-wrapped with the active key, or null when it already uses
+   * it. Plaintext values are encrypted.
+   */
+  rotate(value: string): string | null {
+    const active = this.getActiveKey();
+    if (!active) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS is not configured');
+    }
+
+    if (!this.isEncrypted(value)) return this.encrypt(value);
+
+    const envelope = this.parse(value);
+    if (envelope.keyId === active.id) return null;
+
+    const dataKey = this.unwrapKey(envelope.wrappedKey, this.getKey(envelope.keyId));
+    return this.format({ ...envelope, keyId: active.id, wrappedKey: this.wrapKey(dataKey, active) });
+  }
+
+  /**
+   * Re-wrap the tokens of every email account with the active key. Each row
+   * is only updated if its tokens did not change since it was read, so the
+   * command can run while the server refreshes tokens.
+   */
+  async rotateAll(options: { batchSize: number }): Promise<RotationResult> {
+    const result: RotationResult = { scanned: 0, rotated: 0, skipped: 0 };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const accounts = await prisma.emailAccount.findMany({
+        select: { id: true, accessToken: true, refreshToken: true },
+        orderBy: { id: 'asc' },
+        take: options.batchSize,
+        ...(cursor && { skip: 1, cursor: { id: cursor } })
+      });
+      if (accounts.length === 0) break;
+
+      for (const account of accounts) {
+        result.scanned++;
+        const accessToken = this.rotate(account.accessToken);
+        const refreshToken = this.rotate(account.refreshToken);
+        if (accessToken === null && refreshToken === null) continue;
+
+        const { count } = await prisma.emailAccount.updateMany({
+          where: { id: account.id, accessToken: account.accessToken, refreshToken: account.refreshToken },
+          data: {
+            ...(accessToken !== null && { accessToken }),
+            ...(refreshToken !== null && { refreshToken })
+          }
+        });
+
+        if (count > 0) {
+          result.rotated++;
+        } else {
+          result.skipped++;
+        }
+      }
+
+      cursor = accounts[accounts.length - 1]!.id;
+    }
+
+    logger.info(`Token key rotation: ${result.rotated} of ${result.scanned} accounts re-encrypted, ${result.skipped} changed concurrently`);
+    return result;
+  }
+
+  private getActiveKey(): MasterKey | null {
+    const keys = this.loadKeys();
+    if (keys.length > 0) return keys[0]!;
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TOKEN_ENCRYPTION_KEYS is not configured');
+    }
+    if (!this.warnedUnconfigured) {
+      logger.warn('TOKEN_ENCRYPTION_KEYS is not configured; OAuth tokens are stored unencrypted');
+      this.warnedUnconfigured = true;
+    }
+    return null;
+  }
+
+  private getKey(id: string): MasterKey {
+    const key = this.loadKeys().find(candidate => candidate.id === id);
+    if (!key) {
+      throw new Error(`Token encryption key ${id} is not configured`);
+    }
+    return key;
+  }
+
+  private loadKeys(): MasterKey[] {
+    if (this.keys) return this.keys;
+
+    const keys = (process.env.TOKEN_ENCRYPTION_KEYS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        const id = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+        if (separator <= 0 || key.length !== 32) {
+          throw new Error('TOKEN_ENCRYPTION_KEYS entries must be keyId:base64 with a 32-byte key');
+        }
+        return { id, key };
+      });
+
+    this.keys = keys;
+    return keys;
+  }
+
+  private wrapKey(dataKey: Buffer, masterKey: MasterKey): Buffer {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, masterKey.key, iv);
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), wrapped]);
+  }
+
+  private unwrapKey(wrappedKey: Buffer, masterKey: MasterKey): Buffer {
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, wrappedKey.subarray(0, IV_BYTES));
+    decipher.setAuthTag(wrappedKey.subarray(IV_BYTES, IV_BYTES + 16));
+    return Buffer.concat([decipher.update(wrappedKey.subarray(IV_BYTES + 16)), decipher.final()]);
+  }
+
+  private format(envelope: Envelope): string {
+    return PREFIX + [
+      envelope.keyId,
+      envelope.wrappedKey.toString('base64'),
+      envelope.iv.toString('base64'),
+      envelope.tag.toString('base64'),
+      envelope.ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  private parse(value: string): Envelope {
+    const parts = value.slice(PREFIX.length).split(':');
+    if (parts.length !== 5) {
+      throw new Error('Malformed encrypted token');
+    }
+
+    const [keyId, wrappedKey, iv, tag, ciphertext] = parts as [string, string, string, string, string];
+    return {
+      keyId,
+      wrappedKey: Buffer.from(wrappedKey, 'base64'),
+      iv: Buffer.from(iv, 'base64'),
+      tag: Buffer.from(tag, 'base64'),
+      ciphertext: Buffer.from(ciphertext, 'base64')
+    };
+  }
+}
+
+export const tokenEncryptionService = TokenEncryptionService.getInstance();
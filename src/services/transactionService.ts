@@ -0,0 +1,382 @@
+import { Prisma, TransactionType } from '@prisma/client';
+import { prisma } from '../utils/database';
+
+export interface TransactionFilters {
+  userId?: string | undefined;
+  accountId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  currency?: string | undefined;
+  merchant?: string | undefined;
+  merchantId?: string | undefined;
+  financialAccountId?: string | undefined;
+  category?: string | undefined;
+  cardLast4?: string | undefined;
+  transactionTypes?: TransactionType[] | undefined;
+  minAmount?: number | undefined;
+  maxAmount?: number | undefined;
+  includeDuplicates?: boolean | undefined;
+}
+
+export const TRANSACTION_SORT_FIELDS = ['date', 'amount', 'merchant', 'createdAt'] as const;
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+
+export const AGGREGATION_GROUPS = ['day', 'week', 'month', 'merchant', 'category'] as const;
+export type AggregationGroup = typeof AGGREGATION_GROUPS[number];
+
+export interface TransactionPage {
+  transactions: TransactionView[];
+  nextCursor: string | null;
+}
+
+export interface TransactionView {
+  id: string;
+  emailId: string;
+  accountId: string;
+  date: Date | null;
+  amount: number | null;
+  currency: string | null;
+  amountUserCurrency: number | null;
+  userCurrency: string | null;
+  amountUSD: number | null;
+  merchantName: string | null;
+  merchant: { id: string; canonicalName: string } | null;
+  category: string | null;
+  cardLast4: string | null;
+  financialAccount: { id: string; issuer: string | null; last4: string; nickname: string | null } | null;
+  transactionType: TransactionType;
+  description: string | null;
+  referenceNumber: string | null;
+  isValidated: boolean;
+  duplicateOfId: string | null;
+  subject: string;
+}
+
+export interface AggregationBucket {
+  key: string;
+  currency: string;
+  total: number;
+  count: number;
+}
+
+export interface AggregationResult {
+  groupBy: AggregationGroup;
+  buckets: AggregationBucket[];
+  // Matching rows without a converted amount (missing exchange rate)
+  unconverted: number;
+}
+
+// Money going out, counted by aggregations unless a transaction type filter is
+// given. Card purchases come in as PAYMENT from Spanish alerts ("compra").
+export const CHARGE_TYPES: TransactionType[] = ['DEBIT', 'FEE', 'INTEREST', 'UNKNOWN', 'PAYMENT'];
+
+type SortColumn = 'transactionDate' | 'transactionAmount' | 'merchantName' | 'createdAt';
+
+const SORT_COLUMNS: Record<TransactionSortField, SortColumn> = {
+  date: 'transactionDate',
+  amount: 'transactionAmount',
+  merchant: 'merchantName',
+  createdAt: 'createdAt',
+};
+
+const transactionInclude = {
+  email: { select: { accountId: true, subject: true, receivedAt: true } },
+  merchant: { select: { id: true, canonicalName: true } },
+  financialAccount: { select: { id: true, issuer: true, last4: true, nickname: true } }
+} satisfies Prisma.ExtractedDataInclude;
+
+type TransactionRow = Prisma.ExtractedDataGetPayload<{ include: typeof transactionInclude }>;
+
+/**
+ * Read model over ExtractedData: the ledger of transactions pulled from
+ * financial emails, with filtering, cursor pagination and spend aggregations.
+ */
+export class TransactionService {
+  private static instance: TransactionService;
+
+  static getInstance(): TransactionService {
+    if (!TransactionService.instance) {
+      TransactionService.instance = new TransactionService();
+    }
+    return TransactionService.instance;
+  }
+
+  buildWhere(filters: TransactionFilters): Prisma.ExtractedDataWhereInput {
+    const where: Prisma.ExtractedDataWhereInput = {
+      transactionAmount: { not: null },
+      ...(!filters.includeDuplicates && { duplicateOfId: null })
+    };
+
+    if (filters.userId || filters.accountId) {
+      where.email = {
+        ...(filters.accountId && { accountId: filters.accountId }),
+        ...(filters.userId && { account: { userId: filters.userId } })
+      };
+    }
+
+    if (filters.from || filters.to) {
+      where.transactionDate = {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to })
+      };
+    }
+
+    if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+      where.transactionAmount = {
+        not: null,
+        ...(filters.minAmount !== undefined && { gte: filters.minAmount }),
+        ...(filters.maxAmount !== undefined && { lte: filters.maxAmount })
+      };
+    }
+
+    if (filters.currency) where.currency = filters.currency.toUpperCase();
+    if (filters.merchant) {
+      where.OR = [
+        { merchantName: { contains: filters.merchant, mode: 'insensitive' } },
+        { merchant: { canonicalName: { contains: filters.merchant, mode: 'insensitive' } } }
+      ];
+    }
+    if (filters.merchantId) where.merchantId = filters.merchantId;
+    if (filters.financialAccountId) where.financialAccountId = filters.financialAccountId;
+    if (filters.category) where.merchantCategory = { equals: filters.category, mode: 'insensitive' };
+    if (filters.cardLast4) where.accountNumber = { endsWith: filters.cardLast4 };
+    if (filters.transactionTypes?.length) where.transactionType = { in: filters.transactionTypes };
+
+    return where;
+  }
+
+  /**
+   * One page of transactions. The cursor is the id of the last transaction of
+   * the previous page; ties in the sort column are broken by id and rows
+   * without a value in the sort column come last. An unknown cursor gives an
+   * empty page.
+   */
+  async list(options: {
+    filters: TransactionFilters;
+    sortBy: TransactionSortField;
+    order: 'asc' | 'desc';
+    limit: number;
+    cursor?: string | undefined;
+  }): Promise<TransactionPage> {
+    const column = SORT_COLUMNS[options.sortBy];
+
+    let after: Prisma.ExtractedDataWhereInput = {};
+    if (options.cursor) {
+      const cursorWhere = await this.afterCursor(options.cursor, column, options.order, options.filters.userId);
+      if (!cursorWhere) {
+        return { transactions: [], nextCursor: null };
+      }
+      after = cursorWhere;
+    }
+
+    const rows = await prisma.extractedData.findMany({
+      where: { AND: [this.buildWhere(options.filters), after] },
+      include: transactionInclude,
+      orderBy: [
+        { [column]: { sort: options.order, nulls: 'last' } },
+        { id: options.order }
+      ],
+      take: options.limit + 1
+    });
+
+    const hasMore = rows.length > options.limit;
+    const page = hasMore ? rows.slice(0, options.limit) : rows;
+
+    return {
+      transactions: page.map(row => this.toView(row)),
+      nextCursor: hasMore ? page[page.length - 1]!.id : null
+    };
+  }
+
+  /**
+   * Rows that come after the cursor row in the page order, or null when the
+   * cursor row does not exist. Prisma's own cursor compares the sort column
+   * with >= or <=, which never matches nulls, so the null tail is spelled out.
+   */
+  private async afterCursor(
+    cursorId: string,
+    column: SortColumn,
+    order: 'asc' | 'desc',
+    userId: string | undefined
+  ): Promise<Prisma.ExtractedDataWhereInput | null> {
+    const cursor = await prisma.extractedData.findFirst({
+      where: { id: cursorId, ...(userId && { email: { account: { userId } } }) },
+      select: { id: true, transactionDate: true, transactionAmount: true, merchantName: true, createdAt: true }
+    });
+    if (!cursor) return null;
+
+    const past = order === 'asc' ? 'gt' : 'lt';
+    const value = cursor[column];
+    if (value === null) {
+      return { [column]: null, id: { [past]: cursor.id } };
+    }
+
+    return {
+      OR: [
+        { [column]: { [past]: value } },
+        { [column]: value, id: { [past]: cursor.id } },
+        { [column]: null }
+      ]
+    };
+  }
+
+  async get(id: string, userId?: string): Promise<TransactionView | null> {
+    const row = await prisma.extractedData.findFirst({
+      where: { id, ...(userId && { email: { account: { userId } } }) },
+      include: transactionInclude
+    });
+    return row ? this.toView(row) : null;
+  }
+
+  /**
+   * Sum spend in the user's currency per period, merchant or category. Rows
+   * are bucketed separately per currency so users with different currencies
+   * never get mixed totals. Duplicates are never counted.
+   */
+  async aggregate(groupBy: AggregationGroup, filters: TransactionFilters): Promise<AggregationResult> {
+    const where = this.buildWhere({
+      ...filters,
+      includeDuplicates: false,
+      transactionTypes: filters.transactionTypes?.length ? filters.transactionTypes : CHARGE_TYPES
+    });
+
+    const unconverted = await prisma.extractedData.count({
+      where: { AND: [where, { amountUserCurrency: null }] }
+    });
+    const converted: Prisma.ExtractedDataWhereInput = {
+      AND: [where, { amountUserCurrency: { not: null } }, { userCurrency: { not: null } }]
+    };
+
+    if (groupBy === 'category') {
+      const groups = await prisma.extractedData.groupBy({
+        by: ['merchantCategory', 'userCurrency'],
+        where: converted,
+        _sum: { amountUserCurrency: true },
+        _count: { _all: true }
+      });
+
+      return {
+        groupBy,
+        unconverted,
+        buckets: groups
+          .map(group => ({
+            key: group.merchantCategory || 'Unknown',
+            currency: group.userCurrency!,
+            total: round(Number(group._sum.amountUserCurrency || 0)),
+            count: group._count._all
+          }))
+          .sort((a, b) => b.total - a.total)
+      };
+    }
+
+    if (groupBy === 'merchant') {
+      // Canonical merchants group their aliases; unlinked rows group by raw name
+      const groups = await prisma.extractedData.groupBy({
+        by: ['merchantId', 'merchantName', 'userCurrency'],
+        where: converted,
+        _sum: { amountUserCurrency: true },
+        _count: { _all: true }
+      });
+
+      const merchantIds = groups.map(group => group.merchantId).filter((id): id is string => id !== null);
+      const merchants = await prisma.merchant.findMany({
+        where: { id: { in: Array.from(new Set(merchantIds)) } },
+        select: { id: true, canonicalName: true }
+      });
+      const names = new Map(merchants.map(merchant => [merchant.id, merchant.canonicalName]));
+
+      const buckets = new Map<string, AggregationBucket>();
+      for (const group of groups) {
+        const key = (group.merchantId && names.get(group.merchantId)) || group.merchantName || 'Unknown';
+        const currency = group.userCurrency!;
+        const bucket = buckets.get(`${key}|${currency}`) || { key, currency, total: 0, count: 0 };
+        bucket.total += Number(group._sum.amountUserCurrency || 0);
+        bucket.count += group._count._all;
+        buckets.set(`${key}|${currency}`, bucket);
+      }
+
+      return {
+        groupBy,
+        unconverted,
+        buckets: Array.from(buckets.values())
+          .map(bucket => ({ ...bucket, total: round(bucket.total) }))
+          .sort((a, b) => b.total - a.total)
+      };
+    }
+
+    // Period buckets are computed here since Prisma has no date_trunc grouping
+    const rows = await prisma.extractedData.findMany({
+      where: converted,
+      select: {
+        transactionDate: true,
+        amountUserCurrency: true,
+        userCurrency: true,
+        email: { select: { receivedAt: true } }
+      }
+    });
+
+    const buckets = new Map<string, AggregationBucket>();
+    for (const row of rows) {
+      const key = periodKey(row.transactionDate || row.email.receivedAt, groupBy);
+      const currency = row.userCurrency!;
+      const bucket = buckets.get(`${key}|${currency}`) || { key, currency, total: 0, count: 0 };
+      bucket.total += Number(row.amountUserCurrency);
+      bucket.count++;
+      buckets.set(`${key}|${currency}`, bucket);
+    }
+
+    return {
+      groupBy,
+      unconverted,
+      buckets: Array.from(buckets.values())
+        .map(bucket => ({ ...bucket, total: round(bucket.total) }))
+        .sort((a, b) => a.key.localeCompare(b.key) || a.currency.localeCompare(b.currency))
+    };
+  }
+
+  private toView(row: TransactionRow): TransactionView {
+    return {
+      id: row.id,
+      emailId: row.emailId,
+      accountId: row.email.accountId,
+      date: row.transactionDate,
+      amount: row.transactionAmount !== null ? Number(row.transactionAmount) : null,
+      currency: row.currency,
+      amountUserCurrency: row.amountUserCurrency !== null ? Number(row.amountUserCurrency) : null,
+      userCurrency: row.userCurrency,
+      amountUSD: row.amountUSD !== null ? Number(row.amountUSD) : null,
+      merchantName: row.merchantName,
+      merchant: row.merchant,
+      category: row.merchantCategory,
+      cardLast4: row.accountNumber ? row.accountNumber.replace(/\D/g, '').slice(-4) || null : null,
+      financialAccount: row.financialAccount,
+      transactionType: row.transactionType,
+      description: row.description,
+      referenceNumber: row.referenceNumber,
+      isValidated: row.isValidated,
+      duplicateOfId: row.duplicateOfId,
+      subject: row.email.subject
+    };
+  }
+}
+
+/**
+ * UTC period label: 2025-10-03 (day), 2025-09-29 (Monday of the week), 2025-10 (month)
+ */
+function periodKey(date: Date, groupBy: 'day' | 'week' | 'month'): string {
+  if (groupBy === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (groupBy === 'week') {
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const transactionService = TransactionService.getInstance();
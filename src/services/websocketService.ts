@@ -1,28 +1,47 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
+import { authService, getBearerToken } from './authService';
+import { prisma } from '../utils/database';
 import { logger } from '../utils/logger';
 
 export class WebSocketService {
   private io: SocketIOServer;
   private connectedClients: Map<string, Socket> = new Map();
+  // Email account id -> owning user id, for routing email updates
+  private accountOwners: Map<string, string> = new Map();
 
   constructor(io: SocketIOServer) {
     this.io = io;
   }
 
   initialize() {
+    // Sockets authenticate with the same session token as the REST API
+    this.io.use(async (socket, next) => {
+      try {
+        const token = socket.handshake.auth?.token || getBearerToken(socket.handshake.headers.authorization);
+        const user = await authService.authenticate(token);
+        if (!user) {
+          return next(new Error('Authentication required'));
+        }
+
+        socket.data.user = { id: user.id, email: user.email };
+        return next();
+      } catch (error) {
+        logger.error('Error authenticating socket:', error);
+        return next(new Error('Authentication failed'));
+      }
+    });
+
     this.io.on('connection', (socket: Socket) => {
-      logger.info(`Client connected: ${socket.id}`);
+      const userId: string = socket.data.user.id;
+      logger.info(`Client connected: ${socket.id} (user ${userId})`);
       this.connectedClients.set(socket.id, socket);
 
-      // Handle client identification
-      socket.on('identify', (data) => {
-        logger.info(`Client identified: ${socket.id}`, data);
-        socket.data.user = data;
-      });
+      // Per-user events such as budget alerts go to the user's room
+      socket.join(`user:${userId}`);
 
       // Handle email processing status requests
       socket.on('subscribe_email_updates', () => {
-        socket.join('email_updates');
+        socket.join(`email_updates:${userId}`);
         logger.info(`Client ${socket.id} subscribed to email updates`);
       });
 
@@ -49,18 +68,26 @@ export class WebSocketService {
     logger.info('WebSocket service initialized');
   }
 
-  // Broadcast email processing updates
+  // Send email processing updates to the subscribed sockets of the email's owner
   broadcastEmailUpdate(update: {
-    type: 'started' | 'classified' | 'extracted' | 'completed' | 'failed';
+    type: 'received' | 'started' | 'classified' | 'extracted' | 'completed' | 'failed';
     emailId: string;
     accountId?: string;
     progress?: number;
     message?: string;
     data?: any;
   }) {
-    this.io.to('email_updates').emit('email_update', {
+    const payload = {
       ...update,
       timestamp: new Date().toISOString()
+    };
+
+    this.resolveOwner(update.accountId, update.emailId).then(userId => {
+      if (userId) {
+        this.io.to(`email_updates:${userId}`).emit('email_update', payload);
+      }
+    }).catch(error => {
+      logger.error(`Failed to route email update for ${update.emailId}:`, error);
     });
   }
 
@@ -83,15 +110,27 @@ export class WebSocketService {
     }
   }
 
-  // Broadcast system notifications
+  // Send an event to every socket identified as the given user
+  sendToUser(userId: string, event: string, data: any) {
+    this.io.to(`user:${userId}`).emit(event, {
+      ...data,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Broadcast system notifications; notifications about one user's data go
+  // to that user only
   broadcastSystemNotification(notification: {
-    type: 'info' | 'warning' | 'error' | 'success';
+    type: 'info' | 'warning' | 'error' | 'success' | 'alert';
     title: string;
     message: string;
+    userId?: string;
     data?: any;
   }) {
-    this.io.emit('system_notification', {
-      ...notification,
+    const { userId, ...payload } = notification;
+    const target = userId ? this.io.to(`user:${userId}`) : this.io;
+    target.emit('system_notification', {
+      ...payload,
       timestamp: new Date().toISOString()
     });
   }
@@ -101,6 +140,23 @@ export class WebSocketService {
     return this.connectedClients.size;
   }
 
+  private async resolveOwner(accountId: string | undefined, emailId: string): Promise<string | null> {
+    if (accountId && this.accountOwners.has(accountId)) {
+      return this.accountOwners.get(accountId)!;
+    }
+
+    const account = accountId
+      ? await prisma.emailAccount.findUnique({ where: { id: accountId }, select: { id: true, userId: true } })
+      : (await prisma.processedEmail.findUnique({
+          where: { id: emailId },
+          select: { account: { select: { id: true, userId: true } } }
+        }))?.account;
+    if (!account) return null;
+
+    this.accountOwners.set(account.id, account.userId);
+    return account.userId;
+  }
+
   // Get clients in specific room
   getClientsInRoom(room: string): Promise<string[]> {
     return new Promise((resolve) => {
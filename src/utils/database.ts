@@ -1,5 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from './logger';
+import { senderAddress } from './email';
+import type { LLMOperation } from '../services/llmProvider';
+import { tokenEncryptionService } from '../services/tokenEncryptionService';
 
 // Create Prisma client instance
 const prisma = new PrismaClient({
@@ -132,7 +135,7 @@ const DatabaseOperations = {
     });
   },
 
-  // Email account operations
+  // Email account operations; tokens are encrypted before they are stored
   async createEmailAccount(data: {
     userId: string;
     gmailAddress: string;
@@ -141,7 +144,11 @@ const DatabaseOperations = {
     tokenExpiresAt?: Date;
   }) {
     return await prisma.emailAccount.create({
-      data,
+      data: {
+        ...data,
+        accessToken: tokenEncryptionService.encrypt(data.accessToken),
+        refreshToken: tokenEncryptionService.encrypt(data.refreshToken),
+      },
     });
   },
 
@@ -157,6 +164,8 @@ const DatabaseOperations = {
       where: { id: accountId },
       data: {
         ...tokens,
+        accessToken: tokenEncryptionService.encrypt(tokens.accessToken),
+        refreshToken: tokenEncryptionService.encrypt(tokens.refreshToken),
         lastSyncAt: new Date(),
         errorCount: 0,
       },
@@ -183,6 +192,7 @@ const DatabaseOperations = {
     return await prisma.processedEmail.create({
       data: {
         ...data,
+        senderAddress: senderAddress(data.fromAddress),
         toAddresses: data.toAddresses,
         gmailLabels: data.gmailLabels || [],
         language: data.language || 'en',
@@ -373,6 +383,7 @@ const DatabaseOperations = {
         threadId: data.threadId,
         subject: data.subject || '',
         fromAddress: data.sender || '',
+        senderAddress: senderAddress(data.sender || ''),
         toAddresses: data.recipient ? [data.recipient] : [],
         receivedAt: data.receivedAt || new Date(),
         contentHash: `hash_${data.gmailId}`,
@@ -471,7 +482,12 @@ const DatabaseOperations = {
 
 // OpenAI call tracking utilities
 export const OpenAIMetrics = {
-  async recordAPICall(accountId: string, operation: 'classification' | 'extraction', model: string = 'gpt-4o-mini') {
+  async recordAPICall(
+    accountId: string,
+    operation: LLMOperation,
+    model: string = 'gpt-4o-mini',
+    provider: string = 'openai'
+  ) {
     try {
       await prisma.performanceMetric.create({
         data: {
@@ -483,6 +499,7 @@ export const OpenAIMetrics = {
             accountId,
             operation,
             model,
+            provider,
             timestamp: new Date().toISOString()
           }
         }
@@ -493,6 +510,125 @@ export const OpenAIMetrics = {
     }
   },
 
+  async recordValidationFailure(data: {
+    operation: LLMOperation;
+    model: string;
+    promptVersion: string;
+    provider: string;
+    kind: 'parse' | 'schema';
+    attempt: number;
+    issues: string[];
+  }) {
+    try {
+      await prisma.performanceMetric.create({
+        data: {
+          metricName: 'llm_validation_failure',
+          metricValue: 1,
+          metricUnit: 'failures',
+          category: 'ai_processing',
+          tags: {
+            ...data,
+            issues: data.issues.slice(0, 10),
+            timestamp: new Date().toISOString()
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record LLM validation failure metric:', error);
+    }
+  },
+
+  async recordValidationOutcome(data: {
+    operation: LLMOperation;
+    model: string;
+    promptVersion: string;
+    provider: string;
+    valid: boolean;
+    attempts: number;
+  }) {
+    try {
+      await prisma.performanceMetric.create({
+        data: {
+          metricName: 'llm_validation_outcome',
+          metricValue: data.attempts,
+          metricUnit: 'attempts',
+          category: 'ai_processing',
+          tags: {
+            ...data,
+            timestamp: new Date().toISOString()
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record LLM validation outcome metric:', error);
+    }
+  },
+
+  /**
+   * Validation failure and success counts grouped by operation and prompt version
+   */
+  async getValidationStats(since?: Date): Promise<Array<{
+    operation: string;
+    model: string;
+    promptVersion: string;
+    responses: number;
+    valid: number;
+    invalid: number;
+    parseFailures: number;
+    schemaFailures: number;
+    repairedResponses: number;
+  }>> {
+    const createdFilter = since ? { recordedAt: { gte: since } } : {};
+    const [outcomes, failures] = await Promise.all([
+      prisma.performanceMetric.findMany({
+        where: { metricName: 'llm_validation_outcome', category: 'ai_processing', ...createdFilter },
+        select: { tags: true }
+      }),
+      prisma.performanceMetric.findMany({
+        where: { metricName: 'llm_validation_failure', category: 'ai_processing', ...createdFilter },
+        select: { tags: true }
+      })
+    ]);
+
+    const stats = new Map<string, any>();
+    const bucket = (tags: any) => {
+      const key = `${tags.operation}|${tags.model}|${tags.promptVersion}`;
+      if (!stats.has(key)) {
+        stats.set(key, {
+          operation: tags.operation,
+          model: tags.model,
+          promptVersion: tags.promptVersion,
+          responses: 0,
+          valid: 0,
+          invalid: 0,
+          parseFailures: 0,
+          schemaFailures: 0,
+          repairedResponses: 0,
+        });
+      }
+      return stats.get(key);
+    };
+
+    for (const { tags } of outcomes as Array<{ tags: any }>) {
+      const entry = bucket(tags);
+      entry.responses++;
+      if (tags.valid) {
+        entry.valid++;
+        if (tags.attempts > 1) entry.repairedResponses++;
+      } else {
+        entry.invalid++;
+      }
+    }
+
+    for (const { tags } of failures as Array<{ tags: any }>) {
+      const entry = bucket(tags);
+      if (tags.kind === 'parse') entry.parseFailures++;
+      else entry.schemaFailures++;
+    }
+
+    return Array.from(stats.values());
+  },
+
   async getAccountCallCount(accountId: string): Promise<number> {
     try {
       const result = await prisma.performanceMetric.aggregate({
@@ -0,0 +1,8 @@
+/**
+ * Lowercased address of a From header:
+ * "Bank <alerts@bank.com>" -> "alerts@bank.com"
+ */
+export function senderAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match?.[1] ?? from).trim().toLowerCase();
+}
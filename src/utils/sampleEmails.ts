@@ -11,9 +11,41 @@ export interface SampleEmail {
   threadId?: string;
   labelIds: string[];
   attachments?: Array<{ filename: string; size: number }>;
+  labels?: SampleEmailLabels;
+}
+
+/**
+ * Known ground truth for a generated email. Extraction fields are only set when
+ * the template states them unambiguously; unset fields are not scored.
+ */
+export interface SampleEmailLabels {
+  isFinancial: boolean;
+  classification: string; // EmailClassification value
+  amount?: number | undefined;
+  currency?: string | undefined;
+  merchantName?: string | undefined;
+  date?: string | undefined; // YYYY-MM-DD
+  accountNumber?: string | undefined; // Last four digits
+  transactionType?: string | undefined;
 }
 
 export class SampleEmailGenerator {
+  static readonly EMAIL_TYPES = [
+    'banking_transaction',
+    'credit_card_statement', 
+    'spanish_qik_credit_card',  // New Spanish templates
+    'spanish_notificacion_consumo',
+    'spanish_bhd_transacciones',
+    'investment_update',
+    'payment_confirmation',
+    'subscription_renewal',
+    'bill_notification',
+    'tax_document',
+    'insurance_communication',
+    'loan_payment',
+    'non_financial'
+  ];
+
   private emailCounter = 1;
 
   /**
@@ -21,21 +53,7 @@ export class SampleEmailGenerator {
    */
   generateSampleEmails(count: number = 20): SampleEmail[] {
     const emails: SampleEmail[] = [];
-    const emailTypes = [
-      'banking_transaction',
-      'credit_card_statement', 
-      'spanish_qik_credit_card',  // New Spanish templates
-      'spanish_notificacion_consumo',
-      'spanish_bhd_transacciones',
-      'investment_update',
-      'payment_confirmation',
-      'subscription_renewal',
-      'bill_notification',
-      'tax_document',
-      'insurance_communication',
-      'loan_payment',
-      'non_financial'
-    ];
+    const emailTypes = SampleEmailGenerator.EMAIL_TYPES;
 
     for (let i = 0; i < count; i++) {
       const type = emailTypes[i % emailTypes.length];
@@ -47,7 +65,10 @@ export class SampleEmailGenerator {
     return emails;
   }
 
-  private generateEmailByType(type: string): SampleEmail {
+  /**
+   * Generate a single email of one of the EMAIL_TYPES templates
+   */
+  generateEmailByType(type: string): SampleEmail {
     const baseId = `sample_${this.emailCounter++}`;
     const date = this.getRandomDateInPast(30); // Last 30 days
 
@@ -111,6 +132,16 @@ If you did not authorize this transaction, please contact us immediately.
 Best regards,
 Bank of America Customer Service`,
       labelIds: ['INBOX'],
+      labels: {
+        isFinancial: true,
+        classification: 'BANKING',
+        amount: this.parseAmount(amount),
+        currency: 'USD',
+        merchantName: merchant,
+        date: this.toDateLabel(date),
+        accountNumber: '1234',
+        transactionType: 'debit',
+      },
     };
   }
 
@@ -124,7 +155,7 @@ Bank of America Customer Service`,
       from: 'statements@chase.com',
       to: 'user@example.com',
       date,
-      body: `Your Chase Freedom Credit Card statement is now available.
+      body: `Your Chase Freedom Credit Card ending in 4417 statement is now available.
 
 Statement Period: ${this.formatDate(this.subtractDays(date, 30))} - ${this.formatDate(date)}
 
@@ -141,10 +172,16 @@ New Balance: ${amount}
 Minimum Payment Due: ${(parseFloat(amount.replace('$', '')) * 0.02).toFixed(2)}
 Payment Due Date: ${this.formatDate(this.addDays(date, 25))}
 
+Credit Limit: $7,000.00
 Available Credit: $4,567.89
 
 View your statement online at chase.com`,
       labelIds: ['INBOX', 'CATEGORY_PERSONAL'],
+      labels: {
+        isFinancial: true,
+        classification: 'CREDIT_CARD',
+        currency: 'USD',
+      },
     };
   }
 
@@ -180,6 +217,10 @@ Login to view detailed performance and make changes to your investments.
 
 Fidelity Investments`,
       labelIds: ['INBOX', 'CATEGORY_UPDATES'],
+      labels: {
+        isFinancial: true,
+        classification: 'INVESTMENT',
+      },
     };
   }
 
@@ -217,6 +258,15 @@ Questions? Visit our help center or contact customer service.
 Best regards,
 ${merchant} Team`,
       labelIds: ['INBOX', 'CATEGORY_PURCHASES'],
+      labels: {
+        isFinancial: true,
+        classification: 'PAYMENT',
+        amount: this.parseAmount(amount),
+        currency: 'USD',
+        merchantName: merchant,
+        date: this.toDateLabel(date),
+        accountNumber: '1234',
+      },
     };
   }
 
@@ -249,6 +299,15 @@ Enjoy your ${service} experience!
 
 The ${service} Team`,
       labelIds: ['INBOX', 'CATEGORY_UPDATES'],
+      labels: {
+        isFinancial: true,
+        classification: 'SUBSCRIPTION',
+        amount: this.parseAmount(amount),
+        currency: 'USD',
+        merchantName: service,
+        date: this.toDateLabel(date),
+        accountNumber: '1234',
+      },
     };
   }
 
@@ -285,6 +344,14 @@ You can pay online, by phone, or by mail. Set up AutoPay to never miss a payment
 
 Customer Service: 1-800-UTILITY`,
       labelIds: ['INBOX', 'CATEGORY_UPDATES'],
+      labels: {
+        isFinancial: true,
+        classification: 'BILL',
+        amount: this.parseAmount(amount),
+        currency: 'USD',
+        merchantName: utility,
+        accountNumber: '1234',
+      },
     };
   }
 
@@ -318,6 +385,10 @@ Keep this document for your records. We recommend consulting with a tax professi
 Fidelity Tax Services`,
       labelIds: ['INBOX', 'CATEGORY_UPDATES'],
       attachments: [{ filename: '1099-DIV-2024.pdf', size: 245678 }],
+      labels: {
+        isFinancial: true,
+        classification: 'TAX',
+      },
     };
   }
 
@@ -354,6 +425,10 @@ No action is needed if you want to continue with automatic renewal.
 
 State Farm Insurance`,
       labelIds: ['INBOX', 'CATEGORY_UPDATES'],
+      labels: {
+        isFinancial: true,
+        classification: 'INSURANCE',
+      },
     };
   }
 
@@ -384,6 +459,14 @@ Questions about your mortgage? Contact us at 1-800-QUICKEN.
 Quicken Loans
 America's Largest Mortgage Lender`,
       labelIds: ['INBOX', 'CATEGORY_UPDATES'],
+      labels: {
+        isFinancial: true,
+        classification: 'LOAN',
+        amount: 2456.78,
+        currency: 'USD',
+        date: this.toDateLabel(date),
+        transactionType: 'payment',
+      },
     };
   }
 
@@ -414,6 +497,10 @@ No monetary amounts, transactions, or financial institutions are mentioned in th
 Best regards,
 Newsletter Team`,
       labelIds: ['INBOX', 'CATEGORY_SOCIAL'],
+      labels: {
+        isFinancial: false,
+        classification: 'UNCLASSIFIED',
+      },
     };
   }
 
@@ -449,6 +536,16 @@ Si usted no realizó esta transacción, comuníquese inmediatamente con nuestro
 Saludos cordiales,
 Equipo Qik`,
       labelIds: ['INBOX', 'CATEGORY_PURCHASES'],
+      labels: {
+        isFinancial: true,
+        classification: 'CREDIT_CARD',
+        amount: this.parseAmount(amount),
+        currency: 'DOP',
+        merchantName: merchant,
+        date: this.toDateLabel(date),
+        accountNumber: cardDigits,
+        transactionType: 'debit',
+      },
     };
   }
 
@@ -483,6 +580,16 @@ Para consultas o reclamos, puede comunicarse con nosotros las 24 horas al *123 d
 Atentamente,
 Banco Card Dominicano`,
       labelIds: ['INBOX', 'CATEGORY_PURCHASES'],
+      labels: {
+        isFinancial: true,
+        classification: 'CREDIT_CARD',
+        amount: this.parseAmount(amount),
+        currency: 'DOP',
+        merchantName: merchant,
+        date: this.toDateLabel(date),
+        accountNumber: cardDigits,
+        transactionType: 'debit',
+      },
     };
   }
 
@@ -519,6 +626,16 @@ Cordialmente,
 BHD León
 Tu banco de confianza`,
       labelIds: ['INBOX', 'CATEGORY_PURCHASES'],
+      labels: {
+        isFinancial: true,
+        classification: 'CREDIT_CARD',
+        amount: this.parseAmount(amount),
+        currency: 'DOP',
+        merchantName: merchant,
+        date: this.toDateLabel(date),
+        accountNumber: cardDigits,
+        transactionType: 'debit',
+      },
     };
   }
 
@@ -550,6 +667,16 @@ Tu banco de confianza`,
     return result;
   }
 
+  private parseAmount(amount: string | undefined): number | undefined {
+    return amount ? parseFloat(amount.replace(/[^0-9.-]/g, '')) : undefined;
+  }
+
+  private toDateLabel(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
   private generateOrderNumber(): string {
     return `ORD-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
   }
@@ -1,15 +1,17 @@
 import { Job, Worker } from 'bullmq';
 import { GmailService } from '../services/gmailService';
-import { openaiService } from '../services/openaiService';
 import { DatabaseOperations, prisma } from '../utils/database';
 import { getWebSocketServiceInstance } from '../services/websocketService';
+import { categorizationRuleService } from '../services/categorizationRuleService';
+import { emailPipelineService } from '../services/emailPipelineService';
+import { gmailBackfillService } from '../services/gmailBackfillService';
 import { logger } from '../utils/logger';
 import { redisConnection } from '../utils/redis';
 
 export interface EmailProcessingJob {
   emailAccountId: string;
   emailId?: string;
-  processType: 'sync' | 'classify' | 'extract';
+  processType: 'sync' | 'classify' | 'extract' | 'recategorize' | 'backfill';
   priority?: number;
 }
 
@@ -72,35 +74,17 @@ export class EmailProcessor {
           return await this.classifyEmail(emailId!, job);
         case 'extract':
           return await this.extractEmailData(emailId!, job);
+        case 'recategorize':
+          return await this.recategorize(emailAccountId, job);
+        case 'backfill':
+          return await this.backfill(emailAccountId, job);
         default:
           throw new Error(`Unknown process type: ${processType}`);
       }
     } catch (error) {
       logger.error(`Error processing ${processType} job:`, error);
-      
-      // Update email status to failed if we have an emailId
-      if (emailId) {
-        try {
-          await prisma.processedEmail.update({
-            where: { id: emailId },
-            data: { processingStatus: 'FAILED' }
-          });
-          
-          // Broadcast failure
-          const wsService = getWebSocketServiceInstance();
-          if (wsService) {
-            wsService.broadcastEmailUpdate({
-              type: 'failed',
-              emailId,
-              accountId: emailAccountId,
-              message: `Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-            });
-          }
-        } catch (dbError) {
-          logger.error('Error updating email status to failed:', dbError);
-        }
-      }
-      
+
+      // Classify and extract failures are recorded on the email by the pipeline
       throw error;
     }
   }
@@ -231,314 +215,70 @@ export class EmailProcessor {
   }
 
   /**
-   * Classify a single email using AI
+   * Classify a single email and queue extraction for financial ones
    */
   private async classifyEmail(emailId: string, job: Job): Promise<EmailProcessingResult> {
-    try {
-      await job.updateProgress(10);
-
-      // Get email from database
-      const email = await DatabaseOperations.findProcessedEmailById(emailId);
-      if (!email) {
-        throw new Error(`Email ${emailId} not found`);
-      }
-
-      // Update email status to processing
-      await prisma.processedEmail.update({
-        where: { id: emailId },
-        data: { processingStatus: 'PROCESSING' }
-      });
-
-      // Broadcast classification started
-      const wsService = getWebSocketServiceInstance();
-      if (wsService) {
-        wsService.broadcastEmailUpdate({
-          type: 'classified',
-          emailId,
-          accountId: email.accountId,
-          message: 'Classifying email...',
-        });
-      }
-
-      await job.updateProgress(30);
-
-      // Classify email using OpenAI with timeout and retry handling
-      let classification;
-      try {
-        classification = await Promise.race([
-          openaiService.classifyEmail(
-            email.subject || '',
-            email.bodyText || email.bodyPreview || '',
-            email.fromAddress || '',
-            email.accountId // Pass accountId for tracking
-          ),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Classification timeout')), 30000) // 30 second timeout
-          )
-        ]);
-      } catch (classificationError) {
-        logger.error(`Classification failed for email ${emailId}:`, classificationError);
-        
-        // Fallback to simple classification to avoid complete failure
-        classification = {
-          isFinancial: false,
-          confidence: 0.1,
-          category: 'UNCLASSIFIED',
-          language: 'en',
-          reasoning: `Classification failed: ${classificationError instanceof Error ? classificationError.message : 'Unknown error'}`
-        };
-      }
-
-      await job.updateProgress(70);
-
-      // Update email with classification results
-      await prisma.processedEmail.update({
-        where: { id: emailId },
-        data: { 
-          processingStatus: classification.isFinancial ? 'CLASSIFIED' : 'COMPLETED',
-          classification: this.mapCategoryToEnum(classification.category) as any,
-          confidenceScore: classification.confidence,
-          language: classification.language
-        }
-      });
-
-      await job.updateProgress(90);
-
-      // If financial, queue extraction job
-      // CRITICAL: CREDIT_CARD emails MUST ALWAYS have extraction attempted
-      const shouldExtract = classification.isFinancial || 
-                           classification.category === 'credit_card' || 
-                           classification.category === 'CREDIT_CARD' ||
-                           this.mapCategoryToEnum(classification.category) === 'CREDIT_CARD';
-      
-      if (shouldExtract) {
-        logger.info(`Queueing extraction for ${emailId}: ${classification.category} (financial: ${classification.isFinancial})`);
-        await this.queueExtractionJob(emailId);
-      } else {
-        logger.debug(`Skipping extraction for ${emailId}: ${classification.category} (not financial)`);
-      }
-
-      await job.updateProgress(100);
-
-      // Broadcast classification completed with results
-      const wsService2 = getWebSocketServiceInstance();
-      if (wsService2) {
-        wsService2.broadcastEmailUpdate({
-          type: 'classified',
-          emailId,
-          accountId: email.accountId,
-          message: `Classification completed: ${classification.category} (${Math.round(classification.confidence * 100)}% confidence)`,
-          data: {
-            classification,
-            isFinancial: classification.isFinancial
-          }
-        });
-        
-        // Send detailed processing update via private method
-        this.sendProcessingUpdate(wsService2, {
-          emailId,
-          accountId: email.accountId,
-          type: 'classification_complete',
-          classification,
-          message: `Email classified as ${classification.isFinancial ? 'financial' : 'non-financial'}`
-        });
-      }
-
-      return {
-        success: true,
-        emailId,
-        classification,
-      };
-
-    } catch (error) {
-      logger.error(`Classification error for email ${emailId}:`, error);
-      
-      // Update email status to failed (only if emailId is valid)
-      if (emailId) {
-        try {
-          await prisma.processedEmail.update({
-            where: { id: emailId },
-            data: { processingStatus: 'FAILED' }
-          });
-        } catch (updateError) {
-          logger.error(`Failed to update email ${emailId} status to FAILED:`, updateError);
-        }
-      } else {
-        logger.error('Cannot update email status - emailId is undefined');
-      }
-
-      // Broadcast classification failed (only if emailId is valid)
-      if (emailId) {
-        try {
-          const email = await prisma.processedEmail.findUnique({
-            where: { id: emailId }
-          });
-          if (email) {
-            const wsService = getWebSocketServiceInstance();
-            if (wsService) {
-              wsService.broadcastEmailUpdate({
-                type: 'failed',
-                emailId,
-                accountId: email.accountId,
-                message: `Classification failed: ${error}`,
-              });
-            }
-          }
-        } catch (broadcastError) {
-          logger.error(`Failed to broadcast classification failure for email ${emailId}:`, broadcastError);
-        }
-      }
+    const outcome = await emailPipelineService.classify(emailId, {
+      onProgress: (percent) => job.updateProgress(percent)
+    });
 
-      throw error;
+    if (outcome.shouldExtract) {
+      logger.info(`Queueing extraction for ${emailId}: ${outcome.classification.category} (financial: ${outcome.classification.isFinancial})`);
+      await this.queueExtractionJob(emailId);
+    } else {
+      logger.debug(`Skipping extraction for ${emailId}: ${outcome.classification.category} (not financial)`);
     }
+
+    return {
+      success: true,
+      emailId,
+      classification: outcome.classification,
+    };
   }
 
   /**
    * Extract financial data from a classified financial email
    */
   private async extractEmailData(emailId: string, job: Job): Promise<EmailProcessingResult> {
-    try {
-      await job.updateProgress(10);
-
-      // Get email from database
-      const email = await DatabaseOperations.findProcessedEmailById(emailId);
-      if (!email) {
-        throw new Error(`Email ${emailId} not found`);
-      }
-
-      // Broadcast extraction started
-      const wsService = getWebSocketServiceInstance();
-      if (wsService) {
-        wsService.broadcastEmailUpdate({
-          type: 'extracted',
-          emailId,
-          accountId: email.accountId,
-          message: 'Extracting financial data...',
-        });
-      }
-
-      await job.updateProgress(30);
-
-      // Extract financial data using OpenAI
-      let extraction;
-      try {
-        extraction = await openaiService.extractFinancialData(
-          email.subject || '',
-          email.bodyText || '',
-          this.getClassificationString(email.classification) || 'other_financial',
-          email.accountId // Pass accountId for tracking
-        );
-      } catch (extractionError) {
-        logger.error(`AI extraction failed for email ${emailId}:`, extractionError);
-        // For CREDIT_CARD emails, create empty extraction record to ensure UI shows
-        if (email.classification === 'CREDIT_CARD') {
-          extraction = {
-            amount: null,
-            currency: null,
-            date: null,
-            merchantName: null,
-            accountNumber: null,
-            transactionId: null,
-            transactionType: null,
-            description: null,
-            category: null,
-            confidence: 0.0
-          };
-        } else {
-          throw extractionError; // Re-throw for non-credit card emails
-        }
-      }
-
-      await job.updateProgress(70);
-
-      // Store extraction results
-      // CRITICAL: For CREDIT_CARD emails, ALWAYS create extracted data record
-      await prisma.extractedData.create({
-        data: {
-          emailId: emailId,
-          transactionAmount: extraction.amount,
-          currency: extraction.currency,
-          transactionDate: extraction.date ? new Date(extraction.date) : null,
-          merchantName: extraction.merchantName,
-          merchantCategory: extraction.category,
-          accountNumber: extraction.accountNumber,
-          referenceNumber: extraction.transactionId,
-          transactionType: this.mapTransactionTypeToEnum(extraction.transactionType) as any,
-          description: extraction.description,
-          extractionScore: extraction.confidence
-        }
-      });
+    const outcome = await emailPipelineService.extract(emailId, {
+      onProgress: (percent) => job.updateProgress(percent)
+    });
 
-      // Update email status
-      await prisma.processedEmail.update({
-        where: { id: emailId },
-        data: { processingStatus: 'COMPLETED' }
-      });
+    return {
+      success: true,
+      emailId,
+      extraction: outcome.extraction,
+    };
+  }
 
-      await job.updateProgress(100);
+  /**
+   * Re-apply categorization rules to every stored transaction of an account
+   */
+  private async recategorize(emailAccountId: string, job: Job): Promise<EmailProcessingResult> {
+    const total = await prisma.extractedData.count({ where: { email: { accountId: emailAccountId } } });
 
-      // Broadcast extraction completed with results
-      const wsService2 = getWebSocketServiceInstance();
-      if (wsService2) {
-        wsService2.broadcastEmailUpdate({
-          type: 'completed',
-          emailId,
-          accountId: email.accountId,
-          message: `Data extraction completed: ${extraction.merchantName || 'Unknown'} - ${extraction.amount ? `${extraction.currency}${extraction.amount}` : 'No amount detected'}`,
-          data: {
-            extraction
-          }
-        });
-        
-        // Send detailed processing update via private method  
-        this.sendProcessingUpdate(wsService2, {
-          emailId,
-          accountId: email.accountId,
-          type: 'extraction_complete',
-          extraction,
-          message: `Financial data extracted from email`
-        });
-      }
+    const result = await categorizationRuleService.reapply(emailAccountId, async (checked) => {
+      await job.updateProgress(total > 0 ? Math.round((checked / total) * 100) : 100);
+    });
 
-      return {
-        success: true,
-        emailId,
-        extraction,
-      };
+    await job.updateProgress(100);
 
-    } catch (error) {
-      // Update email status to failed
-      try {
-        await prisma.processedEmail.update({
-          where: { id: emailId },
-          data: { processingStatus: 'FAILED' }
-        });
-      } catch (updateError) {
-        logger.error(`Failed to update email ${emailId} status to FAILED:`, updateError);
-      }
+    return {
+      success: true,
+      processedCount: result.changed
+    };
+  }
 
-      // Broadcast extraction failed
-      try {
-        const email = await prisma.processedEmail.findUnique({
-          where: { id: emailId }
-        });
-        if (email) {
-          const wsServiceError = getWebSocketServiceInstance();
-          if (wsServiceError) {
-            wsServiceError.broadcastEmailUpdate({
-              type: 'failed',
-              emailId,
-              accountId: email.accountId,
-              message: `Data extraction failed: ${error}`,
-            });
-          }
-        }
-      } catch (broadcastError) {
-        logger.error(`Failed to broadcast extraction failure for email ${emailId}:`, broadcastError);
-      }
+  /**
+   * Import older financial emails, continuing from the stored checkpoint
+   */
+  private async backfill(emailAccountId: string, job: Job): Promise<EmailProcessingResult> {
+    const result = await gmailBackfillService.run(emailAccountId, (percent) => job.updateProgress(percent));
 
-      throw error;
-    }
+    return {
+      success: true,
+      processedCount: result.stored
+    };
   }
 
   private async queueClassificationJob(emailId: string): Promise<void> {
@@ -559,70 +299,6 @@ export class EmailProcessor {
     });
   }
 
-  /**
-   * Map AI category to database enum
-   */
-  private mapCategoryToEnum(category: string): string {
-    const categoryMap: Record<string, string> = {
-      'banking': 'BANKING',
-      'credit_card': 'CREDIT_CARD', 
-      'investment': 'INVESTMENT',
-      'payment': 'PAYMENT',
-      'subscription': 'PAYMENT', // Map subscription to PAYMENT
-      'bill': 'BILL',
-      'tax': 'TAX',
-      'insurance': 'INSURANCE',
-      'loan': 'LOAN',
-      'other_financial': 'OTHER',
-      'non_financial': 'UNCLASSIFIED'
-    };
-    
-    return categoryMap[category] || 'UNCLASSIFIED';
-  }
-
-  /**
-   * Map AI transaction type to database enum
-   */
-  private mapTransactionTypeToEnum(transactionType?: string | null): string {
-    if (!transactionType) return 'UNKNOWN';
-    
-    const typeMap: Record<string, string> = {
-      'debit': 'DEBIT',
-      'credit': 'CREDIT',
-      'payment': 'PAYMENT',
-      'transfer': 'TRANSFER',
-      'fee': 'FEE',
-      'interest': 'INTEREST',
-      'dividend': 'DIVIDEND'
-    };
-    
-    return typeMap[transactionType] || 'UNKNOWN';
-  }
-
-  /**
-   * Get classification as string for AI processing
-   */
-  private getClassificationString(classification: any): string {
-    if (typeof classification === 'string') return classification.toLowerCase();
-    return 'other_financial';
-  }
-
-  /**
-   * Send processing update via WebSocket (private method to avoid direct io access)
-   */
-  private sendProcessingUpdate(wsService: any, data: any): void {
-    try {
-      if (wsService && typeof wsService.broadcastEmailUpdate === 'function') {
-        wsService.broadcastEmailUpdate({
-          type: 'processing_update',
-          ...data
-        });
-      }
-    } catch (error) {
-      logger.error('Failed to send processing update:', error);
-    }
-  }
-
   private async queueExtractionJob(emailId: string): Promise<void> {
     const { QueueService } = await import('../services/queueService');
     const queueService = QueueService.getInstance();
@@ -656,9 +332,10 @@ export class EmailProcessor {
   }
 
   /**
-   * Find and reprocess emails stuck at CLASSIFIED status
+   * Find and reprocess emails stuck at CLASSIFIED status, optionally only
+   * those of one user
    */
-  public async processStuckEmails(): Promise<{ processed: number; errors: string[] }> {
+  public async processStuckEmails(userId?: string): Promise<{ processed: number; errors: string[] }> {
     const errors: string[] = [];
     let processed = 0;
 
@@ -666,9 +343,10 @@ export class EmailProcessor {
       // Find emails stuck at CLASSIFIED for more than 5 minutes
       const stuckEmails = await prisma.processedEmail.findMany({
         where: {
+          ...(userId && { account: { userId } }),
           processingStatus: 'CLASSIFIED',
           classification: {
-            in: ['CREDIT_CARD', 'BANKING', 'PAYMENT'] // Financial classifications that need extraction
+            in: ['CREDIT_CARD', 'BANKING', 'PAYMENT', 'SUBSCRIPTION'] // Financial classifications that need extraction
           },
           updatedAt: {
             lt: new Date(Date.now() - 5 * 60 * 1000) // 5 minutes ago